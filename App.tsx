@@ -1,27 +1,87 @@
-import React from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import FaceScanner from './components/FaceScanner';
 import ParticleBackground from './components/ParticleBackground';
+import RemoteControl from './components/RemoteControl';
+import { ErrorIcon } from './components/Icons';
+import { RiskOutcome, ScannerStatus } from './types';
+import { EventConfig, loadEventConfig, applyEventColors } from './utils/EventConfig';
+import { findMissingMessages } from './utils/Messages';
+import { REDUCED_MOTION_CLASS, getMotionOverride, prefersReducedMotion, watchReducedMotion } from './utils/Motion';
+import { ParticleMode, particleModeFor } from './utils/ParticleModes';
+
+// `?remote` turns this page into a remote control for the kiosk (see README, Remote Control)
+const isRemote = new URLSearchParams(window.location.search).has('remote');
+const motionOverride = getMotionOverride();
+
+// An incomplete translation shows up in the console at startup rather than as a blank on the kiosk
+findMissingMessages().forEach(problem => console.error(`Message catalog: ${problem}`));
 
 const App: React.FC = () => {
+  const [event, setEvent] = useState<EventConfig | null>(null);
+  const [configError, setConfigError] = useState<string | null>(null);
+  const [reducedMotion, setReducedMotion] = useState(() => prefersReducedMotion(motionOverride));
+  // The background follows the scan; particles gather on the scanner in <main>
+  const [particleMode, setParticleMode] = useState<ParticleMode>('drift');
+  const scannerRef = useRef<HTMLElement>(null);
+  const handleStatusChange = useCallback((status: ScannerStatus, outcome: RiskOutcome | null) => {
+    setParticleMode(particleModeFor(status, outcome));
+  }, []);
+
+  // The stylesheet switches every overlay to its still variant off this class (see utils/Motion.ts)
+  useEffect(() => watchReducedMotion(setReducedMotion, motionOverride), []);
+
+  useEffect(() => {
+    document.documentElement.classList.toggle(REDUCED_MOTION_CLASS, reducedMotion);
+  }, [reducedMotion]);
+
+  // The event config is validated before anything else renders
+  useEffect(() => {
+    let mounted = true;
+    loadEventConfig()
+      .then((config) => {
+        if (!mounted) return;
+        applyEventColors(config.colors);
+        document.title = config.title;
+        setEvent(config);
+      })
+      .catch((err: Error) => {
+        console.error('Event config error:', err);
+        if (mounted) setConfigError(err.message);
+      });
+    return () => { mounted = false; };
+  }, []);
+
+  if (configError) {
+    return (
+      <div className="min-h-screen bg-slate-900 flex flex-col items-center justify-center p-4 text-center text-red-400 font-sans">
+        <ErrorIcon className="w-16 h-16 mb-4" />
+        <h1 className="text-xl font-bold mb-2 uppercase tracking-widest">Event configuration error</h1>
+        <p className="max-w-lg text-sm text-red-300">{configError}</p>
+      </div>
+    );
+  }
+
+  if (!event) return <div className="min-h-screen bg-slate-900" />;
+
   return (
     <div className="relative min-h-screen bg-slate-900 text-cyan-400 flex flex-col items-center justify-center p-4 overflow-hidden">
-      <ParticleBackground />
+      <ParticleBackground reducedMotion={reducedMotion} mode={particleMode} focusRef={scannerRef} />
       <header className="relative z-10 w-full top-0 left-0 right-0 p-4 md:p-6 bg-slate-900/50 backdrop-blur-sm border-b border-cyan-500/20">
-        <h1 className="text-2xl md:text-3xl font-bold tracking-widest text-center text-cyan-400 uppercase">
-          Biometric Authentication
+        <h1 className="text-2xl md:text-3xl font-bold tracking-widest text-center text-[var(--event-primary)] uppercase">
+          {event.title}
         </h1>
-        <p className="text-center text-sm text-cyan-600">Project Chimera // Secure Access System v2.7</p>
+        <p className="text-center text-sm text-cyan-600">{event.subtitle}</p>
       </header>
 
-      <main className="relative z-10 w-full max-w-2xl flex-grow flex items-center justify-center">
-        <FaceScanner />
+      <main ref={scannerRef} className="relative z-10 w-full max-w-2xl flex-grow flex items-center justify-center">
+        {isRemote ? <RemoteControl /> : <FaceScanner event={event} reducedMotion={reducedMotion} onStatusChange={handleStatusChange} />}
       </main>
-      
+
       <footer className="relative z-10 w-full bottom-0 left-0 right-0 p-3 text-center text-xs text-cyan-700">
-        <p>&copy; 2025 Labuan Financial Service Authority. All rights reserved.</p>
+        <p>{event.footer}</p>
       </footer>
     </div>
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
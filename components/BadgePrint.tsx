@@ -0,0 +1,93 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { BadgeData, BadgeTemplate, toMillimetres } from '../utils/Badge';
+import { EventConfig } from '../utils/EventConfig';
+import { createQrDataUrl } from '../utils/QrCode';
+
+// Prints one badge. While mounted, the badge sheet is rendered outside the app root, the print
+// CSS in index.css hides everything else, and the page size is set from the template.
+// The print dialog opens once the images are decoded; `onDone` fires when it closes.
+
+interface BadgePrintProps {
+  badge: BadgeData;
+  template: BadgeTemplate;
+  event: EventConfig;
+  onDone: () => void;
+}
+
+const BadgePrint: React.FC<BadgePrintProps> = ({ badge, template, event, onDone }) => {
+  const sheetRef = useRef<HTMLDivElement>(null);
+  const qrCode = useMemo(() => (template.code ? createQrDataUrl(badge.profileId, 512) : null), [badge.profileId, template.code]);
+
+  const onDoneRef = useRef(onDone);
+  onDoneRef.current = onDone;
+
+  // Prints once per mount; callers remount (or key) the component for the next badge
+  useEffect(() => {
+    let cancelled = false;
+    const handleAfterPrint = () => onDoneRef.current();
+    window.addEventListener('afterprint', handleAfterPrint, { once: true });
+    const images: HTMLImageElement[] = Array.from(sheetRef.current?.querySelectorAll('img') ?? []);
+    Promise.all(images.map(img => img.decode().catch(() => undefined))).then(() => {
+      if (!cancelled) window.print();
+    });
+    return () => {
+      cancelled = true;
+      window.removeEventListener('afterprint', handleAfterPrint);
+    };
+  }, []);
+
+  // Everything is sized in mm from the shorter side, so each template scales its own layout
+  const width = toMillimetres(template.width);
+  const height = toMillimetres(template.height);
+  const unit = Math.min(width, height);
+  const landscape = width >= height;
+  const mm = (value: number) => `${value.toFixed(2)}mm`;
+  const showPhoto = template.photo && badge.portrait;
+
+  return createPortal(
+    <div className="badge-print" ref={sheetRef}>
+      <style>{`@page { size: ${template.width} ${template.height}; margin: 0; }`}</style>
+      <div
+        className="flex flex-col overflow-hidden bg-white text-slate-900"
+        style={{ width: template.width, height: template.height }}
+      >
+        <div
+          className="flex items-center justify-center font-bold uppercase tracking-widest text-white text-center"
+          style={{ backgroundColor: event.colors.primary, height: mm(unit * 0.14), fontSize: mm(unit * 0.055), padding: `0 ${mm(unit * 0.04)}` }}
+        >
+          {event.title}
+        </div>
+        <div
+          className={`flex flex-grow items-center ${landscape ? 'flex-row' : 'flex-col justify-center text-center'}`}
+          style={{ gap: mm(unit * 0.05), padding: mm(unit * 0.06) }}
+        >
+          {showPhoto && (
+            <img
+              src={badge.portrait ?? undefined}
+              alt={`${badge.name} portrait`}
+              className="object-cover rounded-md flex-shrink-0"
+              style={{ width: mm(unit * (landscape ? 0.5 : 0.55)), height: mm(unit * (landscape ? 0.5 : 0.55)) }}
+            />
+          )}
+          <div className={`flex flex-col min-w-0 ${landscape ? 'flex-grow' : 'items-center'}`}>
+            <p className="font-bold leading-tight break-words" style={{ fontSize: mm(unit * 0.1) }}>{badge.name}</p>
+            <p className="leading-snug" style={{ fontSize: mm(unit * 0.055), marginTop: mm(unit * 0.02) }}>{badge.title}</p>
+            <p className="font-semibold leading-snug" style={{ fontSize: mm(unit * 0.055), color: event.colors.primary }}>{badge.organisation}</p>
+          </div>
+          {qrCode && (
+            <img
+              src={qrCode}
+              alt={`Attendee code ${badge.profileId}`}
+              className={`flex-shrink-0 ${landscape ? 'self-end' : ''}`}
+              style={{ width: mm(unit * 0.28), height: mm(unit * 0.28) }}
+            />
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default BadgePrint;
@@ -0,0 +1,84 @@
+import React, { useState, useEffect } from 'react';
+import { CameraPreferences, listCameras } from '../utils/VideoSource';
+
+// Camera section of the operator panel: which USB camera to use and in what format.
+// The device list follows plugs and unplugs; changes apply the next time the camera opens.
+
+interface CameraPickerProps {
+  preferences: CameraPreferences;
+  onChange: (preferences: CameraPreferences) => void;
+  selectClass: string;
+}
+
+const RESOLUTIONS = [
+  { label: 'Default', width: null, height: null },
+  { label: '640 × 480', width: 640, height: 480 },
+  { label: '1280 × 720', width: 1280, height: 720 },
+  { label: '1920 × 1080', width: 1920, height: 1080 },
+];
+
+const FRAME_RATES = [null, 15, 24, 30, 60];
+
+const CameraPicker: React.FC<CameraPickerProps> = ({ preferences, onChange, selectClass }) => {
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices) return;
+    let mounted = true;
+    const refresh = () => {
+      listCameras()
+        .then((found) => { if (mounted) setCameras(found); })
+        .catch((err) => console.error('Camera list error:', err));
+    };
+    refresh();
+    mediaDevices.addEventListener('devicechange', refresh);
+    return () => {
+      mounted = false;
+      mediaDevices.removeEventListener('devicechange', refresh);
+    };
+  }, []);
+
+  const resolution = RESOLUTIONS.findIndex(r => r.width === preferences.width && r.height === preferences.height);
+  const chosenMissing = preferences.deviceId !== null && !cameras.some(c => c.deviceId === preferences.deviceId);
+
+  return (
+    <div className="mb-3">
+      <span className="block mb-1 text-slate-400">Camera</span>
+      <select
+        value={preferences.deviceId ?? ''}
+        onChange={(e) => onChange({ ...preferences, deviceId: e.target.value || null })}
+        className={`${selectClass} mb-1`}
+      >
+        <option value="">Front camera (automatic)</option>
+        {cameras.map((camera, i) => (
+          <option key={camera.deviceId || i} value={camera.deviceId}>{camera.label || `Camera ${i + 1}`}</option>
+        ))}
+        {chosenMissing && <option value={preferences.deviceId ?? ''}>Saved camera (not connected)</option>}
+      </select>
+      <div className="flex gap-1">
+        <select
+          value={resolution === -1 ? 0 : resolution}
+          onChange={(e) => {
+            const { width, height } = RESOLUTIONS[Number(e.target.value)];
+            onChange({ ...preferences, width, height });
+          }}
+          className={selectClass}
+          aria-label="Resolution"
+        >
+          {RESOLUTIONS.map((r, i) => <option key={r.label} value={i}>{r.label}</option>)}
+        </select>
+        <select
+          value={preferences.frameRate ?? ''}
+          onChange={(e) => onChange({ ...preferences, frameRate: e.target.value ? Number(e.target.value) : null })}
+          className={selectClass}
+          aria-label="Frame rate"
+        >
+          {FRAME_RATES.map(rate => <option key={rate ?? 'default'} value={rate ?? ''}>{rate ? `${rate} fps` : 'Default fps'}</option>)}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default CameraPicker;
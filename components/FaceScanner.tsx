@@ -1,45 +1,87 @@
 
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { ScannerStatus } from '../types';
-import { CheckIcon, ErrorIcon, FaceMeshIcon, WorldCheckIcon, EkycIcon } from './Icons';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { ScannerStatus, DetectionBox, FrameSize, FaceLandmarks, AttendeeProfile, AnnouncerLine, LivenessChallenge, RiskOutcome, Locale } from '../types';
+import { CheckIcon, ErrorIcon, FaceMeshIcon, WorldCheckIcon, EkycIcon, CameraOffIcon, LockIcon, ChipIcon } from './Icons';
+import OperatorPanel from './OperatorPanel';
+import SessionLogViewer from './SessionLogViewer';
+import BadgePrint from './BadgePrint';
 import { SoundEffects } from '../utils/SoundEffects';
+import { resolveSoundPack } from '../utils/SoundPacks';
+import { Announcer } from '../utils/Announcer';
+import { FaceDetector, FaceStabilityTracker, createFaceDetector, mirrorBox } from '../utils/FaceDetector';
+import {
+  LivenessProbe, LivenessVerifier, LIVENESS_SETTLE_MS, LIVENESS_SETTLE_TIMEOUT_MS,
+  createLivenessProbe, getLivenessChallenges, pickChallenge,
+} from '../utils/Liveness';
+import { FaceEmbedder, EnrolledFace, DEFAULT_MATCH_THRESHOLD, createFaceEmbedder, enrollProfiles, embedImage, matchFace, scoreCandidates } from '../utils/FaceMatcher';
+import { meshFromLandmarks } from '../utils/FaceMesh';
+import {
+  VideoSourceConfig, CameraPreferences, DEFAULT_CAMERA_PREFERENCES,
+  getVideoSourceConfig, isStillImage, openVideoSource, saveCameraPreferences, listCameras, videoSourceFault,
+} from '../utils/VideoSource';
+import { applyAnimationTimeScale, getRehearsalMode, getRehearsalSource, getTimeScale } from '../utils/Rehearsal';
+import { loadProfiles, resolveProfile, getRiskOutcome } from '../utils/ProfileRegistry';
+import { RevealCue, RevealOverlay, RevealTimelines, DEFAULT_REVEAL_TIMELINES, OUTCOME_STYLES, filterCues } from '../utils/RevealTimeline';
+import { TimelineScheduler } from '../utils/TimelineScheduler';
+import { ScannerState, ScannerEvent, ScannerEffect, INITIAL_SCANNER_STATE, transition, isActivity } from '../utils/ScannerMachine';
+import { ScannerErrorIcon, SCANNER_ERRORS, createFault } from '../utils/ScannerError';
+import { LOCALES, MESSAGES, format, getLocaleOverride } from '../utils/Messages';
+import { TextGenerator, AttendeeCopy, DEFAULT_GENERATION_TIMEOUT_MS, createTextGenerator, generateAttendeeCopy } from '../utils/TextGenerator';
+import { EventConfig } from '../utils/EventConfig';
+import { getKioskMode, watchForGuest } from '../utils/AttractWatch';
+import { SessionRecorder, createThumbnail, saveSession } from '../utils/SessionLog';
+import { publishSouvenirCard } from '../utils/SouvenirCard';
+import { createQrDataUrl } from '../utils/QrCode';
+import { BadgeData, cropPortrait, defaultBadgeTemplate } from '../utils/Badge';
+import { RelayClient, getRelayUrl, getRelayToken } from '../utils/RelayClient';
+import { prefersReducedMotion } from '../utils/Motion';
+import { CommandMessage, isCommand } from '../utils/RemoteProtocol';
 
-const STATUS_MESSAGES: { [key in ScannerStatus]: string } = {
-  [ScannerStatus.IDLE]: 'Awaiting Initialization',
-  [ScannerStatus.INITIALIZING]: 'Initializing Camera...',
-  [ScannerStatus.DETECTING]: 'Searching for Biometric Signature...',
-  [ScannerStatus.CAPTURED]: 'Signature Locked. Preparing Scan.',
-  [ScannerStatus.SCANNING]: 'Analyzing Biometric Data...',
-  [ScannerStatus.SCAN_PASSED]: 'Biometric Signature Confirmed',
-  [ScannerStatus.SUCCESS]: 'Access Granted',
-  [ScannerStatus.ERROR]: 'Access Denied. System Error.',
-  [ScannerStatus.FINALIZING]: 'Finalizing Session...',
-  [ScannerStatus.COUNTDOWN]: 'System Resetting...',
-  [ScannerStatus.ONBOARDED]: 'Onboarding Complete',
-  [ScannerStatus.WELCOME]: '',
+// How often the detector samples the live video while searching
+const DETECTION_INTERVAL_MS = 120;
+// Kiosk mode: wait before reopening the attract watch after a camera or model failure
+const ATTRACT_RETRY_MS = 5000;
+// How often a lost camera is retried (a device change also triggers a retry)
+const CAMERA_RETRY_MS = 1000;
+const DEFAULT_STABLE_FACE_MS = 1200;
+// EDD popup typing speed in real time
+const TYPING_INTERVAL_MS = 15;
+// Browsers clamp repeating timers to about 4 ms, so faster typing adds more characters per tick
+const MIN_TIMER_MS = 4;
+
+// Keyboard shortcuts for the guest-facing buttons. Plain letters, so they stay clear of the
+// operator panel's Ctrl + Alt + O and Escape; each button also lists its key in aria-keyshortcuts.
+const SHORTCUTS = {
+  start: 'S',
+  language: 'L',   // Next language on the IDLE screen
+  retry: 'R',
+  cancel: 'C',
+  printBadge: 'P',
+  next: 'N',       // New scan, or proceed from the welcome screen
+} as const;
+
+const ERROR_ICONS: { [key in ScannerErrorIcon]: React.FC<{ className?: string }> } = {
+  camera: CameraOffIcon,
+  lock: LockIcon,
+  model: ChipIcon,
+  face: FaceMeshIcon,
+  error: ErrorIcon,
 };
 
-const SCANNING_TEXTS = [
-  'Calibrating Quantum Sensors...',
-  'Mapping Facial Topography...',
-  'Acquiring Depth Map...',
-  ' analyzing_geometry_mesh_v2...',
-  'Cross-Referencing Neural Signatures...',
-  'Verifying DNA Markers...',
-  'Calculating Cranial Ratios...',
-  'Accessing Interpol-V Database...',
-  'Handshake Protocol Initiated...',
-  'Decompressing Biometric Hash...',
-  'Decrypting Identity Token...',
-  'Matching Facial Nodes...',
-  'Compiling Final Report...',
-];
-
-const fullFsaText = "Labuan FSA is the statutory body responsible for the development and administration of the Labuan International Business and Financial Centre (Labuan IBFC)";
-
-// Helper component for the scrolling matrix data
-const RandomDataStream: React.FC<{ align?: 'left' | 'right' }> = ({ align = 'left' }) => {
-  const [text, setText] = useState<string[]>([]);
+// A reveal without a profile (e.g. no profiles loaded) plays the full sheet
+const outcomeOf = (profile: AttendeeProfile | null): RiskOutcome => (profile ? getRiskOutcome(profile) : 'HIGH');
+
+// Positions a box given in video pixels as percentages of the rendered frame
+const boxStyle = (box: DetectionBox, frame: FrameSize): React.CSSProperties => ({
+  left: `${(box.x / frame.width) * 100}%`,
+  top: `${(box.y / frame.height) * 100}%`,
+  width: `${(box.width / frame.width) * 100}%`,
+  height: `${(box.height / frame.height) * 100}%`,
+});
+
+// Helper component for the scrolling matrix data; `still` draws one set of lines and keeps it
+const RandomDataStream: React.FC<{ align?: 'left' | 'right'; still?: boolean }> = ({ align = 'left', still = false }) => {
+  const [text, setText] = useState<{ line: string; dim: boolean }[]>([]);
   
   useEffect(() => {
     let mounted = true;
@@ -50,72 +92,180 @@ const RandomDataStream: React.FC<{ align?: 'left' | 'right' }> = ({ align = 'lef
       const rows = 20;
       const newLines = [];
       for(let i=0; i<rows; i++) {
-        newLines.push(
-            Array.from({ length: 2 }, () => chars[Math.floor(Math.random() * chars.length)]).join(' ')
-        );
+        newLines.push({
+            line: Array.from({ length: 2 }, () => chars[Math.floor(Math.random() * chars.length)]).join(' '),
+            dim: Math.random() > 0.5,
+        });
       }
       setText(newLines);
     };
 
-    const interval = setInterval(update, 60); // Fast update for dramatic effect
     update();
+    if (still) return () => { mounted = false; };
+    const interval = setInterval(update, 60); // Fast update for dramatic effect
     return () => { 
         mounted = false; 
         clearInterval(interval);
     };
-  }, []);
+  }, [still]);
   
   return (
-    <div className={`flex flex-col text-[10px] text-cyan-500/60 leading-[1.2] whitespace-nowrap ${align === 'right' ? 'items-end text-right' : 'items-start text-left'}`}>
-      {text.map((line, i) => (
-        <span key={i} style={{ opacity: Math.random() > 0.5 ? 1 : 0.5 }}>{line}</span>
+    <div aria-hidden="true" className={`flex flex-col text-[10px] text-cyan-500/60 leading-[1.2] whitespace-nowrap ${align === 'right' ? 'items-end text-right' : 'items-start text-left'}`}>
+      {text.map(({ line, dim }, i) => (
+        <span key={i} style={{ opacity: dim ? 0.5 : 1 }}>{line}</span>
       ))}
     </div>
   );
 };
 
-const FaceScanner: React.FC = () => {
-  const [status, setStatus] = useState<ScannerStatus>(ScannerStatus.IDLE);
+interface FaceScannerProps {
+  // Branding, copy and stage durations for the current event
+  event: EventConfig;
+  // Detector used during DETECTING; defaults to the bundled on-device model
+  detector?: FaceDetector;
+  // How long a face must hold still before the snapshot is taken
+  stableFaceMs?: number;
+  // Challenges to pick from before capture; an empty list skips the liveness check
+  livenessChallenges?: LivenessChallenge[];
+  // Landmark tracker that verifies the liveness response; defaults to the bundled model
+  livenessProbe?: LivenessProbe;
+  // Embedder used to match the snapshot against enrolled attendees; defaults to the bundled model
+  embedder?: FaceEmbedder;
+  // Minimum similarity (0..1) for a match; below it the scan ends as an unknown guest
+  matchThreshold?: number;
+  // Where frames come from; defaults to the camera unless `?source=` is set
+  videoSource?: VideoSourceConfig;
+  // Cue sheets for the SCAN_PASSED reveal, one per risk outcome
+  revealTimelines?: RevealTimelines;
+  // Writes the personalised greeting and EDD bio; null uses static copy. Defaults per createTextGenerator
+  textGenerator?: TextGenerator | null;
+  // Unattended mode: attract loop in IDLE, auto-start on an approaching face, auto-return to IDLE
+  kiosk?: boolean;
+  // PIN that unlocks the hidden operator panel (Ctrl + Alt + O); without one the panel is disabled
+  operatorPin?: string | null;
+  // LAN relay for remote control; null disables the link
+  relayUrl?: string | null;
+  // Rehearsal: frames come from a local file (see utils/Rehearsal.ts) and unknown faces still get a profile
+  rehearsal?: boolean;
+  // Speed-up factor for every timer, the reveal, the typing effect, audio files and CSS animations
+  timeScale?: number;
+  // Still variant of the scripted effects: no data stream updates or EDD typing (see utils/Motion.ts)
+  reducedMotion?: boolean;
+  // Reports each status, with the resolved attendee's outcome once known (drives the particle background)
+  onStatusChange?: (status: ScannerStatus, outcome: RiskOutcome | null) => void;
+}
+
+const FaceScanner: React.FC<FaceScannerProps> = ({
+  event,
+  detector,
+  stableFaceMs = DEFAULT_STABLE_FACE_MS,
+  livenessChallenges,
+  livenessProbe,
+  embedder,
+  matchThreshold = DEFAULT_MATCH_THRESHOLD,
+  videoSource,
+  revealTimelines = DEFAULT_REVEAL_TIMELINES,
+  textGenerator,
+  kiosk = getKioskMode(),
+  operatorPin = process.env.OPERATOR_PIN || null,
+  relayUrl = getRelayUrl(),
+  rehearsal = getRehearsalMode(),
+  timeScale = getTimeScale(),
+  reducedMotion = prefersReducedMotion(),
+  onStatusChange,
+}) => {
+  const [machine, setMachine] = useState<ScannerState>(INITIAL_SCANNER_STATE);
   const [snapshot, setSnapshot] = useState<string | null>(null);
-  const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [scanningMessage, setScanningMessage] = useState<string>(SCANNING_TEXTS[0]);
-  const [detectionBox, setDetectionBox] = useState<{ x: number; y: number; width: number; height: number } | null>(null);
-  const [countdown, setCountdown] = useState(5);
-  const [showFsaPopup, setShowFsaPopup] = useState(false);
+  const [scanningLine, setScanningLine] = useState(0);
+  const [detectionBox, setDetectionBox] = useState<DetectionBox | null>(null);
+  const [frameSize, setFrameSize] = useState<FrameSize>({ width: 1, height: 1 });
+  // Landmarks of the face in the snapshot, once the matcher has found them
+  const [landmarks, setLandmarks] = useState<FaceLandmarks | null>(null);
+  // The liveness challenge was answered and the snapshot is waiting for a frontal face
+  const [livenessAnswered, setLivenessAnswered] = useState(false);
+  const [revealOverlays, setRevealOverlays] = useState<RevealOverlay[]>([]);
   const [displayedFsaText, setDisplayedFsaText] = useState('');
   const [isTyping, setIsTyping] = useState(false);
   const [matchConfidence, setMatchConfidence] = useState(0);
+  const [profile, setProfile] = useState<AttendeeProfile | null>(null);
+  // Generated copy and the language it was written in
+  const [attendeeCopy, setAttendeeCopy] = useState<{ locale: Locale; copy: AttendeeCopy } | null>(null);
+  const [souvenirUrl, setSouvenirUrl] = useState<string | null>(null);
+  const [badgePrint, setBadgePrint] = useState<BadgeData | null>(null);
+  const [profiles, setProfiles] = useState<AttendeeProfile[]>([]);
+  const [nextProfileId, setNextProfileId] = useState<string | null>(null);
+  const [revealPaused, setRevealPaused] = useState(false);
+  const [muted, setMuted] = useState(SoundEffects.isMuted());
+  const [showSessionLog, setShowSessionLog] = useState(false);
+  const [retryDueAt, setRetryDueAt] = useState<number | null>(null);
+  const [clock, setClock] = useState(Date.now());
+  const [locale, setLocale] = useState<Locale>(() => getLocaleOverride() ?? event.language);
+  const localeRef = useRef(locale);
+  localeRef.current = locale;
+  const { status, countdown, error, challenge, match } = machine;
 
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  
-  // Audio loop cleanups & Timer refs
-  const stopScanLoopRef = useRef<() => void>(() => {});
-  const soundTimeouts = useRef<ReturnType<typeof setTimeout>[]>([]);
+  const [faceDetector] = useState<FaceDetector>(() => detector ?? createFaceDetector());
+  const [sourceConfig, setSourceConfig] = useState<VideoSourceConfig>(() => videoSource ?? (rehearsal ? getRehearsalSource() : getVideoSourceConfig()));
+  // A rehearsal still image could never pass the liveness check
+  const [challenges] = useState<LivenessChallenge[]>(
+    () => livenessChallenges ?? (rehearsal && isStillImage(sourceConfig) ? [] : getLivenessChallenges())
+  );
+  const [faceLivenessProbe] = useState<LivenessProbe>(() => livenessProbe ?? createLivenessProbe());
+  const [faceEmbedder] = useState<FaceEmbedder>(() => embedder ?? createFaceEmbedder());
+  const [copyGenerator] = useState<TextGenerator | null>(() => (textGenerator !== undefined ? textGenerator : createTextGenerator()));
+  // Kept in refs so effects started in the same batch see the latest values
+  const profileRef = useRef<AttendeeProfile | null>(null);
+  const revealSchedulerRef = useRef<TimelineScheduler<RevealCue> | null>(null);
+  const revealPausedRef = useRef(false);
+  // Enrolled attendee faces; replaced by a fresh enrollment whenever the profiles load
+  const galleryRef = useRef<Promise<EnrolledFace[]>>(Promise.resolve([]));
+  const [enrolledCount, setEnrolledCount] = useState<number | null>(null);
+  const recorderRef = useRef(new SessionRecorder());
+
+  // Machine interpreter state: the latest machine state, effects waiting for the next commit,
+  // and cleanups for the activities of the current stage
+  const machineRef = useRef<ScannerState>(INITIAL_SCANNER_STATE);
+  const pendingEffects = useRef<{ effect: ScannerEffect; stage: number }[]>([]);
+  const activities = useRef<(() => void)[]>([]);
 
   const stopCamera = useCallback(() => {
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach((track) => track.stop());
-      streamRef.current = null;
-    }
+    const stream = streamRef.current;
+    // Cleared first so the tracks ending here are not taken for a lost camera
+    streamRef.current = null;
+    stream?.getTracks().forEach((track) => track.stop());
   }, []);
 
-  const clearSoundTimeouts = useCallback(() => {
-      soundTimeouts.current.forEach(clearTimeout);
-      soundTimeouts.current = [];
+  const stopActivities = useCallback(() => {
+    activities.current.forEach(stop => stop());
+    activities.current = [];
   }, []);
 
-  const handleReset = useCallback(() => {
-    clearSoundTimeouts();
-    setSnapshot(null);
-    setErrorMessage(null);
-    setDetectionBox(null);
-    setShowFsaPopup(false);
-    setMatchConfidence(0);
-    setStatus(ScannerStatus.IDLE);
-  }, [clearSoundTimeouts]);
+  const dispatch = useCallback((event: ScannerEvent) => {
+    const result = transition(machineRef.current, event);
+    if (!result) return;
+    // Entering a status ends the current stage; in-stage updates keep its activities running
+    if (result.state.stage !== machineRef.current.stage) stopActivities();
+    machineRef.current = result.state;
+    pendingEffects.current.push(...result.effects.map(effect => ({ effect, stage: result.state.stage })));
+    setMachine(result.state);
+  }, [stopActivities]);
 
+  // The reveal plays the sheet for the resolved profile's outcome, and only the cues that apply to it
+  const outcomeStyle = OUTCOME_STYLES[outcomeOf(profile)];
+  // Guest-facing copy follows the language picked on the IDLE screen, or the attendee's own once resolved
+  const displayLocale = profile?.language ?? locale;
+  const messages = MESSAGES[displayLocale];
+  const outcomeCopy = messages.outcomes[outcomeOf(profile)];
+  const welcome = event.welcome.translations[displayLocale] ?? event.welcome;
+  const activeTimeline = useMemo(
+    () => filterCues(revealTimelines[outcomeOf(profile)], profile?.tags ?? []),
+    [revealTimelines, profile]
+  );
+
+  // Draws the current video frame (mirrored) into the snapshot; returns false if no frame is available
   const captureSnapshot = useCallback(() => {
     if (videoRef.current && canvasRef.current) {
       const video = videoRef.current;
@@ -130,239 +280,442 @@ const FaceScanner: React.FC = () => {
         context.drawImage(video, 0, 0, canvas.width, canvas.height);
         const dataUrl = canvas.toDataURL('image/png');
         setSnapshot(dataUrl);
-        setStatus(ScannerStatus.CAPTURED);
-        SoundEffects.playLockOn(); // SOUND EFFECT: Capture
-        stopCamera();
+        return true;
       }
     }
-  }, [stopCamera]);
+    return false;
+  }, []);
 
-  useEffect(() => {
-    // === STATUS: INITIALIZING ===
-    if (status === ScannerStatus.INITIALIZING) {
-      SoundEffects.playPowerUp(); // SOUND EFFECT: Init
-      navigator.mediaDevices
-        .getUserMedia({ video: { facingMode: 'user' } })
+  // === Effect Runners (one per ScannerEffect) ===
+
+  const runAttractWatch = () => {
+    let stopWatch = () => {};
+    let retry: ReturnType<typeof setTimeout> | undefined;
+
+    const start = () => {
+      stopWatch = watchForGuest(
+        faceDetector,
+        sourceConfig,
+        () => dispatch({ type: 'GUEST_APPROACHED' }),
+        (err) => {
+          console.error('Attract watch error:', err);
+          retry = setTimeout(start, ATTRACT_RETRY_MS);
+        }
+      );
+    };
+
+    start();
+    return () => {
+      clearTimeout(retry);
+      stopWatch();
+    };
+  };
+
+  // Shows a freshly opened stream and reports CAMERA_READY once it has frames.
+  // A track that ends while it is still the current stream means the camera dropped out.
+  const attachStream = (stream: MediaStream) => {
+    streamRef.current = stream;
+    stream.getVideoTracks().forEach(track => track.addEventListener('ended', () => {
+      if (streamRef.current === stream) dispatch({ type: 'CAMERA_LOST' });
+    }));
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+      videoRef.current.onloadedmetadata = () => {
+        const video = videoRef.current;
+        if (!video) return;
+        video.play();
+        setFrameSize({ width: video.videoWidth, height: video.videoHeight });
+        dispatch({ type: 'CAMERA_READY' });
+      };
+    }
+  };
+
+  const openCamera = (stage: number) => {
+    // Already streaming (e.g. an operator jump back to DETECTING mid-flow)
+    if (streamRef.current) return;
+    // Warm up the model while the camera starts; failures resurface in DETECTING
+    faceDetector.load().catch(() => {});
+    if (challenges.length > 0) faceLivenessProbe.load().catch(() => {});
+    openVideoSource(sourceConfig)
+      .then((stream) => {
+        // The flow may have been reset (or restarted) while the camera was starting
+        if (machineRef.current.stage !== stage) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        attachStream(stream);
+      })
+      .catch((err) => {
+        console.error('Camera access error:', err);
+        dispatch({ type: 'CAMERA_FAILED', error: videoSourceFault(err, sourceConfig) });
+      });
+  };
+
+  // Keeps trying to reopen a camera that dropped out; the machine gives up after `cameraRecovery`
+  const reconnectCamera = () => {
+    let reconnecting = true;
+    let opening = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const attempt = () => {
+      if (!reconnecting || opening) return;
+      opening = true;
+      clearTimeout(timer);
+      openVideoSource(sourceConfig)
         .then((stream) => {
-          streamRef.current = stream;
-          if (videoRef.current) {
-            videoRef.current.srcObject = stream;
-            videoRef.current.onloadedmetadata = () => {
-              videoRef.current?.play();
-              setStatus(ScannerStatus.DETECTING);
-            };
+          opening = false;
+          if (!reconnecting) {
+            stream.getTracks().forEach((track) => track.stop());
+            return;
           }
+          attachStream(stream);
         })
-        .catch((err) => {
-          console.error('Camera access error:', err);
-          setErrorMessage('Camera access denied. Please enable camera permissions in your browser settings.');
-          setStatus(ScannerStatus.ERROR);
+        .catch(() => {
+          opening = false;
+          if (reconnecting) timer = setTimeout(attempt, CAMERA_RETRY_MS);
         });
-    }
+    };
 
-    // === STATUS: DETECTING ===
-    if (status === ScannerStatus.DETECTING) {
-      const detectionActive = { current: true };
-
-      const detectFace = () => {
-        if (
-          !detectionActive.current ||
-          !videoRef.current ||
-          videoRef.current.paused ||
-          videoRef.current.videoWidth === 0
-        ) {
-          if (detectionActive.current) setTimeout(detectFace, 500);
-          return;
-        }
+    // A camera being plugged back in shows up as a device change before the next retry is due
+    navigator.mediaDevices?.addEventListener('devicechange', attempt);
+    attempt();
+    return () => {
+      reconnecting = false;
+      clearTimeout(timer);
+      navigator.mediaDevices?.removeEventListener('devicechange', attempt);
+    };
+  };
 
-        const video = videoRef.current;
+  const clearSession = () => {
+    Announcer.stop();
+    profileRef.current = null;
+    setSnapshot(null);
+    setDetectionBox(null);
+    setLandmarks(null);
+    setRevealOverlays([]);
+    setMatchConfidence(0);
+    setProfile(null);
+    setAttendeeCopy(null);
+    setSouvenirUrl(null);
+  };
 
-        // MOCK AI DETECTION: Simulate a successful face detection after a delay.
-        setTimeout(() => {
-          if (!detectionActive.current) return;
+  const detectFace = () => {
+    let detectionActive = true;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const tracker = new FaceStabilityTracker(stableFaceMs / timeScale);
 
-          detectionActive.current = false;
+    const detect = async () => {
+      if (!detectionActive) return;
+      const video = videoRef.current;
+      if (!video || video.paused || video.videoWidth === 0) {
+        timer = setTimeout(detect, 500);
+        return;
+      }
 
-          const videoWidth = video.videoWidth;
-          const videoHeight = video.videoHeight;
-          const boxWidth = videoWidth * 0.3; // Slightly larger for better framing
-          const boxHeight = videoHeight * 0.4;
+      try {
+        const detection = await faceDetector.detect(video);
+        if (!detectionActive) return;
 
-          setDetectionBox({
-            x: (videoWidth - boxWidth) / 2,
-            y: (videoHeight - boxHeight) / 2,
-            width: boxWidth,
-            height: boxHeight,
-          });
+        // Boxes are stored mirrored so they line up with the flipped preview and snapshot
+        const box = detection ? mirrorBox(detection.box, video.videoWidth) : null;
+        setDetectionBox(box);
 
-          // Brief pause to show "Locked" state before capture
-          setTimeout(() => captureSnapshot(), 1200); // Extended lock time slightly
-        }, 10000); 
-      };
+        // Only move on once the face has held still long enough; with liveness enabled the
+        // snapshot waits until the challenge has been answered
+        if (tracker.update(box, performance.now())) {
+          if (challenges.length > 0) {
+            dispatch({ type: 'FACE_LOCKED', challenge: pickChallenge(challenges) });
+            return;
+          }
+          if (captureSnapshot()) {
+            dispatch({ type: 'FACE_CAPTURED' });
+            return;
+          }
+        }
+      } catch (err) {
+        if (!detectionActive) return;
+        console.error('Face detection error:', err);
+        dispatch({ type: 'DETECTION_FAILED', error: createFault('model-load-failed', err) });
+        return;
+      }
 
-      detectFace();
-      return () => {
-        detectionActive.current = false;
-      };
-    }
+      timer = setTimeout(detect, DETECTION_INTERVAL_MS);
+    };
 
-    // === STATUS: CAPTURED ===
-    if (status === ScannerStatus.CAPTURED) {
-      const timer = setTimeout(() => setStatus(ScannerStatus.SCANNING), 1000);
-      return () => clearTimeout(timer);
-    }
+    detect();
+    return () => {
+      detectionActive = false;
+      clearTimeout(timer);
+    };
+  };
 
-    // === STATUS: SCANNING ===
-    if (status === ScannerStatus.SCANNING) {
-      // SOUND EFFECT: Start Loop
-      stopScanLoopRef.current = SoundEffects.playScanLoop();
-      
-      setScanningMessage(SCANNING_TEXTS[0]);
-      setMatchConfidence(0);
-      let textIndex = 0;
-      
-      // Change text rapidly
-      const textInterval = setInterval(() => {
-        textIndex = (textIndex + 1) % SCANNING_TEXTS.length;
-        setScanningMessage(SCANNING_TEXTS[textIndex]);
-        SoundEffects.playDataTick(); // SOUND EFFECT: Data tick
-      }, 600); 
-
-      // Confidence counter
-      const confidenceInterval = setInterval(() => {
-        setMatchConfidence(prev => {
-            if (prev >= 99) return 99;
-            return prev + 1;
-        });
-      }, 80); 
+  const verifyLiveness = () => {
+    let livenessActive = true;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const verifier = new LivenessVerifier(machineRef.current.challenge ?? 'blink');
+    const settle = new FaceStabilityTracker(LIVENESS_SETTLE_MS / timeScale);
+    let answeredAt: number | null = null;
+    // A challenge answered late is not failed by the stage timer for want of a frontal frame:
+    // settling gives up a few samples before the timer is due
+    const settleBy = performance.now() + event.durations.liveness / timeScale - 4 * DETECTION_INTERVAL_MS;
+    setLivenessAnswered(false);
 
-      const timer = setTimeout(() => {
-          setMatchConfidence(100);
-          setStatus(ScannerStatus.SCAN_PASSED);
-      }, 8000); 
-      
-      return () => {
-        stopScanLoopRef.current(); // SOUND EFFECT: Stop Loop
-        clearTimeout(timer);
-        clearInterval(textInterval);
-        clearInterval(confidenceInterval);
-      };
-    }
-    
-    // === STATUS: SCAN_PASSED (Orchestrated Sequence) ===
-    if (status === ScannerStatus.SCAN_PASSED) {
-        SoundEffects.playSuccess(); // SOUND EFFECT: Success
+    const check = async () => {
+      if (!livenessActive) return;
+      const video = videoRef.current;
+      if (!video || video.paused || video.videoWidth === 0) {
+        timer = setTimeout(check, 500);
+        return;
+      }
 
-        // Clear any previous sound timeouts just in case
-        clearSoundTimeouts();
+      try {
+        const sample = await faceLivenessProbe.sample(video);
+        if (!livenessActive) return;
+        setDetectionBox(sample ? sample.box : null);
+        const now = performance.now();
+        if (answeredAt === null && sample && verifier.update(sample)) {
+          answeredAt = now;
+          setLivenessAnswered(true);
+        }
+        // The snapshot is taken on the dispatch, so hold it until the guest faces the camera again
+        if (answeredAt !== null) {
+          const settled = settle.update(sample && verifier.isNeutral(sample) ? sample.box : null, now);
+          if (settled || now - answeredAt >= LIVENESS_SETTLE_TIMEOUT_MS / timeScale || now >= settleBy) {
+            dispatch({ type: 'LIVENESS_PASSED' });
+            return;
+          }
+        }
+      } catch (err) {
+        if (!livenessActive) return;
+        console.error('Liveness check error:', err);
+        dispatch({ type: 'LIVENESS_FAILED', error: createFault('model-load-failed', err) });
+        return;
+      }
 
-        // 1. eKYC Tag
-        soundTimeouts.current.push(
-            setTimeout(() => SoundEffects.playTagAppear(), 1200)
-        );
+      timer = setTimeout(check, DETECTION_INTERVAL_MS);
+    };
 
-        // 2. World Check Tag
-        soundTimeouts.current.push(
-            setTimeout(() => SoundEffects.playTagAppear(), 4200)
-        );
+    check();
+    return () => {
+      livenessActive = false;
+      clearTimeout(timer);
+    };
+  };
 
-        // 3. Name Reveal
-        soundTimeouts.current.push(
-            setTimeout(() => SoundEffects.playDataReveal(), 5500)
-        );
+  const runScan = () => {
+    // SOUND EFFECT: Start Loop
+    const stopScanLoop = SoundEffects.play('scanLoop');
 
-        // 4. PEP Tag
-        soundTimeouts.current.push(
-            setTimeout(() => SoundEffects.playPepAlert(), 8100)
-        );
+    setScanningLine(0);
+    setMatchConfidence(0);
 
-        // 5. Risk High Text
-        soundTimeouts.current.push(
-            setTimeout(() => SoundEffects.playRiskAlert(), 10600)
-        );
+    // Change text rapidly
+    const textInterval = setInterval(() => {
+      setScanningLine(line => line + 1);
+      SoundEffects.play('dataTick'); // SOUND EFFECT: Data tick
+    }, 600 / timeScale);
 
-        // Timer to show the popup after the risk animation
-        const showPopupTimer = setTimeout(() => {
-            setShowFsaPopup(true);
-        }, 12600); 
+    // Confidence counter: holds at 0 until the match is known, then counts up to the real score
+    const confidenceInterval = setInterval(() => {
+      const result = machineRef.current.match;
+      if (!result) return;
+      const target = Math.round(result.similarity * 100);
+      setMatchConfidence(prev => Math.min(target, prev + 1));
+    }, 20 / timeScale);
 
-        // Timer to hide the popup
-        const hidePopupTimer = setTimeout(() => {
-            setShowFsaPopup(false);
-        }, 23600); 
+    return () => {
+      stopScanLoop(); // SOUND EFFECT: Stop Loop
+      clearInterval(textInterval);
+      clearInterval(confidenceInterval);
+    };
+  };
 
-        // Finalize
-        const timer = setTimeout(() => {
-            setStatus(ScannerStatus.FINALIZING);
-        }, 26000); 
-        
-        return () => {
-            clearSoundTimeouts();
-            clearTimeout(showPopupTimer);
-            clearTimeout(hidePopupTimer);
-            clearTimeout(timer);
-        };
-    }
+  const matchScanFace = () => {
+    let matchActive = true;
+
+    (async () => {
+      try {
+        const [gallery, face] = await Promise.all([
+          galleryRef.current,
+          snapshot ? embedImage(faceEmbedder, snapshot) : Promise.resolve(null),
+        ]);
+        if (!matchActive) return;
+        if (!face) {
+          dispatch({ type: 'MATCH_RESULT', match: { profileId: null, similarity: 0 } });
+          return;
+        }
+        setLandmarks(face.landmarks);
+        // An operator pick overrides the outcome, but the score shown is still the real one
+        let result = nextProfileId
+          ? { profileId: nextProfileId, similarity: scoreCandidates(face.embedding, gallery).get(nextProfileId) ?? 0 }
+          : matchFace(face.embedding, gallery, matchThreshold);
+        // A rehearsal clip is rarely an enrolled attendee; the crew still needs the full reveal
+        if (rehearsal && !result.profileId) result = { ...result, profileId: resolveProfile(profiles)?.id ?? null };
+        dispatch({ type: 'MATCH_RESULT', match: result });
+      } catch (err) {
+        if (!matchActive) return;
+        console.error('Face matching error:', err);
+        dispatch({ type: 'MATCH_FAILED', error: createFault('model-load-failed', err) });
+      }
+    })();
 
-    // === STATUS: FINALIZING ===
-    if (status === ScannerStatus.FINALIZING) {
-      const timer = setTimeout(() => {
-        setCountdown(5);
-        setStatus(ScannerStatus.COUNTDOWN);
-      }, 4000);
-      return () => clearTimeout(timer);
+    return () => {
+      matchActive = false;
+    };
+  };
+
+  const resolveScanProfile = () => {
+    // The matched attendee, or (after an operator jump or skip past matching) the operator's pick
+    const matched = machineRef.current.match;
+    const resolved = (matched?.profileId && profiles.find(p => p.id === matched.profileId)) || resolveProfile(profiles, nextProfileId);
+    // An operator pick applies to one scan only
+    setNextProfileId(null);
+    profileRef.current = resolved;
+    setMatchConfidence(matched ? Math.round(matched.similarity * 100) : 0);
+    setProfile(resolved);
+    setAttendeeCopy(null);
+    dispatch({ type: 'PROFILE_RESOLVED', outcome: resolved ? getRiskOutcome(resolved) : null });
+    // Generation is bounded by a timeout that ends well before the EDD popup is due; it is
+    // scaled with the reveal so that still holds in a sped-up rehearsal
+    if (resolved) {
+      const copyLocale = resolved.language ?? localeRef.current;
+      generateAttendeeCopy(copyGenerator, resolved, copyLocale, DEFAULT_GENERATION_TIMEOUT_MS / timeScale).then((copy) => {
+        if (profileRef.current === resolved) setAttendeeCopy(copy && { locale: copyLocale, copy });
+      });
     }
+  };
+
+  // Spoken in the attendee's own language, like the copy on screen
+  const announce = (line: AnnouncerLine, resolved: AttendeeProfile | null) =>
+    Announcer.announce(line, resolved, resolved?.language ?? localeRef.current);
+
+  const runReveal = () => {
+    const resolved = profileRef.current;
+    const timeline = filterCues(revealTimelines[outcomeOf(resolved)], resolved?.tags ?? []);
+    // One scheduler drives both the overlays and their sounds from the same clock
+    const scheduler = new TimelineScheduler<RevealCue>(timeline.cues, timeline.duration, {
+        onCue: (cue) => {
+            if (cue.sound) SoundEffects.play(cue.sound);
+            if (cue.announce) announce(cue.announce, resolved);
+        },
+        onActiveChange: (active) => {
+            setRevealOverlays(active.flatMap(cue => (cue.overlay ? [cue.overlay] : [])));
+        },
+        onComplete: () => dispatch({ type: 'REVEAL_COMPLETE' }),
+    }, timeScale);
+    scheduler.start();
+    revealSchedulerRef.current = scheduler;
+
+    return () => {
+        scheduler.stop();
+        revealSchedulerRef.current = null;
+        revealPausedRef.current = false;
+        setRevealPaused(false);
+        setRevealOverlays([]);
+    };
+  };
+
 
-    // === STATUS: COUNTDOWN ===
-    if (status === ScannerStatus.COUNTDOWN) {
-      if (countdown > 0) {
-        SoundEffects.playCountdownBeep();
-        const timer = setTimeout(() => setCountdown(c => c - 1), 1000);
-        return () => clearTimeout(timer);
-      } else {
-        setStatus(ScannerStatus.ONBOARDED); // Skip APPROVAL_CHECKS, go directly to ONBOARDED
+  const runEffect = (effect: ScannerEffect, stage: number) => {
+    switch (effect.type) {
+      case 'sound': SoundEffects.play(effect.sound); return;
+      case 'announce': announce(effect.line, profileRef.current); return;
+      case 'openCamera': openCamera(stage); return;
+      case 'closeCamera': stopCamera(); return;
+      case 'reconnectCamera': activities.current.push(reconnectCamera()); return;
+      case 'clearSession': clearSession(); return;
+      case 'captureSnapshot': captureSnapshot(); return;
+      case 'resolveProfile': resolveScanProfile(); return;
+      case 'watchForGuest': activities.current.push(runAttractWatch()); return;
+      case 'detectFace': activities.current.push(detectFace()); return;
+      case 'verifyLiveness': activities.current.push(verifyLiveness()); return;
+      case 'runScan': activities.current.push(runScan()); return;
+      case 'matchFace': activities.current.push(matchScanFace()); return;
+      case 'runReveal': activities.current.push(runReveal()); return;
+      case 'playWelcome': activities.current.push(SoundEffects.play('welcome')); return;
+      case 'timer': {
+        const timer = setTimeout(() => dispatch({ type: 'TIMER', stage: effect.stage }), event.durations[effect.duration] / timeScale);
+        activities.current.push(() => clearTimeout(timer));
+        return;
+      }
+      case 'retry': {
+        const delay = effect.delay / timeScale;
+        const timer = setTimeout(() => dispatch({ type: 'RETRY', stage: effect.stage, automatic: true }), delay);
+        setRetryDueAt(Date.now() + delay);
+        activities.current.push(() => {
+          clearTimeout(timer);
+          setRetryDueAt(null);
+        });
+        return;
       }
     }
-    
-    // === STATUS: ONBOARDED ===
-    if (status === ScannerStatus.ONBOARDED) {
-      SoundEffects.playSuccess(); // Final success sound
-      const timer = setTimeout(() => {
-          setStatus(ScannerStatus.WELCOME);
-      }, 3000); 
-      return () => clearTimeout(timer);
-    }
+  };
 
-    // === STATUS: WELCOME ===
-    if (status === ScannerStatus.WELCOME) {
-        const audio = new Audio('/sounds/welcome.mp3');
-        audio.play().catch(e => console.log("Audio playback failed. Ensure 'sounds/welcome.mp3' exists.", e));
-        
-        return () => {
-            audio.pause();
-            audio.currentTime = 0;
-        };
-    }
+  // Runs the effects of each transition once, after the DOM for the new state is committed.
+  // Activities queued for a stage that has already ended are dropped.
+  useEffect(() => {
+    const queued = pendingEffects.current;
+    pendingEffects.current = [];
+    queued.forEach(({ effect, stage }) => {
+      if (isActivity(effect) && stage !== machineRef.current.stage) return;
+      runEffect(effect, stage);
+    });
+  }, [machine]);
 
-    if (status === ScannerStatus.SUCCESS || status === ScannerStatus.ERROR) {
-      stopCamera();
-    }
-  }, [status, stopCamera, captureSnapshot, countdown, handleReset, clearSoundTimeouts]);
+  // A well-known default PIN would unlock every kiosk deployed without configuration
+  useEffect(() => {
+    if (!operatorPin) console.warn('OPERATOR_PIN is not set, so the operator panel is disabled. Set it in .env.local.');
+  }, [operatorPin]);
+
+  // === Attendee Profiles ===
+  useEffect(() => {
+    let mounted = true;
+    loadProfiles()
+      .then((loaded) => {
+        if (!mounted) return;
+        setProfiles(loaded);
+        galleryRef.current = enrollProfiles(faceEmbedder, loaded);
+        galleryRef.current.then((gallery) => {
+          if (mounted) setEnrolledCount(gallery.length);
+        });
+      })
+      .catch((err) => console.error('Profile registry error:', err));
+    return () => { mounted = false; };
+  }, []);
+
+  // Generated copy only while the screen is still in the language it was written in
+  const generatedCopy = attendeeCopy?.locale === displayLocale ? attendeeCopy.copy : null;
+  // Hand-written profile copy wins over generated copy
+  const eddText = profile?.eddText ?? generatedCopy?.bio ?? event.edd.text;
+  // Static copy is formatted here rather than by the generator so it follows the active language
+  const greeting = generatedCopy?.greeting ?? (profile ? format(messages.final.greeting, { name: profile.name }) : null);
+  const isRevealed = (overlay: RevealOverlay) => revealOverlays.includes(overlay);
+  const isPlanned = (overlay: RevealOverlay) => activeTimeline.cues.some(cue => cue.overlay === overlay);
+  const showFsaPopup = isRevealed('edd-popup');
 
   // === FSA Popup Typing Logic ===
   useEffect(() => {
+    // Reduced motion: the whole text at once, without the typing sound
+    if (showFsaPopup && reducedMotion) {
+      setDisplayedFsaText(eddText);
+      return () => setDisplayedFsaText('');
+    }
     if (showFsaPopup) {
       setIsTyping(true);
       let index = 0;
+      const tickMs = Math.max(MIN_TIMER_MS, TYPING_INTERVAL_MS / timeScale);
+      const charsPerTick = (tickMs * timeScale) / TYPING_INTERVAL_MS;
       const intervalId = setInterval(() => {
-        setDisplayedFsaText(fullFsaText.substring(0, index));
-        SoundEffects.playDataTick(); // SOUND EFFECT: Typing
-        index++;
-        if (index > fullFsaText.length) {
+        if (revealPausedRef.current) return;
+        setDisplayedFsaText(eddText.substring(0, Math.floor(index)));
+        SoundEffects.play('dataTick'); // SOUND EFFECT: Typing
+        index += charsPerTick;
+        if (index > eddText.length) {
+          setDisplayedFsaText(eddText);
           clearInterval(intervalId);
           setIsTyping(false);
         }
-      }, 15);
+      }, tickMs);
 
       return () => {
         clearInterval(intervalId);
@@ -370,64 +723,531 @@ const FaceScanner: React.FC = () => {
         setDisplayedFsaText('');
       };
     }
-  }, [showFsaPopup]);
+  }, [showFsaPopup, eddText, timeScale, reducedMotion]);
+
+
+  useEffect(() => () => {
+    stopActivities();
+    stopCamera();
+  }, [stopActivities, stopCamera]);
+
+  // === Session Log ===
+  useEffect(() => {
+    const finished = recorderRef.current.observeStatus(status, error, machine.retryAttempt, Date.now());
+    if (!finished) return;
+    const { record, snapshot: sessionSnapshot, faceBox } = finished;
+    Promise.all(sessionSnapshot
+      ? [createThumbnail(sessionSnapshot).catch(() => null), cropPortrait(sessionSnapshot, faceBox).catch(() => null)]
+      : [null, null])
+      .then(([thumbnail, portrait]) => saveSession({ ...record, thumbnail, portrait }))
+      .catch((err) => console.error('Session log error:', err));
+  }, [status, error]);
+
+  useEffect(() => {
+    if (profile) recorderRef.current.setProfile(profile);
+  }, [profile]);
+
+  useEffect(() => {
+    if (match) recorderRef.current.setMatch(match);
+  }, [match]);
+
+  useEffect(() => {
+    if (snapshot) recorderRef.current.setSnapshot(snapshot, detectionBox);
+  }, [snapshot, detectionBox]);
+
+  // === Souvenir Card ===
+  // Rendered once the reveal is over, so encoding the PNG does not stall its animations
+  const souvenirDue =
+    status === ScannerStatus.SUCCESS ||
+    status === ScannerStatus.FINALIZING ||
+    status === ScannerStatus.COUNTDOWN ||
+    status === ScannerStatus.ONBOARDED ||
+    status === ScannerStatus.WELCOME;
+
+  useEffect(() => {
+    if (!souvenirDue || !snapshot || !profile) return;
+    let cancelled = false;
+    publishSouvenirCard(snapshot, profile, event)
+      .then((url) => {
+        if (!cancelled) setSouvenirUrl(url);
+      })
+      .catch((err) => console.warn('Souvenir card unavailable:', err));
+    return () => { cancelled = true; };
+  }, [souvenirDue, snapshot, profile, event]);
+
+  const souvenirQr = useMemo(() => (souvenirUrl ? createQrDataUrl(souvenirUrl) : null), [souvenirUrl]);
 
+  // The SCANNING mesh over the real face; the stylised mesh stands in until landmarks arrive
+  const landmarkMesh = useMemo(
+    () => (landmarks && detectionBox ? meshFromLandmarks(landmarks, detectionBox) : null),
+    [landmarks, detectionBox]
+  );
+
+  // === Badge Printing ===
+  const handlePrintBadge = useCallback(() => {
+    if (!profile) return;
+    const { id: profileId, name, title, organisation } = profile;
+    (snapshot ? cropPortrait(snapshot, detectionBox).catch(() => null) : Promise.resolve(null))
+      .then(portrait => setBadgePrint({ profileId, name, title, organisation, portrait }));
+  }, [profile, snapshot, detectionBox]);
+
+  useEffect(() => {
+    if ((status === ScannerStatus.WELCOME || status === ScannerStatus.SUCCESS) && event.badge.autoPrint) handlePrintBadge();
+    // Only on reaching the final screen; a reprint goes through the button or the session log
+  }, [status]);
+
+  // === Sound ===
+  // Samples are decoded ahead of the scan so the first cue of the flow plays on time
+  useEffect(() => {
+    SoundEffects.usePack(resolveSoundPack(event.sounds));
+  }, [event.sounds]);
+
+  useEffect(() => {
+    Announcer.configure(event.announcer);
+  }, [event.announcer]);
+
+  // === Rehearsal ===
+  useEffect(() => {
+    SoundEffects.setTimeScale(timeScale);
+    Announcer.setTimeScale(timeScale);
+    const restoreAnimations = applyAnimationTimeScale(timeScale);
+    return () => {
+      SoundEffects.setTimeScale(1);
+      Announcer.setTimeScale(1);
+      restoreAnimations();
+    };
+  }, [timeScale]);
+
+  // === Camera ===
+  // Some drivers never end the track on unplug; a device change is the other sign the camera is gone
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices || sourceConfig.kind !== 'camera') return;
+    const handleDeviceChange = async () => {
+      const stream = streamRef.current;
+      const track = stream?.getVideoTracks()[0];
+      if (!stream || !track) return;
+      const deviceId = track.getSettings().deviceId;
+      const present = track.readyState === 'live' && (!deviceId || (await listCameras()).some(camera => camera.deviceId === deviceId));
+      if (!present && streamRef.current === stream) dispatch({ type: 'CAMERA_LOST' });
+    };
+    mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+  }, [sourceConfig, dispatch]);
+
+  // Applies from the next time the camera opens
+  const handleCameraPreferences = (preferences: CameraPreferences) => {
+    saveCameraPreferences(preferences);
+    setSourceConfig(current => (current.kind === 'camera' ? { kind: 'camera', preferences } : current));
+  };
+
+  // === Error Recovery ===
+  // Ticks the automatic retry countdown on the ERROR screen
+  useEffect(() => {
+    if (retryDueAt === null) return;
+    setClock(Date.now());
+    const interval = setInterval(() => setClock(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [retryDueAt]);
+
+  const handleRetry = () => dispatch({ type: 'RETRY', stage: machine.stage, automatic: false });
 
-  useEffect(() => () => stopCamera(), [stopCamera]);
+  // === Kiosk Mode ===
+  useEffect(() => {
+    dispatch({ type: 'SET_KIOSK', enabled: kiosk });
+  }, [kiosk, dispatch]);
+
+  // Flows started by the attract watch have no click to unlock audio, so any touch will do
+  useEffect(() => {
+    if (!machine.kiosk) return;
+    const unlockAudio = () => SoundEffects.init();
+    window.addEventListener('pointerdown', unlockAudio);
+    return () => window.removeEventListener('pointerdown', unlockAudio);
+  }, [machine.kiosk]);
 
   const handleStart = () => {
     SoundEffects.init(); // Initialize Audio Context on user interaction
-    handleReset();
-    setStatus(ScannerStatus.INITIALIZING);
+    dispatch({ type: 'START' });
   };
 
+  const handleReset = () => dispatch({ type: 'RESET' });
+
+  // === Operator Controls ===
+  const handleToggleRevealPause = () => {
+    const scheduler = revealSchedulerRef.current;
+    if (!scheduler) return;
+    if (scheduler.isPaused()) scheduler.resume();
+    else scheduler.pause();
+    revealPausedRef.current = scheduler.isPaused();
+    setRevealPaused(scheduler.isPaused());
+  };
+
+  const handleToggleMute = () => {
+    SoundEffects.setMuted(!SoundEffects.isMuted());
+    if (SoundEffects.isMuted()) Announcer.stop();
+    setMuted(SoundEffects.isMuted());
+  };
+
+  // === Remote Control Link ===
+  const relayRef = useRef<RelayClient | null>(null);
+  const handleRemoteCommandRef = useRef<(message: CommandMessage) => void>(() => {});
+  const reportStateRef = useRef<() => void>(() => {});
+
+  handleRemoteCommandRef.current = (message) => {
+    switch (message.type) {
+      case 'start':
+        if (status === ScannerStatus.IDLE) handleStart();
+        return;
+      case 'skip': dispatch({ type: 'SKIP' }); return;
+      case 'reset': dispatch({ type: 'RESET' }); return;
+      case 'jump': dispatch({ type: 'JUMP', status: message.status }); return;
+      case 'select-profile': setNextProfileId(message.profileId); return;
+    }
+  };
+
+  reportStateRef.current = () => {
+    relayRef.current?.send({
+      type: 'state',
+      status,
+      nextProfileId,
+      profiles: profiles.map(({ id, name, riskLevel }) => ({ id, name, riskLevel })),
+    });
+  };
+
+  useEffect(() => {
+    if (!relayUrl) return;
+    const token = getRelayToken();
+    if (!token) {
+      console.warn('A relay is set but no relay token: open the kiosk once with &token=<RELAY_TOKEN>. Remote control is off.');
+      return;
+    }
+    const client = new RelayClient({
+      url: relayUrl,
+      role: 'kiosk',
+      token,
+      onMessage: (message) => {
+        if (isCommand(message)) handleRemoteCommandRef.current(message);
+      },
+      onConnectionChange: (connected) => {
+        if (connected) reportStateRef.current();
+      },
+    });
+    relayRef.current = client;
+    client.connect();
+    return () => {
+      client.close();
+      relayRef.current = null;
+    };
+  }, [relayUrl]);
+
+  // Remotes mirror the kiosk, so report every change they display
+  useEffect(() => {
+    reportStateRef.current();
+  }, [status, nextProfileId, profiles]);
+
+  useEffect(() => {
+    onStatusChange?.(status, profile ? getRiskOutcome(profile) : null);
+  }, [status, profile, onStatusChange]);
+
+  // Screen readers and font fallback follow the language on screen
+  useEffect(() => {
+    document.documentElement.lang = LOCALES[displayLocale].lang;
+  }, [displayLocale]);
+
+  // === Keyboard ===
+  // Each screen's main button takes the focus, so Enter or Space answers it right away. Only
+  // when nothing else holds it (the last screen's button is gone), so the operator PIN keeps it.
+  const primaryActionRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    if (document.activeElement && document.activeElement !== document.body) return;
+    primaryActionRef.current?.focus({ preventScroll: true });
+  }, [status]);
+
+  const handleShortcutRef = useRef<(key: string) => boolean>(() => false);
+
+  // Returns whether the key belonged to a button on the current screen
+  handleShortcutRef.current = (key) => {
+    // The session log and badge print have their own controls
+    if (showSessionLog || badgePrint) return false;
+    const finalScreen =
+      status === ScannerStatus.SUCCESS ||
+      status === ScannerStatus.WELCOME ||
+      status === ScannerStatus.DENIED ||
+      status === ScannerStatus.UNKNOWN_GUEST;
+    switch (key) {
+      case SHORTCUTS.start:
+        if (status !== ScannerStatus.IDLE) return false;
+        handleStart();
+        return true;
+      case SHORTCUTS.language: {
+        if (status !== ScannerStatus.IDLE) return false;
+        const locales = Object.keys(LOCALES) as Locale[];
+        setLocale(current => locales[(locales.indexOf(current) + 1) % locales.length]);
+        return true;
+      }
+      case SHORTCUTS.retry:
+        if (status !== ScannerStatus.ERROR) return false;
+        handleRetry();
+        return true;
+      case SHORTCUTS.cancel:
+        if (status !== ScannerStatus.ERROR) return false;
+        handleReset();
+        return true;
+      case SHORTCUTS.printBadge:
+        if ((status !== ScannerStatus.SUCCESS && status !== ScannerStatus.WELCOME) || !profile) return false;
+        handlePrintBadge();
+        return true;
+      case SHORTCUTS.next:
+        if (!finalScreen) return false;
+        handleReset();
+        return true;
+      default:
+        return false;
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.altKey || e.metaKey || e.repeat) return;
+      // Typing into a field (e.g. the operator PIN) is not a shortcut
+      if (e.target instanceof Element && e.target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      if (handleShortcutRef.current(e.key.toUpperCase())) e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // === Screen Reader Announcements ===
+  // What the polite live region reads for the current screen. Lines added during the reveal
+  // (tags, risk, name) are read as they appear; a new status replaces them all.
+  const liveRegionLines = (): string[] => {
+    if (machine.cameraLost) return [messages.camera.status];
+    const name = profile?.name ?? messages.reveal.unregistered;
+    switch (status) {
+      case ScannerStatus.LIVENESS:
+        return [messages.status[status], livenessAnswered ? messages.liveness.settle : challenge ? messages.liveness.prompts[challenge] : ''];
+      case ScannerStatus.SCAN_PASSED:
+        return [
+          messages.status[status],
+          isRevealed('scan-pass') ? messages.reveal.scanPass : '',
+          isRevealed('ekyc-tag') ? messages.a11y.tags.ekyc : '',
+          isRevealed('world-check-tag') ? messages.a11y.tags['world-check'] : '',
+          isRevealed('pep-tag') ? messages.a11y.tags.pep : '',
+          isRevealed('risk') ? format(messages.reveal.riskScoring, { level: profile ? outcomeCopy.label : messages.reveal.unknownRisk }) : '',
+          isRevealed('name') ? format(messages.reveal.name, { name }) : '',
+          isRevealed('name') && profile ? format(messages.reveal.position, { title: profile.title, organisation: profile.organisation }) : '',
+          // The EDD text in full rather than as it types
+          showFsaPopup ? `${event.edd.title}. ${eddText}` : '',
+        ];
+      case ScannerStatus.SUCCESS:
+        return [messages.outcomes.LOW.heading, profile?.name ?? '', greeting ?? ''];
+      case ScannerStatus.DENIED:
+        return [messages.outcomes.DENIED.heading, profile?.name ?? '', messages.outcomes.DENIED.caption];
+      case ScannerStatus.ONBOARDED:
+        return [outcomeCopy.heading, outcomeCopy.caption];
+      case ScannerStatus.WELCOME:
+        return [greeting ?? '', `${welcome.heading} ${welcome.eventName.join(' ')}`];
+      case ScannerStatus.ERROR: {
+        const copy = messages.errors[error?.code ?? 'unknown'];
+        return [copy.title, copy.message];
+      }
+      case ScannerStatus.UNKNOWN_GUEST:
+        return [messages.unknownGuest.title, messages.unknownGuest.message];
+      default:
+        return [messages.status[status]];
+    }
+  };
+
+  const renderLanguagePicker = () => (
+    <div className="mt-8 flex items-center gap-2" role="group" aria-label={messages.idle.language} aria-keyshortcuts={SHORTCUTS.language}>
+      {(Object.keys(LOCALES) as Locale[]).map(option => (
+        <button
+          key={option}
+          onClick={() => setLocale(option)}
+          lang={LOCALES[option].lang}
+          aria-pressed={option === locale}
+          className={`px-3 py-1 text-sm rounded-md border transition-all duration-300 ${option === locale ? 'border-cyan-400 text-cyan-200 bg-cyan-500/10' : 'border-cyan-500/20 text-cyan-600 hover:text-cyan-300'}`}
+        >
+          {LOCALES[option].name}
+        </button>
+      ))}
+    </div>
+  );
+
   const renderContent = () => {
     switch (status) {
       case ScannerStatus.IDLE:
+        if (machine.kiosk) {
+          return (
+            <div className="flex flex-col items-center justify-center text-center">
+              <div className="relative w-48 h-48 mb-8 flex items-center justify-center">
+                <div className="absolute inset-0 border border-cyan-500/30 rounded-full animate-ping opacity-20"></div>
+                <div className="absolute inset-4 border-2 border-dashed border-cyan-400/50 rounded-full animate-spin-slow-right"></div>
+                <FaceMeshIcon className="w-28 h-28 text-cyan-300 animate-pulse" />
+              </div>
+              <p className="text-2xl font-bold text-cyan-300 uppercase tracking-widest mb-2">{messages.idle.stepUp}</p>
+              <p className="text-sm text-cyan-600 mb-8">{messages.idle.autoStart}</p>
+              <button
+                ref={primaryActionRef}
+                onClick={handleStart}
+                aria-keyshortcuts={SHORTCUTS.start}
+                className="px-6 py-2 border border-cyan-500/40 text-cyan-400 text-sm uppercase tracking-widest rounded-md hover:bg-cyan-500/10 transition-all duration-300"
+              >
+                {messages.idle.startScan}
+              </button>
+              {renderLanguagePicker()}
+            </div>
+          );
+        }
         return (
           <div className="flex flex-col items-center justify-center text-center">
-            <p className="mb-6">System ready for biometric verification.</p>
+            <p className="mb-6">{messages.idle.ready}</p>
             <button
+              ref={primaryActionRef}
               onClick={handleStart}
+              aria-keyshortcuts={SHORTCUTS.start}
               className="px-8 py-3 bg-cyan-500 text-slate-900 font-bold uppercase tracking-widest rounded-md hover:bg-cyan-400 transition-all duration-300 shadow-[0_0_15px_rgba(0,255,255,0.4)] hover:shadow-[0_0_25px_rgba(0,255,255,0.7)]"
             >
-              Start Scan
+              {messages.idle.startScan}
             </button>
+            {renderLanguagePicker()}
           </div>
         );
 
+      // Low-risk fast path: approval and welcome on one screen
       case ScannerStatus.SUCCESS:
         return (
           <div className="relative w-full aspect-square max-w-md mx-auto">
             {snapshot ? (
-              <img src={snapshot} alt="Biometric snapshot" className="w-full h-full object-cover rounded-2xl shadow-[0_0_25px_rgba(74,222,128,0.7)]" />
+              <img src={snapshot} alt={messages.a11y.snapshot} className="w-full h-full object-cover rounded-2xl shadow-[0_0_25px_rgba(74,222,128,0.7)]" />
             ) : (
               <div className="w-full h-full bg-black rounded-2xl flex items-center justify-center">
                 <CheckIcon className="w-24 h-24 text-green-400" />
               </div>
             )}
-            <div className="absolute bottom-4 left-0 right-0 flex justify-center">
+            <div className="absolute top-4 left-0 right-0 flex justify-center">
+              <div className="flex items-center gap-2 px-5 py-2 bg-black/70 backdrop-blur-sm border border-green-500/60 rounded-md text-green-300 font-bold uppercase tracking-widest shadow-[0_0_20px_rgba(74,222,128,0.5)]">
+                <CheckIcon className="w-6 h-6" />
+                {messages.outcomes.LOW.heading}
+              </div>
+            </div>
+            <div className="absolute bottom-0 left-0 right-0 p-4 rounded-b-2xl bg-gradient-to-t from-black/90 via-black/70 to-transparent flex flex-col items-center text-center">
+              {profile && <p className="text-2xl font-bold text-white uppercase tracking-wider">{profile.name}</p>}
+              <p className="mb-4 text-sm text-cyan-200">
+                {greeting ?? `${welcome.heading} ${welcome.eventName.join(' ')}`}
+              </p>
+              <div className="flex items-center gap-3">
+                {souvenirQr && <img src={souvenirQr} alt={messages.a11y.souvenirQr} className="w-16 h-16 rounded-md" />}
+                {profile && (
+                  <button
+                    onClick={handlePrintBadge}
+                    aria-keyshortcuts={SHORTCUTS.printBadge}
+                    className="px-6 py-3 bg-slate-900/70 backdrop-blur-sm border border-cyan-500/30 text-cyan-300 font-bold uppercase tracking-widest rounded-md hover:bg-slate-800/80 transition-all duration-300 shadow-lg"
+                  >
+                    {messages.final.printBadge}
+                  </button>
+                )}
+                <button
+                  ref={primaryActionRef}
+                  onClick={handleReset}
+                  aria-keyshortcuts={SHORTCUTS.next}
+                  className="px-6 py-3 bg-slate-900/70 backdrop-blur-sm border border-cyan-500/30 text-cyan-300 font-bold uppercase tracking-widest rounded-md hover:bg-slate-800/80 transition-all duration-300 shadow-lg"
+                >
+                  {messages.final.newScan}
+                </button>
+              </div>
+            </div>
+          </div>
+        );
+
+      // Referred guest: no approval, sent to the compliance desk
+      case ScannerStatus.DENIED:
+        return (
+          <div className="flex flex-col items-center justify-center text-center" style={{ color: OUTCOME_STYLES.DENIED.color }}>
+            {snapshot ? (
+              <img
+                src={snapshot}
+                alt={messages.a11y.snapshot}
+                className="w-40 h-40 mb-4 object-cover rounded-2xl border-2 shadow-[0_0_20px_rgba(220,38,38,0.5)]"
+                style={{ borderColor: OUTCOME_STYLES.DENIED.color }}
+              />
+            ) : (
+              <LockIcon className="w-24 h-24 mb-4" />
+            )}
+            <h2 className="text-3xl font-bold mb-2 tracking-widest">{messages.outcomes.DENIED.heading}</h2>
+            {profile && <p className="mb-1 text-slate-200 uppercase tracking-wider">{profile.name}</p>}
+            <p className="mb-6 max-w-sm text-sm uppercase tracking-widest">{messages.outcomes.DENIED.caption}</p>
+            <button
+              ref={primaryActionRef}
+              onClick={handleReset}
+              aria-keyshortcuts={SHORTCUTS.next}
+              className="px-8 py-3 bg-slate-700 text-cyan-300 font-bold uppercase tracking-widest rounded-md hover:bg-slate-600 transition-all duration-300"
+            >
+              {messages.final.newScan}
+            </button>
+          </div>
+        );
+
+      case ScannerStatus.ERROR: {
+        const code = error?.code ?? 'unknown';
+        const info = SCANNER_ERRORS[code];
+        const Icon = ERROR_ICONS[info.icon];
+        return (
+          <div className="flex flex-col items-center justify-center text-center text-red-400">
+            <Icon className="w-24 h-24 mb-4" />
+            <h2 className="text-2xl font-bold mb-4 uppercase">{messages.errors[code].title}</h2>
+            <p className="mb-2 max-w-sm">{messages.errors[code].message}</p>
+            <p className="mb-6 max-w-sm text-sm text-slate-400">{info.fix}</p>
+            {retryDueAt !== null && (
+              <p className="mb-4 text-sm text-amber-400 uppercase tracking-widest">
+                {format(messages.error.retrying, {
+                  seconds: Math.max(0, Math.ceil((retryDueAt - clock) / 1000)),
+                  attempt: machine.retryAttempt + 1,
+                  attempts: info.retry.attempts,
+                })}
+              </p>
+            )}
+            <div className="flex gap-3">
+              <button
+                ref={primaryActionRef}
+                onClick={handleRetry}
+                aria-keyshortcuts={SHORTCUTS.retry}
+                className="px-8 py-3 bg-slate-700 text-cyan-300 font-bold uppercase tracking-widest rounded-md hover:bg-slate-600 transition-all duration-300"
+              >
+                {retryDueAt !== null ? messages.error.retryNow : messages.error.retry}
+              </button>
               <button
                 onClick={handleReset}
-                className="px-8 py-3 bg-slate-900/70 backdrop-blur-sm border border-cyan-500/30 text-cyan-300 font-bold uppercase tracking-widest rounded-md hover:bg-slate-800/80 transition-all duration-300 shadow-lg"
+                aria-keyshortcuts={SHORTCUTS.cancel}
+                className="px-8 py-3 border border-slate-600 text-slate-400 font-bold uppercase tracking-widest rounded-md hover:bg-slate-800 transition-all duration-300"
               >
-                New Scan
+                {messages.error.cancel}
               </button>
             </div>
+            {error && <p className="mt-4 text-[10px] font-mono text-slate-600">{error.code}</p>}
           </div>
         );
+      }
 
-      case ScannerStatus.ERROR:
+      case ScannerStatus.UNKNOWN_GUEST:
         return (
-          <div className="flex flex-col items-center justify-center text-center text-red-400">
-            <ErrorIcon className="w-24 h-24 mb-4" />
-            <h2 className="text-2xl font-bold mb-4">SYSTEM ERROR</h2>
-            <p className="mb-6 max-w-sm">{errorMessage}</p>
+          <div className="flex flex-col items-center justify-center text-center text-amber-400">
+            {snapshot ? (
+              <img src={snapshot} alt={messages.a11y.snapshot} className="w-40 h-40 mb-4 object-cover rounded-2xl border-2 border-amber-500/60 shadow-[0_0_20px_rgba(245,158,11,0.5)]" />
+            ) : (
+              <ErrorIcon className="w-24 h-24 mb-4" />
+            )}
+            <h2 className="text-2xl font-bold mb-2">{messages.unknownGuest.title}</h2>
+            <p className="mb-1 max-w-sm">{messages.unknownGuest.message}</p>
+            <p className="mb-6 text-sm text-amber-600">{format(messages.unknownGuest.bestMatch, { percent: Math.round((match?.similarity ?? 0) * 100) })}</p>
             <button
+              ref={primaryActionRef}
               onClick={handleReset}
+              aria-keyshortcuts={SHORTCUTS.next}
               className="px-8 py-3 bg-slate-700 text-cyan-300 font-bold uppercase tracking-widest rounded-md hover:bg-slate-600 transition-all duration-300"
             >
-              Retry
+              {messages.final.newScan}
             </button>
           </div>
         );
@@ -436,11 +1256,14 @@ const FaceScanner: React.FC = () => {
         return (
           <div className="relative w-full aspect-square max-w-md mx-auto group">
             
-            {/* RISK SCORING: HIGH (Moved to Top) */}
-            {status === ScannerStatus.SCAN_PASSED && (
+            {/* RISK SCORING (Moved to Top), colored per outcome */}
+            {isRevealed('risk') && (
               <div className="absolute -top-16 left-0 right-0 z-10 flex justify-center">
-                <div className="risk-high-text text-3xl md:text-3xl font-extrabold text-red-500 drop-shadow-[0_2px_2px_rgba(0,0,0,0.8)]">
-                  RISK SCORING: HIGH
+                <div
+                  className="risk-text text-3xl md:text-3xl font-extrabold drop-shadow-[0_2px_2px_rgba(0,0,0,0.8)]"
+                  style={{ '--risk-color': outcomeStyle.color } as React.CSSProperties}
+                >
+                  {format(messages.reveal.riskScoring, { level: profile ? outcomeCopy.label : messages.reveal.unknownRisk })}
                 </div>
               </div>
             )}
@@ -452,13 +1275,22 @@ const FaceScanner: React.FC = () => {
               {snapshot ? (
                 <img 
                   src={snapshot} 
-                  alt="Biometric snapshot" 
+                  alt={messages.a11y.snapshot}
                   className={`w-full h-full object-cover transition-all duration-500 ${status === ScannerStatus.SCANNING ? 'filter-scanning scale-105' : ''}`} 
                 />
               ) : (
                 <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover transform scale-x-[-1]" />
               )}
               
+              {/* Lost camera: the flow waits here until it is back or the recovery time runs out */}
+              {machine.cameraLost && (
+                <div className="absolute inset-0 flex flex-col items-center justify-center bg-black/80 text-amber-400 text-center p-6">
+                  <ErrorIcon className="w-16 h-16 mb-3 animate-pulse" />
+                  <p className="text-xl font-bold uppercase tracking-widest">{messages.camera.disconnected}</p>
+                  <p className="text-sm text-amber-600 mt-1">{messages.camera.reconnecting}</p>
+                </div>
+              )}
+
               {/* Detection Box Animation (Pre-Capture) */}
               {status === ScannerStatus.DETECTING && (
                 <div className="absolute inset-0 bg-black/10">
@@ -466,10 +1298,7 @@ const FaceScanner: React.FC = () => {
                     <div
                       className="absolute border-2 border-green-400 transition-all duration-200 animate-pulse"
                       style={{
-                        left: `${(detectionBox.x / videoRef.current!.videoWidth) * 100}%`,
-                        top: `${(detectionBox.y / videoRef.current!.videoHeight) * 100}%`,
-                        width: `${(detectionBox.width / videoRef.current!.videoWidth) * 100}%`,
-                        height: `${(detectionBox.height / videoRef.current!.videoHeight) * 100}%`,
+                        ...boxStyle(detectionBox, frameSize),
                         boxShadow: '0 0 30px rgba(74, 222, 128, 0.5), inset 0 0 10px rgba(74, 222, 128, 0.3)',
                       }}
                     >
@@ -481,7 +1310,7 @@ const FaceScanner: React.FC = () => {
                         
                         {/* Lock-on Text */}
                         <div className="absolute -bottom-8 left-1/2 -translate-x-1/2 bg-green-900/80 text-green-300 text-[10px] font-bold px-2 py-1 rounded uppercase tracking-widest border border-green-500/50 shadow-lg">
-                            Face Detected!
+                            {messages.detecting.faceDetected}
                         </div>
                     </div>
                   ) : (
@@ -490,22 +1319,47 @@ const FaceScanner: React.FC = () => {
                       <div className="w-64 h-64 border border-cyan-500/30 rounded-full animate-ping opacity-20 absolute"></div>
                       <div className="w-48 h-48 border-2 border-dashed border-cyan-400/50 rounded-full animate-spin-slow-right"></div>
                       <div className="absolute text-cyan-400 text-xs tracking-widest uppercase animate-pulse">
-                          Searching...
+                          {messages.detecting.searching}
                       </div>
                     </div>
                   )}
                 </div>
               )}
               
+              {/* Liveness Challenge */}
+              {status === ScannerStatus.LIVENESS && challenge && (
+                <div className="absolute inset-0 bg-black/20">
+                  {detectionBox && (
+                    <div
+                      className="absolute border-2 border-amber-400 transition-all duration-200"
+                      style={{
+                        ...boxStyle(detectionBox, frameSize),
+                        boxShadow: '0 0 30px rgba(251, 191, 36, 0.5), inset 0 0 10px rgba(251, 191, 36, 0.3)',
+                      }}
+                    ></div>
+                  )}
+                  <div className="absolute top-6 left-0 right-0 flex flex-col items-center">
+                    <div className="bg-black/80 backdrop-blur-md border border-amber-500/60 px-6 py-3 rounded-md shadow-[0_0_20px_rgba(251,191,36,0.4)] text-center">
+                      <p className="text-[10px] text-amber-500 uppercase tracking-widest mb-1">{messages.liveness.title}</p>
+                      <p className="text-xl font-bold text-amber-200 uppercase tracking-wider">{livenessAnswered ? messages.liveness.settle : messages.liveness.prompts[challenge]}</p>
+                    </div>
+                  </div>
+                  {/* Time left to respond */}
+                  <div className="absolute bottom-0 left-0 right-0 h-1.5 bg-black/60">
+                    <div
+                      className="h-full bg-amber-400 animate-liveness-timer"
+                      style={{ animationDuration: `${event.durations.liveness}ms` }}
+                    ></div>
+                  </div>
+                </div>
+              )}
+
               {/* Captured Moment - Freeze Frame Effect */}
                {status === ScannerStatus.CAPTURED && detectionBox && (
                  <div 
                     className="absolute border-2 border-white bg-white/20 backdrop-blur-[2px]"
                     style={{
-                        left: `${(detectionBox.x / videoRef.current!.videoWidth) * 100}%`,
-                        top: `${(detectionBox.y / videoRef.current!.videoHeight) * 100}%`,
-                        width: `${(detectionBox.width / videoRef.current!.videoWidth) * 100}%`,
-                        height: `${(detectionBox.height / videoRef.current!.videoHeight) * 100}%`,
+                        ...boxStyle(detectionBox, frameSize),
                         boxShadow: '0 0 50px rgba(255, 255, 255, 0.8)',
                       }}
                  >
@@ -533,23 +1387,44 @@ const FaceScanner: React.FC = () => {
                      
                      {/* Match Confidence Display */}
                      <div className="absolute top-[20%] left-1/2 -translate-x-1/2 flex flex-col items-center z-30">
-                         <div className="text-[10px] text-cyan-400 uppercase tracking-widest mb-1">Match Probability</div>
+                         <div className="text-[10px] text-cyan-400 uppercase tracking-widest mb-1">{messages.reveal.matchProbability}</div>
                          <div className="text-3xl font-bold text-cyan-200 shadow-cyan-500/50 drop-shadow-md">
-                            {matchConfidence}%
+                            {match ? `${matchConfidence}%` : '--%'}
                          </div>
                      </div>
                   </div>
 
-                  {/* 3. Face Geometry Scanning Overlay with 3D Movement */}
+                  {/* 3. Face Geometry Scanning Overlay: locked onto the landmarks, or with 3D Movement until they arrive */}
                   <div className="absolute inset-0 flex items-center justify-center">
-                      {/* Primary Face Mesh with new 3D animation */}
-                      <FaceMeshIcon className="w-[85%] h-[85%] text-cyan-300 animate-face-3d-scan" />
-                      
-                      {/* Secondary "Ghost" Mesh for depth/hologram effect - staggered animation */}
-                      <FaceMeshIcon 
-                          className="absolute w-[88%] h-[88%] text-blue-500 opacity-30 mix-blend-screen animate-face-3d-scan" 
-                          style={{ animationDelay: '0.2s', filter: 'blur(2px)' }} 
-                       />
+                      {landmarkMesh && detectionBox ? (
+                        <div className="absolute" style={boxStyle(detectionBox, frameSize)}>
+                          {/* The box is rarely square, so the mesh stretches with it instead of letterboxing */}
+                          <FaceMeshIcon
+                              mesh={landmarkMesh}
+                              className="absolute inset-0 w-full h-full text-cyan-300"
+                              preserveAspectRatio="none"
+                              overflow="visible"
+                          />
+                          <FaceMeshIcon
+                              mesh={landmarkMesh}
+                              className="absolute inset-0 w-full h-full text-blue-500 opacity-30 mix-blend-screen scale-[1.03]"
+                              preserveAspectRatio="none"
+                              overflow="visible"
+                              style={{ filter: 'blur(2px)' }}
+                          />
+                        </div>
+                      ) : (
+                        <>
+                          {/* Primary Face Mesh with new 3D animation */}
+                          <FaceMeshIcon className="w-[85%] h-[85%] text-cyan-300 animate-face-3d-scan" />
+                          
+                          {/* Secondary "Ghost" Mesh for depth/hologram effect - staggered animation */}
+                          <FaceMeshIcon 
+                              className="absolute w-[88%] h-[88%] text-blue-500 opacity-30 mix-blend-screen animate-face-3d-scan" 
+                              style={{ animationDelay: '0.2s', filter: 'blur(2px)' }} 
+                           />
+                        </>
+                      )}
                       
                       {/* Scanning Grid on face */}
                       <div className="absolute w-[60%] h-[60%] rounded-full overflow-hidden opacity-30 mix-blend-overlay">
@@ -564,10 +1439,10 @@ const FaceScanner: React.FC = () => {
 
                   {/* 5. Side Data Streams */}
                   <div className="absolute top-12 bottom-12 left-2 w-12 hidden md:flex items-center justify-center overflow-hidden border-r border-cyan-500/20 pr-1">
-                      <RandomDataStream align="left" />
+                      <RandomDataStream align="left" still={reducedMotion} />
                   </div>
                   <div className="absolute top-12 bottom-12 right-2 w-12 hidden md:flex items-center justify-center overflow-hidden border-l border-cyan-500/20 pl-1">
-                      <RandomDataStream align="right" />
+                      <RandomDataStream align="right" still={reducedMotion} />
                   </div>
 
                   {/* 6. Scanner Frame Tech Deco */}
@@ -577,11 +1452,11 @@ const FaceScanner: React.FC = () => {
                   <div className="absolute bottom-4 right-4 w-16 h-16 border-b-2 border-r-2 border-cyan-500 rounded-br-lg opacity-80"></div>
                   
                   {/* Corner Text Info */}
-                  <div className="absolute top-6 left-6 text-[10px] text-cyan-500">
+                  <div className="absolute top-6 left-6 text-[10px] text-cyan-500" aria-hidden="true">
                       <div>SYS: ONLINE</div>
                       <div>ISO: 400</div>
                   </div>
-                  <div className="absolute top-6 right-6 text-[10px] text-cyan-500 text-right">
+                  <div className="absolute top-6 right-6 text-[10px] text-cyan-500 text-right" aria-hidden="true">
                       <div>BAT: 98%</div>
                       <div>NET: SECURE</div>
                   </div>
@@ -590,18 +1465,18 @@ const FaceScanner: React.FC = () => {
                   <div className="absolute bottom-16 left-0 right-0 flex justify-center">
                     <div className="bg-black/80 backdrop-blur-md border-x border-cyan-500/50 px-8 py-2 shadow-[0_0_15px_rgba(0,255,255,0.2)] skew-x-12 transform">
                         <p className="text-xs md:text-sm uppercase tracking-[0.2em] text-cyan-300 flicker-text min-w-[220px] text-center -skew-x-12">
-                        {scanningMessage}
+                        {messages.scanning[scanningLine % messages.scanning.length]}
                         </p>
                     </div>
                   </div>
                 </div>
               )}
 
-              {status === ScannerStatus.SCAN_PASSED && detectionBox && (
+              {isRevealed('scan-pass') && detectionBox && (
                 <div className="absolute inset-0 flex items-end justify-center pb-8">
                   <div className="bg-black/70 backdrop-blur-sm py-3 px-6 rounded-md border border-green-500/50 shadow-[0_0_20px_rgba(74,222,128,0.7)] animate-pulse">
                     <p className="text-xl font-bold text-green-300 tracking-widest uppercase">
-                      Scan Pass
+                      {messages.reveal.scanPass}
                     </p>
                   </div>
                 </div>
@@ -612,26 +1487,30 @@ const FaceScanner: React.FC = () => {
             {status === ScannerStatus.SCAN_PASSED && detectionBox && (
               <>
                 {/* 🟢 eKYC Tag */}
-                <div className="absolute top-[35%] -translate-y-1/2 left-full flex items-center pointer-events-none animate-ekyc-tag z-50 pl-1">
+                {isRevealed('ekyc-tag') && (
+                <div role="img" aria-label={messages.a11y.tags.ekyc} className="absolute top-[35%] -translate-y-1/2 left-full flex items-center pointer-events-none animate-ekyc-tag z-50 pl-1">
                     <div className="connecting-line border-t-2 border-green-500 shadow-[0_0_8px_rgba(74,222,128,0.8)]"></div>
                     <div className="ml-3 relative flex flex-col items-center">
                         <EkycIcon className="tag-icon w-16 h-16 mb-2 text-green-400 filter drop-shadow-[0_0_8px_rgba(74,222,128,0.5)]" />
                         <div className="tag-box px-4 py-1.5 flex items-center justify-center border border-green-500 text-green-400 font-bold rounded-md text-lg bg-black/80 backdrop-blur-md shadow-[0_0_15px_rgba(74,222,128,0.5)] whitespace-nowrap">
-                           <span>eKYC</span>
+                           <span>{messages.tags.ekyc}</span>
                         </div>
                     </div>
                 </div>
+                )}
 
                 {/* 🔵 World Check Tag */}
-                <div className="absolute top-[65%] -translate-y-1/2 right-full flex flex-row-reverse items-center pointer-events-none animate-world-check-tag z-50 pr-1">
+                {isRevealed('world-check-tag') && (
+                <div role="img" aria-label={messages.a11y.tags['world-check']} className="absolute top-[65%] -translate-y-1/2 right-full flex flex-row-reverse items-center pointer-events-none animate-world-check-tag z-50 pr-1">
                   <div className="connecting-line border-t-2 border-cyan-500 shadow-[0_0_8px_rgba(34,211,238,0.8)]"></div>
                   <div className="mr-3 relative flex flex-col items-center">
                     <WorldCheckIcon className="tag-icon w-16 h-16 mb-2 text-cyan-400 filter drop-shadow-[0_0_8px_rgba(34,211,238,0.5)]" />
                     <div className="tag-box px-4 py-1.5 flex items-center justify-center border border-cyan-500 text-cyan-400 font-bold rounded-md text-lg bg-black/80 backdrop-blur-md shadow-[0_0_15px_rgba(34,211,238,0.5)] whitespace-nowrap">
-                      <span>World Check</span>
+                      <span>{messages.tags['world-check']}</span>
                     </div>
                   </div>
                 </div>
+                )}
               </>
             )}
           </div>
@@ -651,13 +1530,13 @@ const FaceScanner: React.FC = () => {
                 <div className="w-full aspect-square flex items-center justify-center">
                     {status === ScannerStatus.FINALIZING && (
                         <div className="flex flex-col items-center justify-center text-center animate-pulse">
-                            <p className="text-2xl text-cyan-300">Finalizing Session...</p>
-                            <p className="text-lg text-cyan-500">Please wait.</p>
+                            <p className="text-2xl text-cyan-300">{messages.finalizing.title}</p>
+                            <p className="text-lg text-cyan-500">{messages.finalizing.wait}</p>
                         </div>
                     )}
                     {status === ScannerStatus.COUNTDOWN && (
                         <div className="flex flex-col items-center justify-center text-center">
-                            <p className="text-2xl text-cyan-300 mb-4">System Processing</p>
+                            <p className="text-2xl text-cyan-300 mb-4">{messages.countdown}</p>
                             <div className="text-9xl font-bold text-cyan-400 animate-pulse" style={{textShadow: '0 0 15px rgba(0,255,255,0.7)'}}>
                                 {countdown}
                             </div>
@@ -666,14 +1545,22 @@ const FaceScanner: React.FC = () => {
 
                       {status === ScannerStatus.ONBOARDED && (
                           <div className="flex flex-col items-center justify-center text-center animate-onboard-glow">
-                              <div className="mb-8 p-6 rounded-full border-4 border-green-400 bg-green-500/10 shadow-[0_0_50px_rgba(74,222,128,0.4)]">
-                                  <CheckIcon className="w-24 h-24 text-green-400" strokeWidth={3} />
+                              <div
+                                  className="mb-8 p-6 rounded-full border-4"
+                                  style={{
+                                      borderColor: outcomeStyle.color,
+                                      color: outcomeStyle.color,
+                                      backgroundColor: `${outcomeStyle.color}1a`,
+                                      boxShadow: `0 0 50px ${outcomeStyle.color}66`,
+                                  }}
+                              >
+                                  <CheckIcon className="w-24 h-24" strokeWidth={3} />
                               </div>
                               <h2 className="text-5xl md:text-7xl font-bold text-white tracking-widest uppercase">
-                                  APPROVED
+                                  {outcomeCopy.heading}
                               </h2>
                               <p className="mt-6 text-cyan-300 text-sm md:text-base tracking-[0.4em] uppercase">
-                                  Access Privileges Granted
+                                  {outcomeCopy.caption}
                               </p>
                           </div>
                       )}
@@ -681,19 +1568,42 @@ const FaceScanner: React.FC = () => {
                       {status === ScannerStatus.WELCOME && (
                           <div className="flex flex-col items-center justify-center text-center">
                               <div className="welcome-text-container">
-                                  <p className="text-2xl md:text-3xl font-semibold text-slate-300 mb-4">WELCOME TO</p>
-                                  <h2 className="text-3xl md:text-4xl font-bold text-cyan-300 leading-tight">
-                                      LABUAN INTERNATIONAL COMPLIANCE CONFERENCE
-                                      <br/>
-                                      2025
+                                  {greeting && (
+                                      <p className="text-xl md:text-2xl text-cyan-200 mb-8">{greeting}</p>
+                                  )}
+                                  <p className="text-2xl md:text-3xl font-semibold text-slate-300 mb-4">{welcome.heading}</p>
+                                  <h2 className="text-3xl md:text-4xl font-bold text-[var(--event-primary)] leading-tight">
+                                      {welcome.eventName.map((line, i) => (
+                                          <React.Fragment key={i}>
+                                              {i > 0 && <br/>}
+                                              {line}
+                                          </React.Fragment>
+                                      ))}
                                   </h2>
                               </div>
-                              <div className="mt-14 animate-proceed-button-welcome">
+                              {souvenirQr && (
+                                  <div className="mt-8 flex items-center gap-4 text-left">
+                                      <img src={souvenirQr} alt={messages.a11y.souvenirQr} className="w-24 h-24 rounded-md" />
+                                      <p className="max-w-[12rem] text-sm text-cyan-300">{messages.final.souvenir}</p>
+                                  </div>
+                              )}
+                              <div className="mt-14 flex gap-4 animate-proceed-button-welcome">
+                                  {profile && (
+                                      <button
+                                          onClick={handlePrintBadge}
+                                          aria-keyshortcuts={SHORTCUTS.printBadge}
+                                          className="px-8 py-4 border border-cyan-500/40 text-cyan-300 font-bold uppercase tracking-widest rounded-lg hover:bg-cyan-500/10 transition-all duration-300 text-xl"
+                                      >
+                                          {messages.final.printBadge}
+                                      </button>
+                                  )}
                                   <button
+                                      ref={primaryActionRef}
                                       onClick={handleReset}
+                                      aria-keyshortcuts={SHORTCUTS.next}
                                       className="px-10 py-4 bg-cyan-500 text-slate-900 font-bold uppercase tracking-widest rounded-lg hover:bg-cyan-400 transition-all duration-300 shadow-[0_0_18px_rgba(0,255,255,0.4)] hover:shadow-[0_0_28px_rgba(0,255,255,0.7)] text-xl"
                                   >
-                                      Proceed
+                                      {messages.final.proceed}
                                   </button>
                               </div>
                           </div>
@@ -701,7 +1611,7 @@ const FaceScanner: React.FC = () => {
                       
                 </div>
                 <div className="h-12 flex items-center justify-center text-center px-4 py-2 mt-4 border-t border-cyan-500/20">
-                    <p className="text-lg font-medium tracking-wider uppercase">{STATUS_MESSAGES[status]}</p>
+                    <p className="text-lg font-medium tracking-wider uppercase">{messages.status[status]}</p>
                 </div>
                 <canvas ref={canvasRef} className="hidden"></canvas>
             </div>
@@ -709,27 +1619,48 @@ const FaceScanner: React.FC = () => {
     }
   
     return (
-      <div className="w-full p-4 bg-slate-800/20 border border-cyan-500/20 rounded-lg backdrop-blur-md">
+      <div className={`w-full p-4 bg-slate-800/20 border border-cyan-500/20 rounded-lg backdrop-blur-md ${revealPaused ? 'reveal-paused' : ''}`}>
         <div className="w-full aspect-square flex items-center justify-center">{renderContent()}</div>
         
         {status === ScannerStatus.SCAN_PASSED && (
           <div className="text-center mt-3 flex flex-col items-center">
-              {/* PEP DETECTED TAG (Moved to Bottom) */}
-              <div className="mb-2 animate-pep-tag">
-                <div className="px-4 py-2 border border-yellow-500 text-yellow-400 font-bold rounded-md text-xl bg-black/70 backdrop-blur-md whitespace-nowrap shadow-[0_0_15px_rgba(234,179,8,0.5)]">
-                  <span>PEP-DETECTED</span>
+              {/* PEP DETECTED TAG (Moved to Bottom) - slot reserved so the name doesn't jump */}
+              {isPlanned('pep-tag') && (
+                <div className="mb-2 min-h-[2.875rem]">
+                  {isRevealed('pep-tag') && (
+                    <div role="img" aria-label={messages.a11y.tags.pep} className="animate-pep-tag px-4 py-2 border border-yellow-500 text-yellow-400 font-bold rounded-md text-xl bg-black/70 backdrop-blur-md whitespace-nowrap shadow-[0_0_15px_rgba(234,179,8,0.5)]">
+                      <span>{messages.tags.pep}</span>
+                    </div>
+                  )}
                 </div>
-              </div>
+              )}
 
-              <div className="animate-name-position">
-                <p className="text-2xl font-bold text-slate-100">Name: AFFENDI RASHDI</p>
-                <p className="text-2xl font-bold text-slate-100">Position: DIRECTOR GENERAL LABUAN FSA</p>
+              <div className="min-h-[4rem]">
+                {isRevealed('name') && (
+                  <div className="animate-name-position flex items-center gap-4">
+                    {profile?.photo && (
+                      <img
+                        src={profile.photo}
+                        alt={format(messages.a11y.portrait, { name: profile.name })}
+                        className="w-16 h-16 rounded-full object-cover border-2 border-cyan-500/50 shadow-[0_0_12px_rgba(0,255,255,0.4)]"
+                      />
+                    )}
+                    <div className="uppercase">
+                      <p className="text-2xl font-bold text-slate-100">{format(messages.reveal.name, { name: profile?.name ?? messages.reveal.unregistered })}</p>
+                      {profile && (
+                        <p className="text-2xl font-bold text-slate-100">{format(messages.reveal.position, { title: profile.title, organisation: profile.organisation })}</p>
+                      )}
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
         )}
   
         <div className="h-12 flex items-center justify-center text-center px-4 py-2 mt-4 border-t border-cyan-500/20">
-          <p className="text-lg font-medium tracking-wider uppercase">{STATUS_MESSAGES[status]}</p>
+          <p className="text-lg font-medium tracking-wider uppercase">
+            {machine.cameraLost ? messages.camera.status : messages.status[status]}
+          </p>
         </div>
         <canvas ref={canvasRef} className="hidden"></canvas>
       </div>
@@ -738,18 +1669,28 @@ const FaceScanner: React.FC = () => {
 
   return (
     <>
+      {(rehearsal || timeScale !== 1) && (
+        <div className="fixed top-4 left-4 z-40 px-3 py-1 rounded border border-amber-500/60 bg-black/60 text-amber-400 text-xs font-bold uppercase tracking-widest">
+          {rehearsal ? 'Rehearsal' : 'Time scale'}{timeScale !== 1 && ` ×${timeScale}`}
+        </div>
+      )}
+      <div className="sr-only" role="status" aria-live="polite" aria-atomic="false" aria-relevant="additions text">
+        {liveRegionLines().filter(line => line !== '').map(line => (
+          <p key={`${status}:${line}`}>{line}</p>
+        ))}
+      </div>
       {renderMainContent()}
       {showFsaPopup && (
-        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in">
+        <div className={`fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-50 animate-fade-in ${revealPaused ? 'reveal-paused' : ''}`}>
           <div className="bg-slate-800 border border-cyan-500/50 rounded-lg shadow-[0_0_20px_rgba(0,255,255,0.5)] max-w-3xl w-full mx-4 p-8 flex flex-col md:flex-row items-center gap-8 animate-slide-in-up">
             <img
-              src="https://i.ibb.co/fYtzyJw6/logo.png"
-              alt="Labuan FSA Logo"
+              src={event.edd.logo.src}
+              alt={event.edd.logo.alt}
               className="w-32 h-32 md:w-48 md:h-48 object-contain flex-shrink-0"
             />
             <div className="flex flex-col w-full">
-                <h3 className="text-yellow-400 font-bold text-xl md:text-2xl mb-2 uppercase tracking-wider text-center md:text-left shadow-yellow-500/50 drop-shadow-sm">
-                  Enhanced Due Diligence
+                <h3 className="text-[var(--event-highlight)] font-bold text-xl md:text-2xl mb-2 uppercase tracking-wider text-center md:text-left shadow-yellow-500/50 drop-shadow-sm">
+                  {event.edd.title}
                 </h3>
                 <p className="text-slate-300 text-base md:text-lg text-center md:text-left min-h-32 md:min-h-0">
                   {displayedFsaText}
@@ -759,6 +1700,32 @@ const FaceScanner: React.FC = () => {
           </div>
         </div>
       )}
+      {operatorPin && (
+        <OperatorPanel
+          pin={operatorPin}
+          status={status}
+          profiles={profiles}
+          enrolledCount={enrolledCount}
+          nextProfileId={nextProfileId}
+          onSelectProfile={setNextProfileId}
+          onJump={(target) => dispatch({ type: 'JUMP', status: target })}
+          onSkip={() => dispatch({ type: 'SKIP' })}
+          revealPaused={revealPaused}
+          onTogglePause={handleToggleRevealPause}
+          muted={muted}
+          onToggleMute={handleToggleMute}
+          onReset={handleReset}
+          kiosk={machine.kiosk}
+          onToggleKiosk={() => dispatch({ type: 'SET_KIOSK', enabled: !machine.kiosk })}
+          onOpenSessionLog={() => setShowSessionLog(true)}
+          cameraPreferences={sourceConfig.kind === 'camera' ? sourceConfig.preferences ?? DEFAULT_CAMERA_PREFERENCES : null}
+          onChangeCameraPreferences={handleCameraPreferences}
+        />
+      )}
+      {showSessionLog && <SessionLogViewer event={event} onClose={() => setShowSessionLog(false)} />}
+      {badgePrint && (
+        <BadgePrint badge={badgePrint} template={defaultBadgeTemplate(event.badge)} event={event} onDone={() => setBadgePrint(null)} />
+      )}
     </>
   );
 };
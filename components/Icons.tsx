@@ -1,5 +1,6 @@
 
 import React from 'react';
+import { FaceMesh, STATIC_FACE_MESH } from '../utils/FaceMesh';
 
 interface IconProps extends React.SVGProps<SVGSVGElement> {
   className?: string;
@@ -56,44 +57,57 @@ export const ErrorIcon: React.FC<IconProps> = ({ className, ...props }) => (
     </svg>
 );
 
-export const FaceMeshIcon: React.FC<IconProps> = ({ className, ...props }) => {
-  // Dynamic nodes for the face mesh
-  const nodes = [
-    { x: 50, y: 5 },   // 0: Top
-    { x: 25, y: 20 },  // 1: Forehead L
-    { x: 75, y: 20 },  // 2: Forehead R
-    { x: 10, y: 40 },  // 3: Temple L
-    { x: 90, y: 40 },  // 4: Temple R
-    { x: 35, y: 40 },  // 5: Eye L Top
-    { x: 65, y: 40 },  // 6: Eye R Top
-    { x: 35, y: 48 },  // 7: Eye L Bot
-    { x: 65, y: 48 },  // 8: Eye R Bot
-    { x: 50, y: 35 },  // 9: Nose Bridge Top
-    { x: 50, y: 55 },  // 10: Nose Tip
-    { x: 20, y: 60 },  // 11: Cheek L
-    { x: 80, y: 60 },  // 12: Cheek R
-    { x: 35, y: 75 },  // 13: Jaw L
-    { x: 65, y: 75 },  // 14: Jaw R
-    { x: 50, y: 90 },  // 15: Chin
-  ];
+export const CameraOffIcon: React.FC<IconProps> = ({ className, ...props }) => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    className={className}
+    fill="none"
+    viewBox="0 0 24 24"
+    stroke="currentColor"
+    strokeWidth={2}
+    {...props}
+  >
+    <path strokeLinecap="round" strokeLinejoin="round" d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+    <path strokeLinecap="round" strokeLinejoin="round" d="M3 3l18 18" />
+  </svg>
+);
+
+export const LockIcon: React.FC<IconProps> = ({ className, ...props }) => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    className={className}
+    fill="none"
+    viewBox="0 0 24 24"
+    stroke="currentColor"
+    strokeWidth={2}
+    {...props}
+  >
+    <path strokeLinecap="round" strokeLinejoin="round" d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+  </svg>
+);
+
+export const ChipIcon: React.FC<IconProps> = ({ className, ...props }) => (
+  <svg
+    xmlns="http://www.w3.org/2000/svg"
+    className={className}
+    fill="none"
+    viewBox="0 0 24 24"
+    stroke="currentColor"
+    strokeWidth={2}
+    {...props}
+  >
+    <path strokeLinecap="round" strokeLinejoin="round" d="M9 3v2m6-2v2M9 19v2m6-2v2M5 9H3m2 6H3m18-6h-2m2 6h-2M7 19h10a2 2 0 002-2V7a2 2 0 00-2-2H7a2 2 0 00-2 2v10a2 2 0 002 2zM9 9h6v6H9V9z" />
+  </svg>
+);
+
+// Lines and nodes draw in over about this long, however many there are
+const MESH_DRAW_IN_S = 1.2;
 
-  // Connectivity map
-  const connections = [
-    [0, 1], [0, 2], [1, 2], // Top
-    [1, 3], [2, 4], // Temples
-    [1, 5], [2, 6], // Forehead to eyes
-    [9, 5], [9, 6], [9, 1], [9, 2], // Nose bridge connections
-    [3, 11], [4, 12], // Outer face
-    [5, 7], [6, 8], // Eyes vertical
-    [3, 5], [4, 6], // Temple to eye
-    [11, 7], [12, 8], // Cheek to eye bottom
-    [10, 7], [10, 8], // Nose tip to eyes
-    [10, 11], [10, 12], // Nose to cheeks
-    [10, 13], [10, 14], // Nose to jaw
-    [11, 13], [12, 14], // Cheek to jaw
-    [13, 15], [14, 15], // Jaw to chin
-    [10, 15] // Nose to chin line
-  ];
+// `mesh` defaults to the stylised face; see utils/FaceMesh.ts for one built from landmarks
+export const FaceMeshIcon: React.FC<IconProps & { mesh?: FaceMesh }> = ({ className, mesh = STATIC_FACE_MESH, ...props }) => {
+  const { nodes, edges, markers, nodeRadius } = mesh;
+  const lineStep = Math.min(0.04, MESH_DRAW_IN_S / edges.length);
+  const nodeStep = Math.min(0.04, MESH_DRAW_IN_S / nodes.length);
 
   return (
     <svg
@@ -110,7 +124,7 @@ export const FaceMeshIcon: React.FC<IconProps> = ({ className, ...props }) => {
         </filter>
       </defs>
       <g className="face-mesh-group" filter="url(#glow-filter)">
-        {connections.map((pair, i) => {
+        {edges.map((pair, i) => {
             const p1 = nodes[pair[0]];
             const p2 = nodes[pair[1]];
             return (
@@ -120,21 +134,21 @@ export const FaceMeshIcon: React.FC<IconProps> = ({ className, ...props }) => {
                     x2={p2.x} y2={p2.y}
                     className="face-mesh-line"
                     style={{ 
-                        animationDelay: `${i * 0.04}s` 
+                        animationDelay: `${i * lineStep}s` 
                     } as React.CSSProperties}
                 />
             );
         })}
         {nodes.map((node, i) => (
-            <g key={`n-${i}`} className="face-mesh-node-group" style={{ animationDelay: `${i * 0.04 + 0.1}s` }}>
+            <g key={`n-${i}`} className="face-mesh-node-group" style={{ animationDelay: `${i * nodeStep + 0.1}s` }}>
                 <circle 
-                    cx={node.x} cy={node.y} r="1.5"
+                    cx={node.x} cy={node.y} r={nodeRadius}
                     className="face-mesh-node"
                 />
                 {/* Add pulsing markers to specific nodes for effect */}
-                {[0, 9, 10, 15, 3, 4].includes(i) && (
+                {markers.includes(i) && (
                     <circle 
-                        cx={node.x} cy={node.y} r="3"
+                        cx={node.x} cy={node.y} r={nodeRadius * 2}
                         className="face-mesh-node-pulse"
                     />
                 )}
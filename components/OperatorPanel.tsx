@@ -0,0 +1,224 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { ScannerStatus, AttendeeProfile } from '../types';
+import CameraPicker from './CameraPicker';
+import { CameraPreferences } from '../utils/VideoSource';
+
+// Hidden operator overlay for live events.
+// Nothing is rendered until the operator presses the shortcut; the panel then asks for a PIN,
+// and locks itself again on Escape or after a short period without interaction.
+
+const SHORTCUT = { key: 'o', ctrlKey: true, altKey: true }; // Ctrl + Alt + O
+const AUTO_LOCK_MS = 60000;
+
+interface OperatorPanelProps {
+  pin: string;
+  status: ScannerStatus;
+  profiles: AttendeeProfile[];
+  enrolledCount: number | null;   // Profiles face matching can find; null while enrollment runs
+  nextProfileId: string | null;
+  onSelectProfile: (id: string | null) => void;
+  onJump: (status: ScannerStatus) => void;
+  onSkip: () => void;
+  revealPaused: boolean;
+  onTogglePause: () => void;
+  muted: boolean;
+  onToggleMute: () => void;
+  onReset: () => void;
+  kiosk: boolean;
+  onToggleKiosk: () => void;
+  onOpenSessionLog: () => void;
+  cameraPreferences: CameraPreferences | null;   // null when frames come from a file rather than a camera
+  onChangeCameraPreferences: (preferences: CameraPreferences) => void;
+}
+
+type PanelMode = 'hidden' | 'pin' | 'open';
+
+const OperatorPanel: React.FC<OperatorPanelProps> = ({
+  pin,
+  status,
+  profiles,
+  enrolledCount,
+  nextProfileId,
+  onSelectProfile,
+  onJump,
+  onSkip,
+  revealPaused,
+  onTogglePause,
+  muted,
+  onToggleMute,
+  onReset,
+  kiosk,
+  onToggleKiosk,
+  onOpenSessionLog,
+  cameraPreferences,
+  onChangeCameraPreferences,
+}) => {
+  const [mode, setMode] = useState<PanelMode>('hidden');
+  const [pinInput, setPinInput] = useState('');
+  const [pinRejected, setPinRejected] = useState(false);
+  const lockTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const hide = useCallback(() => {
+    setMode('hidden');
+    setPinInput('');
+    setPinRejected(false);
+  }, []);
+
+  // Any interaction with the panel postpones the auto-lock
+  const touch = useCallback(() => {
+    if (lockTimer.current) clearTimeout(lockTimer.current);
+    lockTimer.current = setTimeout(hide, AUTO_LOCK_MS);
+  }, [hide]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        hide();
+        return;
+      }
+      if (e.key.toLowerCase() === SHORTCUT.key && e.ctrlKey === SHORTCUT.ctrlKey && e.altKey === SHORTCUT.altKey) {
+        e.preventDefault();
+        setMode(current => (current === 'hidden' ? 'pin' : current));
+        touch();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [hide, touch]);
+
+  useEffect(() => () => {
+    if (lockTimer.current) clearTimeout(lockTimer.current);
+  }, []);
+
+  const handlePinSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    touch();
+    if (pinInput === pin) {
+      setMode('open');
+      setPinRejected(false);
+    } else {
+      setPinRejected(true);
+    }
+    setPinInput('');
+  };
+
+  // Wraps a control so it also keeps the panel unlocked
+  const act = <A extends unknown[]>(fn: (...args: A) => void) => (...args: A) => {
+    touch();
+    fn(...args);
+  };
+
+  if (mode === 'hidden') return null;
+
+  if (mode === 'pin') {
+    return (
+      <div className="fixed top-4 right-4 z-[100] bg-slate-950/95 border border-slate-700 rounded-md p-3 text-xs text-slate-300 font-sans">
+        <form onSubmit={handlePinSubmit} className="flex items-center gap-2">
+          <input
+            type="password"
+            inputMode="numeric"
+            autoFocus
+            value={pinInput}
+            onChange={(e) => setPinInput(e.target.value)}
+            aria-label="Operator PIN"
+            className={`w-24 bg-slate-900 border rounded px-2 py-1 text-slate-100 outline-none ${pinRejected ? 'border-red-500' : 'border-slate-600'}`}
+          />
+          <button type="submit" className="px-2 py-1 bg-slate-700 rounded hover:bg-slate-600">OK</button>
+        </form>
+      </div>
+    );
+  }
+
+  const buttonClass = 'px-2 py-1 rounded border border-slate-600 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div
+      className="fixed top-4 right-4 z-[100] w-80 max-h-[90vh] overflow-y-auto bg-slate-950/95 border border-slate-700 rounded-md p-4 text-xs text-slate-300 font-sans shadow-2xl"
+      onPointerDown={touch}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <span className="font-bold uppercase tracking-widest text-slate-400">Operator</span>
+        <button onClick={hide} className="text-slate-500 hover:text-slate-300" aria-label="Lock operator panel">Lock</button>
+      </div>
+
+      <div className="mb-3">
+        Status: <span className="font-mono text-cyan-400">{status}</span>
+      </div>
+
+      <label className="block mb-3">
+        <span className="block mb-1 text-slate-400">Next profile</span>
+        <select
+          value={nextProfileId ?? ''}
+          onChange={(e) => act(onSelectProfile)(e.target.value || null)}
+          className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-slate-100"
+        >
+          <option value="">Automatic</option>
+          {profiles.map(p => (
+            <option key={p.id} value={p.id}>{p.name} ({p.riskLevel})</option>
+          ))}
+        </select>
+        {enrolledCount === 0 && (
+          <span className="block mt-1 text-amber-400">
+            No profile has a matchable photo, so scans end as Unknown Guest unless a profile is picked here.
+          </span>
+        )}
+      </label>
+
+      {cameraPreferences && (
+        <CameraPicker
+          preferences={cameraPreferences}
+          onChange={act(onChangeCameraPreferences)}
+          selectClass="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-slate-100"
+        />
+      )}
+
+      <div className="mb-3">
+        <span className="block mb-1 text-slate-400">Jump to</span>
+        <div className="grid grid-cols-2 gap-1">
+          {Object.values(ScannerStatus).map(s => (
+            <button
+              key={s}
+              onClick={act(() => onJump(s))}
+              className={`${buttonClass} font-mono text-[10px] ${s === status ? 'border-cyan-500 text-cyan-300' : ''}`}
+            >
+              {s}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex gap-1 mb-3">
+        <button onClick={act(onSkip)} className={`${buttonClass} flex-1`}>
+          Skip stage
+        </button>
+        <button
+          onClick={act(onTogglePause)}
+          disabled={status !== ScannerStatus.SCAN_PASSED}
+          className={`${buttonClass} flex-1`}
+        >
+          {revealPaused ? 'Resume reveal' : 'Pause reveal'}
+        </button>
+        <button onClick={act(onToggleMute)} className={`${buttonClass} flex-1`}>
+          {muted ? 'Unmute audio' : 'Mute audio'}
+        </button>
+      </div>
+
+      <button onClick={act(onToggleKiosk)} className={`${buttonClass} w-full mb-3 ${kiosk ? 'border-cyan-500 text-cyan-300' : ''}`}>
+        {kiosk ? 'Kiosk mode: on' : 'Kiosk mode: off'}
+      </button>
+
+      <button onClick={act(onOpenSessionLog)} className={`${buttonClass} w-full mb-3`}>
+        Session log
+      </button>
+
+      <button
+        onClick={act(onReset)}
+        className="w-full px-2 py-2 rounded border border-red-700 bg-red-900/60 text-red-200 font-bold uppercase tracking-widest hover:bg-red-800"
+      >
+        Force reset
+      </button>
+    </div>
+  );
+};
+
+export default OperatorPanel;
@@ -1,138 +1,103 @@
-import React, { useRef, useEffect } from 'react';
-
-const ParticleBackground: React.FC = () => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-
-  useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    let w = (canvas.width = window.innerWidth);
-    let h = (canvas.height = window.innerHeight);
-
-    let animationFrameId: number;
-
-    const properties = {
-      particleColor: 'rgba(0, 255, 255, 0.7)',
-      particleRadius: 3,
-      particleCount: 120,
-      particleMaxVelocity: 0.5,
-      lineLength: 150,
-      particleLife: 6,
-    };
-
-    let particles: Particle[] = [];
-
-    class Particle {
-      x: number;
-      y: number;
-      velocityX: number;
-      velocityY: number;
-      life: number;
-
-      constructor() {
-        this.x = Math.random() * w;
-        this.y = Math.random() * h;
-        this.velocityX = Math.random() * (properties.particleMaxVelocity * 2) - properties.particleMaxVelocity;
-        this.velocityY = Math.random() * (properties.particleMaxVelocity * 2) - properties.particleMaxVelocity;
-        this.life = Math.random() * properties.particleLife * 60;
-      }
-
-      position() {
-        this.x + this.velocityX > w && this.velocityX > 0 || this.x + this.velocityX < 0 && this.velocityX < 0 ? this.velocityX *= -1 : this.velocityX;
-        this.y + this.velocityY > h && this.velocityY > 0 || this.y + this.velocityY < 0 && this.velocityY < 0 ? this.velocityY *= -1 : this.velocityY;
-        this.x += this.velocityX;
-        this.y += this.velocityY;
-      }
-
-      reDraw() {
-        ctx.beginPath();
-        ctx.arc(this.x, this.y, properties.particleRadius, 0, Math.PI * 2);
-        ctx.closePath();
-        ctx.fillStyle = properties.particleColor;
-        ctx.fill();
-      }
-
-      reCalculateLife() {
-        if (this.life < 1) {
-          this.x = Math.random() * w;
-          this.y = Math.random() * h;
-          this.velocityX = Math.random() * (properties.particleMaxVelocity * 2) - properties.particleMaxVelocity;
-          this.velocityY = Math.random() * (properties.particleMaxVelocity * 2) - properties.particleMaxVelocity;
-          this.life = Math.random() * properties.particleLife * 60;
-        }
-        this.life--;
-      }
-    }
+import React, { useRef, useEffect, useState } from 'react';
+import {
+  ParticleCanvasSize, ParticleRenderMode, ParticleRenderer, ParticleWorkerMessage,
+  getParticleRenderMode, startParticleRenderer,
+} from '../utils/ParticleField';
+import { ParticleFocus, ParticleMode } from '../utils/ParticleModes';
+
+interface ParticleBackgroundProps {
+  // Draws a single still frame instead of animating (see utils/Motion.ts)
+  reducedMotion?: boolean;
+  // Main thread or an OffscreenCanvas worker; defaults per `?particles=`
+  renderMode?: ParticleRenderMode;
+  // Look and motion of the particles, e.g. from particleModeFor(status, outcome)
+  mode?: ParticleMode;
+  // The element particles converge on, pulse from and burst out of (the scanner frame)
+  focusRef?: React.RefObject<HTMLElement | null>;
+}
+
+const canvasSize = (): ParticleCanvasSize => ({
+  width: window.innerWidth,
+  height: window.innerHeight,
+  pixelRatio: window.devicePixelRatio || 1,
+});
+
+// The canvas covers the viewport, so the element's viewport box is already in canvas pixels
+const focusOf = (element: HTMLElement | null | undefined): ParticleFocus | null => {
+  if (!element) return null;
+  const rect = element.getBoundingClientRect();
+  return { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2, radius: Math.min(rect.width, rect.height) / 2 };
+};
 
-    const reDrawBackground = () => {
-      ctx.clearRect(0, 0, w, h);
-    };
+// Hands the canvas to a worker and returns a renderer that forwards to the one running there
+const startWorkerRenderer = (canvas: HTMLCanvasElement, reducedMotion: boolean): ParticleRenderer => {
+  const worker = new Worker(new URL('../utils/ParticleWorker.ts', import.meta.url), { type: 'module' });
+  const post = (message: ParticleWorkerMessage, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+  const offscreen = canvas.transferControlToOffscreen();
+  post({ type: 'start', canvas: offscreen, size: canvasSize(), reducedMotion }, [offscreen]);
+  return {
+    resize: (size) => post({ type: 'resize', size }),
+    setPaused: (paused) => post({ type: 'pause', paused }),
+    setReducedMotion: (next) => post({ type: 'reducedMotion', reducedMotion: next }),
+    setMode: (mode, focus) => post({ type: 'mode', mode, focus }),
+    stop: () => worker.terminate(),
+  };
+};
 
-    const drawLines = () => {
-      let x1, y1, x2, y2, length, opacity;
-      for (let i in particles) {
-        for (let j in particles) {
-          x1 = particles[i].x;
-          y1 = particles[i].y;
-          x2 = particles[j].x;
-          y2 = particles[j].y;
-          length = Math.sqrt(Math.pow(x2 - x1, 2) + Math.pow(y2 - y1, 2));
-          if (length < properties.lineLength) {
-            opacity = 1 - length / properties.lineLength;
-            ctx.lineWidth = 0.5;
-            ctx.strokeStyle = `rgba(0, 255, 255, ${opacity})`;
-            ctx.beginPath();
-            ctx.moveTo(x1, y1);
-            ctx.lineTo(x2, y2);
-            ctx.closePath();
-            ctx.stroke();
-          }
-        }
-      }
-    };
+const ParticleBackground: React.FC<ParticleBackgroundProps> = ({ reducedMotion = false, renderMode, mode = 'drift', focusRef }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const rendererRef = useRef<ParticleRenderer | null>(null);
+  const reducedMotionRef = useRef(reducedMotion);
+  reducedMotionRef.current = reducedMotion;
+  const modeRef = useRef(mode);
+  modeRef.current = mode;
+  const [thread] = useState<ParticleRenderMode>(() => renderMode ?? getParticleRenderMode());
 
-    const reDrawParticles = () => {
-      for (let i in particles) {
-        particles[i].reCalculateLife();
-        particles[i].position();
-        particles[i].reDraw();
-      }
-    };
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
 
-    const loop = () => {
-      reDrawBackground();
-      reDrawParticles();
-      drawLines();
-      animationFrameId = requestAnimationFrame(loop);
-    };
+    // A fresh canvas per mount: once a canvas is handed to a worker it can't be drawn on again
+    const canvas = document.createElement('canvas');
+    canvas.id = 'particle-canvas';
+    container.appendChild(canvas);
 
-    const init = () => {
-      for (let i = 0; i < properties.particleCount; i++) {
-        particles.push(new Particle());
-      }
-      loop();
-    };
+    const particles = thread === 'worker'
+      ? startWorkerRenderer(canvas, reducedMotionRef.current)
+      : startParticleRenderer(canvas, canvasSize(), reducedMotionRef.current);
+    rendererRef.current = particles;
+    if (document.hidden) particles.setPaused(true);
 
+    // Also fires when the window moves to a screen with another pixel ratio
     const handleResize = () => {
-      w = canvas.width = window.innerWidth;
-      h = canvas.height = window.innerHeight;
+      particles.resize(canvasSize());
+      particles.setMode(modeRef.current, focusOf(focusRef?.current));
     };
-    
+    // No frames at all while the tab is hidden
+    const handleVisibilityChange = () => particles.setPaused(document.hidden);
+
     window.addEventListener('resize', handleResize);
-    
-    init();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
 
     return () => {
       window.removeEventListener('resize', handleResize);
-      cancelAnimationFrame(animationFrameId);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      particles.stop();
+      rendererRef.current = null;
+      canvas.remove();
     };
-  }, []);
+  }, [thread]);
+
+  useEffect(() => {
+    rendererRef.current?.setReducedMotion(reducedMotion);
+  }, [reducedMotion]);
+
+  // The frame is measured when the mode changes, after the new screen has laid out
+  useEffect(() => {
+    rendererRef.current?.setMode(mode, focusOf(focusRef?.current));
+  }, [mode, focusRef]);
 
-  return <canvas id="particle-canvas" ref={canvasRef}></canvas>;
+  return <div ref={containerRef} aria-hidden="true"></div>;
 };
 
-export default ParticleBackground;
\ No newline at end of file
+export default ParticleBackground;
@@ -0,0 +1,120 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ScannerStatus } from '../types';
+import { RelayClient, DEFAULT_RELAY_PORT, getRelayToken } from '../utils/RelayClient';
+import { StateMessage, UnversionedMessage } from '../utils/RemoteProtocol';
+
+// Phone / laptop remote for the kiosk, opened with `?remote` (e.g. http://<kiosk-ip>:3000/?remote).
+// Talks to the kiosk through the LAN relay and mirrors the kiosk's live ScannerStatus.
+
+const getRemoteRelayUrl = (search = window.location.search) =>
+  new URLSearchParams(search).get('relay') || `ws://${window.location.hostname}:${DEFAULT_RELAY_PORT}`;
+
+const RemoteControl: React.FC = () => {
+  const [connected, setConnected] = useState(false);
+  const [kioskCount, setKioskCount] = useState(0);
+  const [kioskState, setKioskState] = useState<StateMessage | null>(null);
+  const [relayError, setRelayError] = useState<string | null>(null);
+  const clientRef = useRef<RelayClient | null>(null);
+  const [token] = useState(() => getRelayToken());
+
+  useEffect(() => {
+    if (!token) return;
+    const client = new RelayClient({
+      url: getRemoteRelayUrl(),
+      role: 'remote',
+      token,
+      onMessage: (message) => {
+        if (message.type === 'state') setKioskState(message);
+        if (message.type === 'peers') setKioskCount(message.kiosks);
+        if (message.type === 'error') setRelayError(message.message);
+      },
+      onConnectionChange: (isConnected) => {
+        setConnected(isConnected);
+        if (isConnected) setRelayError(null);
+      },
+    });
+    clientRef.current = client;
+    client.connect();
+    return () => {
+      client.close();
+      clientRef.current = null;
+    };
+  }, [token]);
+
+  const send = (command: UnversionedMessage) => clientRef.current?.send(command);
+
+  const online = connected && kioskCount > 0;
+  const status = kioskState?.status ?? null;
+
+  if (!token) {
+    return (
+      <div className="w-full max-w-md mx-auto p-4 bg-slate-800/20 border border-cyan-500/20 rounded-lg backdrop-blur-md font-sans">
+        <p className="mb-2 text-xs text-cyan-600 uppercase tracking-widest">Remote Control</p>
+        <p className="text-sm text-slate-300">
+          Open this page with the relay token, e.g. <span className="font-mono text-cyan-300">?remote&amp;token=&lt;RELAY_TOKEN&gt;</span>.
+        </p>
+      </div>
+    );
+  }
+
+  const buttonClass = 'w-full py-4 rounded-lg font-bold uppercase tracking-widest transition-all duration-300 disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="w-full max-w-md mx-auto p-4 bg-slate-800/20 border border-cyan-500/20 rounded-lg backdrop-blur-md font-sans">
+      <div className="flex items-center justify-between mb-4 text-xs uppercase tracking-widest">
+        <span className="text-cyan-600">Remote Control</span>
+        <span className={online ? 'text-green-400' : 'text-red-400'}>
+          {!connected ? 'Relay offline' : kioskCount === 0 ? 'No kiosk' : 'Kiosk online'}
+        </span>
+      </div>
+
+      {relayError && <p className="mb-4 text-sm text-red-400">{relayError}</p>}
+
+      <div className="mb-6 text-center">
+        <p className="text-xs text-cyan-600 uppercase tracking-widest">Kiosk status</p>
+        <p className="text-3xl font-bold text-cyan-300 font-mono">{status ?? '—'}</p>
+      </div>
+
+      <label className="block mb-6">
+        <span className="block mb-1 text-xs text-cyan-600 uppercase tracking-widest">Next profile</span>
+        <select
+          value={kioskState?.nextProfileId ?? ''}
+          onChange={(e) => send({ type: 'select-profile', profileId: e.target.value || null })}
+          disabled={!online}
+          className="w-full bg-slate-900 border border-cyan-500/30 rounded px-3 py-3 text-slate-100"
+        >
+          <option value="">Automatic</option>
+          {kioskState?.profiles.map(p => (
+            <option key={p.id} value={p.id}>{p.name} ({p.riskLevel})</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="flex flex-col gap-3">
+        <button
+          onClick={() => send({ type: 'start' })}
+          disabled={!online || status !== ScannerStatus.IDLE}
+          className={`${buttonClass} bg-cyan-500 text-slate-900 hover:bg-cyan-400`}
+        >
+          Start Scan
+        </button>
+        <button
+          onClick={() => send({ type: 'skip' })}
+          disabled={!online}
+          className={`${buttonClass} bg-slate-700 text-cyan-300 hover:bg-slate-600`}
+        >
+          Skip Stage
+        </button>
+        <button
+          onClick={() => send({ type: 'reset' })}
+          disabled={!online || status === ScannerStatus.IDLE}
+          className={`${buttonClass} border border-red-700 bg-red-900/60 text-red-200 hover:bg-red-800`}
+        >
+          Reset
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RemoteControl;
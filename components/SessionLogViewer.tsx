@@ -0,0 +1,211 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ScannerStatus } from '../types';
+import BadgePrint from './BadgePrint';
+import { BadgeData, defaultBadgeTemplate } from '../utils/Badge';
+import { EventConfig } from '../utils/EventConfig';
+import {
+  SessionRecord, SessionOutcome, SESSION_OUTCOMES,
+  listSessions, clearSessions, sessionsToJson, sessionsToCsv, downloadFile,
+} from '../utils/SessionLog';
+
+// Operator view of the persisted scan sessions, opened from the operator panel.
+// Filters apply to both the table and the exports. An expanded row can reprint the attendee's badge.
+
+interface SessionLogViewerProps {
+  event: EventConfig;
+  onClose: () => void;
+}
+
+const formatTime = (ms: number) => new Date(ms).toLocaleString();
+const formatDuration = (ms: number) => `${(ms / 1000).toFixed(1)} s`;
+
+// `YYYY-MM-DD` from a date input, as the start of that day in local time
+const startOfDay = (value: string) => (value ? new Date(`${value}T00:00:00`).getTime() : null);
+
+const exportName = (extension: string) => `scan-sessions-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+const SessionLogViewer: React.FC<SessionLogViewerProps> = ({ event, onClose }) => {
+  const [records, setRecords] = useState<SessionRecord[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [outcome, setOutcome] = useState<SessionOutcome | ''>('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [templateId, setTemplateId] = useState(event.badge.defaultTemplate);
+  const [reprint, setReprint] = useState<BadgeData | null>(null);
+  const template = event.badge.templates.find(t => t.id === templateId) ?? defaultBadgeTemplate(event.badge);
+
+  const reload = () => {
+    listSessions()
+      .then((loaded) => {
+        setRecords(loaded);
+        setLoadError(null);
+      })
+      .catch((err: Error) => setLoadError(err.message));
+  };
+
+  useEffect(reload, []);
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const from = startOfDay(fromDate);
+    const to = startOfDay(toDate);
+    return records.filter(r => {
+      if (outcome && r.outcome !== outcome) return false;
+      if (from !== null && r.startedAt < from) return false;
+      // The "to" date is inclusive
+      if (to !== null && r.startedAt >= to + 24 * 60 * 60 * 1000) return false;
+      if (query) {
+        const haystack = [r.profile?.name, r.profile?.organisation, r.errorMessage, ...(r.errors ?? []).map(e => e.code)].join(' ').toLowerCase();
+        if (!haystack.includes(query)) return false;
+      }
+      return true;
+    });
+  }, [records, search, outcome, fromDate, toDate]);
+
+  const handleReprint = (record: SessionRecord) => {
+    if (!record.profile) return;
+    const { id: profileId, name, title, organisation } = record.profile;
+    setReprint({ profileId, name, title, organisation, portrait: record.portrait ?? null });
+  };
+
+  const handleClear = () => {
+    if (!window.confirm(`Delete all ${records.length} logged sessions from this kiosk?`)) return;
+    clearSessions().then(reload).catch((err: Error) => setLoadError(err.message));
+  };
+
+  const inputClass = 'bg-slate-900 border border-slate-600 rounded px-2 py-1 text-slate-100';
+  const buttonClass = 'px-3 py-1 rounded border border-slate-600 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 font-sans text-xs text-slate-300">
+      <div className="w-full max-w-5xl max-h-[90vh] flex flex-col bg-slate-950 border border-slate-700 rounded-md shadow-2xl">
+        <div className="flex items-center justify-between p-4 border-b border-slate-800">
+          <span className="font-bold uppercase tracking-widest text-slate-400">
+            Session log ({filtered.length} of {records.length})
+          </span>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-300">Close</button>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-2 p-4 border-b border-slate-800">
+          <input
+            type="search"
+            placeholder="Name, organisation or error"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className={`${inputClass} flex-1 min-w-[12rem]`}
+          />
+          <select value={outcome} onChange={(e) => setOutcome(e.target.value as SessionOutcome | '')} className={inputClass}>
+            <option value="">All outcomes</option>
+            {SESSION_OUTCOMES.map(o => <option key={o} value={o}>{o}</option>)}
+          </select>
+          <label className="flex items-center gap-1">
+            From <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className={inputClass} />
+          </label>
+          <label className="flex items-center gap-1">
+            To <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className={inputClass} />
+          </label>
+          <button
+            onClick={() => downloadFile(exportName('json'), sessionsToJson(filtered), 'application/json')}
+            disabled={filtered.length === 0}
+            className={buttonClass}
+          >
+            Export JSON
+          </button>
+          <button
+            onClick={() => downloadFile(exportName('csv'), sessionsToCsv(filtered), 'text/csv')}
+            disabled={filtered.length === 0}
+            className={buttonClass}
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={handleClear}
+            disabled={records.length === 0}
+            className="px-3 py-1 rounded border border-red-700 bg-red-900/60 text-red-200 hover:bg-red-800 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Clear log
+          </button>
+        </div>
+
+        {loadError && <p className="p-4 text-red-400">Could not read the session log: {loadError}</p>}
+
+        <div className="overflow-y-auto">
+          <table className="w-full text-left">
+            <thead className="sticky top-0 bg-slate-950 text-slate-500 uppercase tracking-wider">
+              <tr>
+                <th className="p-2"></th>
+                <th className="p-2">Started</th>
+                <th className="p-2">Duration</th>
+                <th className="p-2">Attendee</th>
+                <th className="p-2">Match</th>
+                <th className="p-2">Outcome</th>
+                <th className="p-2">Error</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filtered.map(r => (
+                <React.Fragment key={r.id}>
+                  <tr
+                    onClick={() => setExpandedId(id => (id === r.id ? null : r.id))}
+                    className="border-t border-slate-800 hover:bg-slate-900 cursor-pointer"
+                  >
+                    <td className="p-2">
+                      {r.thumbnail
+                        ? <img src={r.thumbnail} alt={r.profile ? `Snapshot of ${r.profile.name}` : 'Session snapshot'} className="w-10 h-10 object-cover rounded" />
+                        : <div className="w-10 h-10 rounded bg-slate-800"></div>}
+                    </td>
+                    <td className="p-2 whitespace-nowrap">{formatTime(r.startedAt)}</td>
+                    <td className="p-2">{formatDuration(r.endedAt - r.startedAt)}</td>
+                    <td className="p-2">{r.profile ? `${r.profile.name} (${r.profile.riskLevel})` : '—'}</td>
+                    <td className="p-2">{r.confidence !== null ? `${r.confidence}%` : '—'}</td>
+                    <td className="p-2 font-mono">{r.outcome}</td>
+                    <td className="p-2 text-red-400">{r.errorMessage ?? ''}</td>
+                  </tr>
+                  {expandedId === r.id && (
+                    <tr className="bg-slate-900/60">
+                      <td></td>
+                      <td colSpan={6} className="p-2">
+                        <div className="flex flex-wrap gap-x-4 gap-y-1 font-mono text-slate-400">
+                          {Object.values(ScannerStatus).filter(s => r.statusDurations[s] !== undefined).map(s => (
+                            <span key={s}>{s}: {formatDuration(r.statusDurations[s] ?? 0)}</span>
+                          ))}
+                        </div>
+                        {r.errors && r.errors.length > 0 && (
+                          <ul className="mt-2 font-mono text-red-400">
+                            {r.errors.map((e, i) => (
+                              <li key={i}>
+                                {new Date(e.at).toLocaleTimeString()} {e.code} in {e.status}
+                                {e.attempt > 0 && ` (after ${e.attempt} automatic ${e.attempt === 1 ? 'retry' : 'retries'})`}
+                                {e.detail && <span className="text-slate-500"> — {e.detail}</span>}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                        {r.profile && (
+                          <div className="flex items-center gap-2 mt-2">
+                            <select value={template.id} onChange={(e) => setTemplateId(e.target.value)} className={inputClass}>
+                              {event.badge.templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                            </select>
+                            <button onClick={() => handleReprint(r)} className={buttonClass}>Reprint badge</button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+              {filtered.length === 0 && !loadError && (
+                <tr><td colSpan={7} className="p-6 text-center text-slate-500">No sessions match.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+      {reprint && <BadgePrint badge={reprint} template={template} event={event} onDone={() => setReprint(null)} />}
+    </div>
+  );
+};
+
+export default SessionLogViewer;
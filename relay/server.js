@@ -0,0 +1,137 @@
+// LAN relay between the kiosk and remote controls (phone / laptop).
+// Runs on the venue network with no internet access: `npm run relay`.
+//
+//   RELAY_PORT   port to listen on (default 8787)
+//   RELAY_TOKEN  shared secret every client must present in its hello; the relay won't start without it
+//
+// The relay does not interpret commands. It checks the protocol version and the sender's
+// role, forwards remote commands to kiosks and kiosk state to remotes, and replays the latest
+// kiosk state to remotes that join later. See relay/PROTOCOL.md.
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { WebSocketServer } from 'ws';
+
+const PROTOCOL_VERSION = 1;
+const PORT = Number(process.env.RELAY_PORT) || 8787;
+const TOKEN = process.env.RELAY_TOKEN || '';
+
+// Without a token anyone on the venue network could start, skip or reset the kiosk
+if (!TOKEN) {
+  console.error('[relay] RELAY_TOKEN is not set. Start the relay with a shared secret, e.g. RELAY_TOKEN=<secret> npm run relay');
+  process.exit(1);
+}
+
+// Compared as digests so the check takes the same time whatever the guess, its length included
+const digest = (value) => createHash('sha256').update(value).digest();
+const TOKEN_DIGEST = digest(TOKEN);
+const tokenMatches = (token) => typeof token === 'string' && timingSafeEqual(digest(token), TOKEN_DIGEST);
+
+// Commands and kiosk state are a few KB at most; anything bigger is dropped by ws before parsing
+const MAX_PAYLOAD = 64 * 1024;
+
+const COMMAND_TYPES = ['start', 'skip', 'reset', 'jump', 'select-profile'];
+
+const kiosks = new Set();
+const remotes = new Set();
+let lastState = null;
+
+const send = (socket, message) => {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify({ v: PROTOCOL_VERSION, ...message }));
+  }
+};
+
+const broadcast = (sockets, raw) => {
+  sockets.forEach(socket => {
+    if (socket.readyState === socket.OPEN) socket.send(raw);
+  });
+};
+
+const announcePeers = () => {
+  const peers = { type: 'peers', kiosks: kiosks.size, remotes: remotes.size };
+  [...kiosks, ...remotes].forEach(socket => send(socket, peers));
+};
+
+const wss = new WebSocketServer({ port: PORT, maxPayload: MAX_PAYLOAD });
+
+wss.on('connection', (socket, request) => {
+  let role = null;
+  const address = request.socket.remoteAddress;
+
+  const handleMessage = (data) => {
+    const raw = data.toString();
+    let message;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      send(socket, { type: 'error', message: 'Malformed JSON.' });
+      return;
+    }
+    // `null`, numbers, strings and arrays are valid JSON but not messages
+    if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+      send(socket, { type: 'error', message: 'Expected a JSON object.' });
+      return;
+    }
+
+    if (message.v !== PROTOCOL_VERSION) {
+      send(socket, { type: 'error', message: `Unsupported protocol version ${message.v}; relay speaks v${PROTOCOL_VERSION}.` });
+      return;
+    }
+
+    // Handshake
+    if (!role) {
+      if (message.type !== 'hello' || (message.role !== 'kiosk' && message.role !== 'remote')) {
+        send(socket, { type: 'error', message: 'Expected hello with role "kiosk" or "remote".' });
+        return;
+      }
+      if (!tokenMatches(message.token)) {
+        send(socket, { type: 'error', message: 'Invalid relay token.' });
+        socket.close();
+        return;
+      }
+      role = message.role;
+      (role === 'kiosk' ? kiosks : remotes).add(socket);
+      console.log(`[relay] ${role} connected from ${address}`);
+      if (role === 'remote' && lastState) socket.send(lastState);
+      announcePeers();
+      return;
+    }
+
+    if (role === 'remote' && COMMAND_TYPES.includes(message.type)) {
+      broadcast(kiosks, raw);
+      return;
+    }
+    if (role === 'kiosk' && message.type === 'state') {
+      lastState = raw;
+      broadcast(remotes, raw);
+      return;
+    }
+    send(socket, { type: 'error', message: `A ${role} may not send "${message.type}".` });
+  };
+
+  // One bad frame from any client on the LAN must not take the relay down for everyone
+  socket.on('message', (data) => {
+    try {
+      handleMessage(data);
+    } catch (err) {
+      console.error(`[relay] could not handle a message from ${address}:`, err);
+      send(socket, { type: 'error', message: 'Could not handle the message.' });
+    }
+  });
+
+  // Oversized or invalid frames end up here; ws closes the connection itself
+  socket.on('error', (err) => {
+    console.error(`[relay] dropped ${role ?? 'client'} at ${address}: ${err.message}`);
+  });
+
+  socket.on('close', () => {
+    if (!role) return;
+    (role === 'kiosk' ? kiosks : remotes).delete(socket);
+    console.log(`[relay] ${role} disconnected from ${address}`);
+    announcePeers();
+  });
+});
+
+wss.on('listening', () => {
+  console.log(`[relay] listening on ws://0.0.0.0:${PORT} (protocol v${PROTOCOL_VERSION}, token required)`);
+});
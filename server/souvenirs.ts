@@ -0,0 +1,119 @@
+// Serves souvenir cards from the kiosk's own web server so guests can download them on the
+// venue LAN (see utils/SouvenirCard.ts). Registered as a Vite plugin, so it runs under both
+// `npm run dev` and `npm run preview`.
+//
+//   GET /souvenirs/base       { "baseUrl": "http://<lan-ip>:<port>" } for the QR codes
+//   PUT /souvenirs/<id>.png   stores a card; only accepted from the kiosk machine itself
+//   GET /souvenirs/<id>.png   downloads a card
+//
+//   SOUVENIR_DIR       where cards are written (default `souvenirs/`)
+//   SOUVENIR_BASE_URL  overrides the detected LAN address, e.g. when the kiosk has several networks
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Connect, Plugin } from 'vite';
+
+const ROUTE = '/souvenirs';
+const CARD_PATH = /^\/([0-9a-f]{16,64})\.png$/;
+const MAX_CARD_BYTES = 10 * 1024 * 1024;
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const isLoopback = (address: string | undefined) =>
+  address === '127.0.0.1' || address === '::1' || address === '::ffff:127.0.0.1';
+
+// First non-internal IPv4 address; guests' phones cannot reach localhost
+const lanAddress = () => {
+  const addresses = Object.values(os.networkInterfaces()).flat();
+  return addresses.find(a => a && a.family === 'IPv4' && !a.internal)?.address ?? 'localhost';
+};
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_CARD_BYTES) {
+        reject(new Error('Card too large.'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+const createHandler = (dir: string, baseUrl: (req: IncomingMessage) => string): Connect.NextHandleFunction =>
+  (req, res, next) => {
+    const url = req.url ?? '';
+    if (req.method === 'GET' && url === '/base') {
+      sendJson(res, 200, { baseUrl: baseUrl(req) });
+      return;
+    }
+
+    const match = CARD_PATH.exec(url);
+    if (!match) {
+      next();
+      return;
+    }
+    const file = path.join(dir, `${match[1]}.png`);
+
+    if (req.method === 'PUT') {
+      if (!isLoopback(req.socket.remoteAddress)) {
+        sendJson(res, 403, { error: 'Cards can only be stored from the kiosk.' });
+        return;
+      }
+      readBody(req)
+        .then((body) => {
+          if (!body.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+            sendJson(res, 400, { error: 'Expected a PNG image.' });
+            return;
+          }
+          fs.mkdirSync(dir, { recursive: true });
+          fs.writeFileSync(file, body);
+          sendJson(res, 201, { ok: true });
+        })
+        .catch((err: Error) => sendJson(res, 413, { error: err.message }));
+      return;
+    }
+
+    if (req.method === 'GET') {
+      if (!fs.existsSync(file)) {
+        sendJson(res, 404, { error: 'Card not found.' });
+        return;
+      }
+      res.setHeader('Content-Type', 'image/png');
+      res.setHeader('Content-Disposition', 'inline; filename="souvenir.png"');
+      fs.createReadStream(file).pipe(res);
+      return;
+    }
+    next();
+  };
+
+export const souvenirServer = (env: Record<string, string>): Plugin => {
+  const dir = path.resolve(env.SOUVENIR_DIR || 'souvenirs');
+  // The port is taken from the request so the same address works for dev and preview
+  const baseUrl = (req: IncomingMessage) => {
+    if (env.SOUVENIR_BASE_URL) return env.SOUVENIR_BASE_URL.replace(/\/$/, '');
+    return `http://${lanAddress()}:${req.socket.localPort}`;
+  };
+  const handler = createHandler(dir, baseUrl);
+  return {
+    name: 'souvenir-server',
+    configureServer(server) {
+      server.middlewares.use(ROUTE, handler);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(ROUTE, handler);
+    },
+  };
+};
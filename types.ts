@@ -3,6 +3,7 @@ export enum ScannerStatus {
   IDLE = 'IDLE',
   INITIALIZING = 'INITIALIZING',
   DETECTING = 'DETECTING',
+  LIVENESS = 'LIVENESS',
   CAPTURED = 'CAPTURED',
   SCANNING = 'SCANNING',
   SCAN_PASSED = 'SCAN_PASSED',
@@ -12,4 +13,64 @@ export enum ScannerStatus {
   COUNTDOWN = 'COUNTDOWN',
   ONBOARDED = 'ONBOARDED',
   WELCOME = 'WELCOME',
+  UNKNOWN_GUEST = 'UNKNOWN_GUEST',
+  DENIED = 'DENIED',
+}
+
+// Face bounding box in video pixel coordinates (mirrored to match the on-screen selfie view).
+export interface DetectionBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FrameSize {
+  width: number;
+  height: number;
+}
+
+// The 68 points of face-api's landmark model, in video pixels of the mirrored view
+export type FaceLandmarks = { x: number; y: number }[];
+
+export type RiskLevel = 'LOW' | 'MEDIUM' | 'HIGH';
+
+// How the reveal ends for a matched attendee: their risk level, or DENIED when they are referred
+export type RiskOutcome = RiskLevel | 'DENIED';
+
+// Languages of the guest-facing copy (see utils/Messages.ts)
+export type Locale = 'en' | 'ms' | 'zh';
+
+// Lines the announcer speaks (see utils/Announcer.ts)
+export type AnnouncerLine =
+  | 'identified'     // Reveal: the name appears
+  | 'referred'       // Reveal: DENIED outcome
+  | 'approved'       // APPROVED screen
+  | 'unknownGuest'   // UNKNOWN_GUEST screen
+  | 'scanFailed';    // ERROR screen, once no automatic retry is left
+
+// Screening badges shown around the snapshot during the reveal
+export type ProfileTag = 'ekyc' | 'world-check' | 'pep';
+
+export interface AttendeeProfile {
+  id: string;
+  name: string;
+  title: string;
+  organisation: string;
+  tags: ProfileTag[];
+  riskLevel: RiskLevel;
+  referred?: boolean; // Sent to the compliance desk instead of being approved (the DENIED ending)
+  eddText?: string;   // Enhanced Due Diligence popup copy; the event default is used when omitted
+  photo?: string;     // URL of a reference portrait, relative to the site root
+  language?: Locale;  // Switches the reveal and final screens to this language
+  announcements?: Partial<Record<AnnouncerLine, string>>;   // Pre-rendered clip URLs, played when speech is unavailable
+}
+
+// Action the guest is asked to perform before capture, to tell a live face from a photo
+export type LivenessChallenge = 'blink' | 'turn-left' | 'turn-right' | 'smile';
+
+// Outcome of comparing the captured face against the enrolled attendees
+export interface FaceMatch {
+  profileId: string | null;   // null when the best candidate is below the threshold (unknown guest)
+  similarity: number;         // 0..1 similarity to the best candidate, 0 when nobody is enrolled
 }
@@ -0,0 +1,150 @@
+// Spoken announcements, so guests at the back of a noisy venue hear who was just confirmed.
+// Reveal cues and a few status screens name a line; the line's text, in the guest's language,
+// is filled in with the attendee's details and spoken with the browser's speech synthesis. Where
+// no voice for that language is installed (or speaking fails), a pre-rendered clip plays instead:
+// the profile's own clip for that line, else the event's. Sound effects are ducked while it talks.
+
+import { AnnouncerLine, AttendeeProfile, Locale } from '../types';
+import { LOCALES, MESSAGES } from './Messages';
+import { SoundEffects } from './SoundEffects';
+
+export const ANNOUNCER_LINES: AnnouncerLine[] = ['identified', 'referred', 'approved', 'unknownGuest', 'scanFailed'];
+
+// The `announcer` block of an event config
+export interface AnnouncerConfig {
+  enabled: boolean;
+  lang: Partial<Record<Locale, string>>;    // BCP 47 language to speak each guest language in, e.g. { en: "en-GB" }
+  voice: Partial<Record<Locale, string>>;   // Preferred voice by name; otherwise the first voice for the language
+  rate: number;             // 0.1 to 10, 1 is normal speed
+  pitch: number;            // 0 to 2, 1 is normal pitch
+  duck: number;             // Level of the sound effects while speaking, 0 to 1
+  // Replacement text per language, with {name}, {title} and {organisation}; the `announcer` messages otherwise
+  lines: Partial<Record<Locale, Partial<Record<AnnouncerLine, string>>>>;
+  clips: Partial<Record<AnnouncerLine, string>>;   // Fallback clip URLs when the profile has none
+}
+
+export const DEFAULT_ANNOUNCER_CONFIG: AnnouncerConfig = {
+  enabled: true,
+  lang: { en: 'en-US' },
+  voice: {},
+  rate: 1,
+  pitch: 1,
+  duck: 0.25,
+  lines: {},
+  clips: {},
+};
+
+const PLACEHOLDER = /\{(name|title|organisation)\}/g;
+
+// A line's text for one attendee. Lines that name the attendee are skipped without one.
+export const formatLine = (template: string, profile: AttendeeProfile | null) => {
+  if (!profile && template.search(PLACEHOLDER) !== -1) return null;
+  return template.replace(PLACEHOLDER, (_, field: 'name' | 'title' | 'organisation') => profile?.[field] ?? '');
+};
+
+const speechSupported = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+const languageOf = (lang: string) => lang.split('-')[0].toLowerCase();
+
+// The named voice, else one for the exact language, else one for the same base language.
+// Null when voices are known but none speaks the language; undefined while they are still loading.
+export const pickVoice = (voices: SpeechSynthesisVoice[], lang: string, name: string | null) => {
+  if (voices.length === 0) return undefined;
+  return (name ? voices.find(v => v.name === name) : undefined)
+    ?? voices.find(v => v.lang.toLowerCase() === lang.toLowerCase())
+    ?? voices.find(v => languageOf(v.lang) === languageOf(lang))
+    ?? null;
+};
+
+class AnnouncerManager {
+  private config = DEFAULT_ANNOUNCER_CONFIG;
+  private timeScale = 1;
+  // Held until it ends: some browsers stop speaking if the utterance is garbage collected
+  private utterance: SpeechSynthesisUtterance | null = null;
+  private clip: HTMLAudioElement | null = null;
+
+  configure(config: AnnouncerConfig) {
+    this.config = config;
+    // Voices load asynchronously; asking once starts the load before the first announcement
+    if (speechSupported()) window.speechSynthesis.getVoices();
+  }
+
+  // Rehearsal mode: announcements speak faster along with the rest of the flow
+  setTimeScale(timeScale: number) {
+    this.timeScale = timeScale;
+    if (this.clip) this.clip.playbackRate = timeScale;
+  }
+
+  // Speaks a line in `locale`, interrupting any announcement still playing. Silent while sound is muted.
+  announce(line: AnnouncerLine, profile: AttendeeProfile | null, locale: Locale) {
+    if (!this.config.enabled || SoundEffects.isMuted()) return;
+    const text = formatLine(this.config.lines[locale]?.[line] ?? MESSAGES[locale].announcer[line], profile);
+    const clip = profile?.announcements?.[line] ?? this.config.clips[line] ?? null;
+    this.stop();
+
+    const lang = this.config.lang[locale] ?? LOCALES[locale].lang;
+    const voice = speechSupported() ? pickVoice(window.speechSynthesis.getVoices(), lang, this.config.voice[locale] ?? null) : null;
+    if (text && voice !== null) this.speak(text, lang, voice, clip);
+    else if (clip) this.playClip(clip);
+  }
+
+  stop() {
+    if (this.utterance) {
+      this.utterance = null;
+      window.speechSynthesis.cancel();
+    }
+    if (this.clip) {
+      this.clip.pause();
+      this.clip = null;
+    }
+    SoundEffects.duck(1);
+  }
+
+  private speak(text: string, lang: string, voice: SpeechSynthesisVoice | undefined, clip: string | null) {
+    const { rate, pitch, duck } = this.config;
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = voice?.lang ?? lang;
+    if (voice) utterance.voice = voice;
+    utterance.rate = Math.min(10, Math.max(0.1, rate * this.timeScale));
+    utterance.pitch = pitch;
+    utterance.onstart = () => {
+      if (this.utterance === utterance) SoundEffects.duck(duck);
+    };
+    utterance.onend = () => {
+      if (this.utterance !== utterance) return;
+      this.utterance = null;
+      SoundEffects.duck(1);
+    };
+    utterance.onerror = (e) => {
+      if (this.utterance !== utterance) return;
+      this.utterance = null;
+      SoundEffects.duck(1);
+      // Platforms without a working speech engine still report voices; the clip covers for them
+      if (e.error !== 'interrupted' && e.error !== 'canceled') {
+        console.warn(`Speech synthesis failed (${e.error}).`);
+        if (clip) this.playClip(clip);
+      }
+    };
+    this.utterance = utterance;
+    window.speechSynthesis.speak(utterance);
+  }
+
+  private playClip(url: string) {
+    const audio = new Audio(url);
+    audio.defaultPlaybackRate = audio.playbackRate = this.timeScale;
+    const finish = () => {
+      if (this.clip !== audio) return;
+      this.clip = null;
+      SoundEffects.duck(1);
+    };
+    audio.onended = finish;
+    this.clip = audio;
+    SoundEffects.duck(this.config.duck);
+    audio.play().catch((err) => {
+      console.warn(`Announcement clip '${url}' could not be played.`, err);
+      finish();
+    });
+  }
+}
+
+export const Announcer = new AnnouncerManager();
@@ -0,0 +1,92 @@
+// Unattended kiosk mode: while IDLE shows the attract loop, the camera is watched at a low frame
+// rate and the flow starts by itself once a face comes close enough and stays there briefly.
+// The watch opens its own stream on a detached <video> and releases it when stopped, so the
+// scanner's camera is never held open between guests.
+
+import { FaceDetector, FaceStabilityTracker } from './FaceDetector';
+import { VideoSourceConfig, openVideoSource } from './VideoSource';
+
+const WATCH_FRAME_RATE = 5;
+const WATCH_INTERVAL_MS = 250;
+// A face counts as approaching once its box spans this share of the frame width...
+const APPROACH_MIN_FACE_WIDTH = 0.2;
+// ...for this long without jumping around (a lower overlap than capture, since the face is still moving in)
+const APPROACH_DWELL_MS = 600;
+const APPROACH_MIN_OVERLAP = 0.3;
+
+// `?kiosk` turns on unattended mode
+export const getKioskMode = (search = window.location.search) => new URLSearchParams(search).has('kiosk');
+
+// Starts watching and returns a function that stops the watch and releases the camera.
+export const watchForGuest = (
+  detector: FaceDetector,
+  source: VideoSourceConfig,
+  onApproach: () => void,
+  onError: (err: unknown) => void
+) => {
+  let watching = true;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let stream: MediaStream | null = null;
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  const tracker = new FaceStabilityTracker(APPROACH_DWELL_MS, APPROACH_MIN_OVERLAP);
+
+  const release = () => {
+    const current = stream;
+    // Cleared first so the tracks ending here are not taken for an unplugged camera
+    stream = null;
+    current?.getTracks().forEach(track => track.stop());
+    video.srcObject = null;
+  };
+
+  const check = async () => {
+    if (!watching) return;
+    try {
+      const detection = video.videoWidth > 0 ? await detector.detect(video) : null;
+      if (!watching) return;
+      const close = detection && detection.box.width / video.videoWidth >= APPROACH_MIN_FACE_WIDTH;
+      if (tracker.update(close ? detection.box : null, performance.now())) {
+        release();
+        onApproach();
+        return;
+      }
+    } catch (err) {
+      if (!watching) return;
+      release();
+      onError(err);
+      return;
+    }
+    timer = setTimeout(check, WATCH_INTERVAL_MS);
+  };
+
+  openVideoSource(source, { frameRate: WATCH_FRAME_RATE })
+    .then(async (opened) => {
+      if (!watching) {
+        opened.getTracks().forEach(track => track.stop());
+        return;
+      }
+      stream = opened;
+      // An unplugged camera ends its track; this watch is over and the error lets the caller retry
+      opened.getVideoTracks().forEach(track => track.addEventListener('ended', () => {
+        if (!watching || stream !== opened) return;
+        watching = false;
+        clearTimeout(timer);
+        release();
+        onError(new Error('Camera disconnected.'));
+      }));
+      video.srcObject = opened;
+      await video.play();
+      check();
+    })
+    .catch((err) => {
+      release();
+      if (watching) onError(err);
+    });
+
+  return () => {
+    watching = false;
+    clearTimeout(timer);
+    release();
+  };
+};
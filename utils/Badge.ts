@@ -0,0 +1,82 @@
+// Printable name badges, handed out after the APPROVED screen instead of hand-written ones.
+// Each event lists its badge templates (paper size and which parts to show) in its config;
+// components/BadgePrint.tsx lays a badge out for the chosen template and prints it.
+
+import { DetectionBox } from '../types';
+
+export interface BadgeTemplate {
+  id: string;
+  name: string;       // Shown in the print pickers
+  width: string;      // CSS length in in, mm or cm, e.g. "4in" or "105mm"
+  height: string;
+  photo: boolean;     // Include the cropped face from the snapshot
+  code: boolean;      // Include a QR code of the attendee id
+}
+
+export interface BadgeConfig {
+  autoPrint: boolean;   // Open the print dialog as soon as WELCOME is reached
+  templates: BadgeTemplate[];
+  defaultTemplate: string;   // Id of the template printed from the welcome screen
+}
+
+export const BADGE_LENGTH = /^\d+(\.\d+)?(in|mm|cm)$/;
+
+export const DEFAULT_BADGE_CONFIG: BadgeConfig = {
+  autoPrint: false,
+  templates: [
+    { id: '4x3', name: '4 × 3 in', width: '4in', height: '3in', photo: true, code: true },
+    { id: 'a6', name: 'A6', width: '105mm', height: '148mm', photo: true, code: true },
+  ],
+  defaultTemplate: '4x3',
+};
+
+export const defaultBadgeTemplate = (config: BadgeConfig) =>
+  config.templates.find(t => t.id === config.defaultTemplate) ?? config.templates[0];
+
+// What goes on one badge; built from the live scan or from a session log record
+export interface BadgeData {
+  profileId: string;
+  name: string;
+  title: string;
+  organisation: string;
+  portrait: string | null;   // Square face crop as a data URL
+}
+
+const MM_PER_UNIT: Record<string, number> = { in: 25.4, mm: 1, cm: 10 };
+
+// Converts a template length to millimetres
+export const toMillimetres = (length: string) => {
+  const unit = length.slice(-2);
+  return parseFloat(length) * MM_PER_UNIT[unit];
+};
+
+const PORTRAIT_SIZE = 360;
+// Padding around the detected face box, as a multiple of its larger side
+const PORTRAIT_PADDING = 1.8;
+
+// Square crop centred on the face, clamped to the snapshot, for badges and the session log.
+// The snapshot and the box share the same (mirrored) coordinates.
+export const cropPortrait = (snapshot: string, box: DetectionBox | null, size = PORTRAIT_SIZE) =>
+  new Promise<string>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const { naturalWidth: width, naturalHeight: height } = image;
+      const side = Math.min(width, height, box ? Math.max(box.width, box.height) * PORTRAIT_PADDING : Infinity);
+      const centreX = box ? box.x + box.width / 2 : width / 2;
+      const centreY = box ? box.y + box.height / 2 : height / 2;
+      const left = Math.min(Math.max(centreX - side / 2, 0), width - side);
+      const top = Math.min(Math.max(centreY - side / 2, 0), height - side);
+
+      const canvas = document.createElement('canvas');
+      canvas.width = canvas.height = size;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas 2D context unavailable.'));
+        return;
+      }
+      ctx.drawImage(image, left, top, side, side, 0, 0, size, size);
+      resolve(canvas.toDataURL('image/jpeg', 0.85));
+    };
+    image.onerror = () => reject(new Error('Could not decode snapshot for the badge portrait.'));
+    image.src = snapshot;
+  });
@@ -0,0 +1,89 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { parseEventConfig } from './EventConfig';
+import { STAGE_DURATIONS } from './ScannerMachine';
+import { DEFAULT_BADGE_CONFIG } from './Badge';
+
+// The smallest config that passes: every required field and nothing optional
+const minimal = () => ({
+  id: 'test-event',
+  title: 'Test Event',
+  subtitle: 'Secure Access',
+  footer: '© Test',
+  welcome: { heading: 'WELCOME TO', eventName: ['TEST EVENT', '2025'] },
+  edd: { title: 'Enhanced Due Diligence', text: 'About the organiser.', logo: { src: '/events/assets/demo-logo.svg', alt: 'Logo' } },
+  colors: { primary: '#22d3ee', highlight: '#facc15' },
+});
+
+const readEvent = (id: string) => JSON.parse(readFileSync(new URL(`../events/${id}.json`, import.meta.url), 'utf8'));
+
+describe('parseEventConfig', () => {
+  it.each(['labuan-2025', 'demo'])('accepts the shipped %s config', id => {
+    expect(parseEventConfig(readEvent(id)).id).toBe(id);
+  });
+
+  it('fills in the defaults for everything optional', () => {
+    const config = parseEventConfig(minimal());
+    expect(config.language).toBe('en');
+    expect(config.welcome.translations).toEqual({});
+    expect(config.durations).toEqual(STAGE_DURATIONS);
+    expect(config.badge).toBe(DEFAULT_BADGE_CONFIG);
+  });
+
+  it('rejects anything but an object', () => {
+    expect(() => parseEventConfig(null)).toThrow('Invalid event config: expected an object');
+    expect(() => parseEventConfig([])).toThrow('expected an object');
+  });
+
+  it.each([
+    ['title', { ...minimal(), title: undefined }, '"title" is required'],
+    ['a blank footer', { ...minimal(), footer: '  ' }, '"footer" is required'],
+    ['welcome', { ...minimal(), welcome: undefined }, '"welcome" must be an object'],
+    ['an empty event name', { ...minimal(), welcome: { heading: 'WELCOME TO', eventName: [] } }, '"welcome.eventName" must be a non-empty list of lines'],
+    ['the logo source', { ...minimal(), edd: { ...minimal().edd, logo: { alt: 'Logo' } } }, '"edd.logo.src" is required'],
+    ['an unknown language', { ...minimal(), language: 'fr' }, '"language" must be one of en, ms, zh'],
+    ['an unknown translation', { ...minimal(), welcome: { ...minimal().welcome, translations: { fr: minimal().welcome } } }, 'unknown language "fr"'],
+  ])('rejects a config with a missing or invalid %s', (_, config, message) => {
+    expect(() => parseEventConfig(config)).toThrow(message);
+  });
+
+  it.each(['22d3ee', '#22d3e', '#22d3eeff', '#gggggg', 'cyan'])('rejects the colour %s', color => {
+    const config = minimal();
+    config.colors.primary = color;
+    expect(() => parseEventConfig(config)).toThrow('"colors.primary" must be a hex color like #22d3ee');
+  });
+
+  it('overrides only the durations it names', () => {
+    const config = parseEventConfig({ ...minimal(), durations: { scanning: 4000, liveness: 12000 } });
+    expect(config.durations).toEqual({ ...STAGE_DURATIONS, scanning: 4000, liveness: 12000 });
+  });
+
+  it.each([
+    [{ scan: 4000 }, 'unknown duration "scan"'],
+    [{ scanning: 0 }, '"durations.scanning" must be a positive number of ms'],
+    [{ scanning: -1 }, '"durations.scanning" must be a positive number of ms'],
+    [{ scanning: '4000' }, '"durations.scanning" must be a positive number of ms'],
+  ])('rejects the durations %j', (durations, message) => {
+    expect(() => parseEventConfig({ ...minimal(), durations })).toThrow(message);
+  });
+
+  describe('badge', () => {
+    const template = { id: 'cr80', name: 'CR80', width: '85.6mm', height: '54mm' };
+
+    it('reads templates and defaults the first one', () => {
+      const { badge } = parseEventConfig({ ...minimal(), badge: { templates: [template] } });
+      expect(badge).toEqual({ autoPrint: false, templates: [{ ...template, photo: true, code: true }], defaultTemplate: 'cr80' });
+    });
+
+    it.each(['4', '4 in', '4px', 'in', '-4in'])('rejects the length %s', width => {
+      expect(() => parseEventConfig({ ...minimal(), badge: { templates: [{ ...template, width }] } }))
+        .toThrow('"badge.templates[0].width" must be a length like 4in or 105mm');
+    });
+
+    it('rejects duplicate ids and an unknown default template', () => {
+      expect(() => parseEventConfig({ ...minimal(), badge: { templates: [template, template] } })).toThrow('duplicate badge template id "cr80"');
+      expect(() => parseEventConfig({ ...minimal(), badge: { templates: [template], defaultTemplate: 'a6' } }))
+        .toThrow('"badge.defaultTemplate" must be one of cr80');
+    });
+  });
+});
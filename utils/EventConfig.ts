@@ -0,0 +1,255 @@
+// Branding, copy and timing for one event.
+// Each event is a JSON file in `/events/<id>.json`, picked with `?event=<id>` (or EVENT_ID in
+// the environment), so the kiosk can be reused for another event without touching source.
+// The file is validated when the app starts and any problem is reported on screen.
+
+import { STAGE_DURATIONS, StageDuration, StageDurations } from './ScannerMachine';
+import { BadgeConfig, BadgeTemplate, BADGE_LENGTH, DEFAULT_BADGE_CONFIG } from './Badge';
+import { AnnouncerLine, Locale } from '../types';
+import { DEFAULT_LOCALE, LOCALES, isLocale } from './Messages';
+import { ANNOUNCER_LINES, AnnouncerConfig, DEFAULT_ANNOUNCER_CONFIG } from './Announcer';
+import { CueSound, DEFAULT_SOUND_CONFIG, SoundConfig, SoundCue, SOUND_CUES, SOUND_PACKS, isSoundPackId, isSynthPatchName } from './SoundPacks';
+
+export const EVENTS_URL = '/events';
+export const DEFAULT_EVENT_ID = 'labuan-2025';
+
+export interface EventLogo {
+  src: string;
+  alt: string;
+}
+
+export interface EventColors {
+  primary: string;     // Header title and welcome event name
+  highlight: string;   // EDD popup heading
+}
+
+export interface WelcomeCopy {
+  heading: string;   // Line above the event name, e.g. "Welcome to"
+  eventName: string[];   // One entry per line
+}
+
+export interface EventConfig {
+  id: string;
+  title: string;       // Header title, also used as the document title
+  subtitle: string;    // Header tagline
+  footer: string;
+  welcome: WelcomeCopy & {
+    translations: Partial<Record<Locale, WelcomeCopy>>;   // Welcome copy in other languages; the main copy otherwise
+  };
+  language: Locale;    // Language the kiosk starts in
+  edd: {
+    title: string;
+    text: string;      // Default popup text when the profile has none and no copy was generated
+    logo: EventLogo;
+  };
+  colors: EventColors;
+  durations: StageDurations;   // Stage lengths in ms; the file may override any subset
+  badge: BadgeConfig;   // Printable badge templates; the built-in 4 × 3 in and A6 ones when omitted
+  sounds: SoundConfig;   // Sound pack and per-cue overrides; the sci-fi pack when omitted
+  announcer: AnnouncerConfig;   // Spoken announcements in the guest's language; on when omitted
+}
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+const isString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const parseEventConfig = (data: unknown): EventConfig => {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid event config: ${reason}`);
+  };
+  if (!isObject(data)) return fail('expected an object');
+
+  const requireString = (value: unknown, field: string) => (isString(value) ? value : fail(`"${field}" is required`));
+  const requireObject = (value: unknown, field: string) => (isObject(value) ? value : fail(`"${field}" must be an object`));
+  const requireColor = (value: unknown, field: string) =>
+    typeof value === 'string' && HEX_COLOR.test(value) ? value : fail(`"${field}" must be a hex color like #22d3ee`);
+
+  const welcome = requireObject(data.welcome, 'welcome');
+  const edd = requireObject(data.edd, 'edd');
+  const logo = requireObject(edd.logo, 'edd.logo');
+  const colors = requireObject(data.colors, 'colors');
+
+  const requireLines = (value: unknown, field: string) =>
+    Array.isArray(value) && value.length > 0 && value.every(isString) ? value as string[] : fail(`"${field}" must be a non-empty list of lines`);
+
+  const translations: Partial<Record<Locale, WelcomeCopy>> = {};
+  if (welcome.translations !== undefined) {
+    Object.entries(requireObject(welcome.translations, 'welcome.translations')).forEach(([locale, value]) => {
+      if (!isLocale(locale)) fail(`unknown language "${locale}"; expected one of ${Object.keys(LOCALES).join(', ')}`);
+      const field = `welcome.translations.${locale}`;
+      const copy = requireObject(value, field);
+      translations[locale as Locale] = {
+        heading: requireString(copy.heading, `${field}.heading`),
+        eventName: requireLines(copy.eventName, `${field}.eventName`),
+      };
+    });
+  }
+
+  if (data.language !== undefined && !isLocale(data.language)) fail(`"language" must be one of ${Object.keys(LOCALES).join(', ')}`);
+
+  const durations: StageDurations = { ...STAGE_DURATIONS };
+  if (data.durations !== undefined) {
+    Object.entries(requireObject(data.durations, 'durations')).forEach(([key, value]) => {
+      if (!(key in STAGE_DURATIONS)) fail(`unknown duration "${key}"; expected one of ${Object.keys(STAGE_DURATIONS).join(', ')}`);
+      if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) fail(`"durations.${key}" must be a positive number of ms`);
+      durations[key as StageDuration] = value as number;
+    });
+  }
+
+  let badge = DEFAULT_BADGE_CONFIG;
+  if (data.badge !== undefined) {
+    const config = requireObject(data.badge, 'badge');
+    const requireBoolean = (value: unknown, field: string, fallback: boolean) =>
+      value === undefined ? fallback : typeof value === 'boolean' ? value : fail(`"${field}" must be true or false`);
+    const requireLength = (value: unknown, field: string) =>
+      typeof value === 'string' && BADGE_LENGTH.test(value) ? value : fail(`"${field}" must be a length like 4in or 105mm`);
+
+    let templates = DEFAULT_BADGE_CONFIG.templates;
+    if (config.templates !== undefined) {
+      if (!Array.isArray(config.templates) || config.templates.length === 0) fail('"badge.templates" must be a non-empty list');
+      templates = (config.templates as unknown[]).map((value, i): BadgeTemplate => {
+        const field = `badge.templates[${i}]`;
+        const template = requireObject(value, field);
+        return {
+          id: requireString(template.id, `${field}.id`),
+          name: requireString(template.name, `${field}.name`),
+          width: requireLength(template.width, `${field}.width`),
+          height: requireLength(template.height, `${field}.height`),
+          photo: requireBoolean(template.photo, `${field}.photo`, true),
+          code: requireBoolean(template.code, `${field}.code`, true),
+        };
+      });
+      const ids = templates.map(t => t.id);
+      const duplicate = ids.find((id, i) => ids.indexOf(id) !== i);
+      if (duplicate) fail(`duplicate badge template id "${duplicate}"`);
+    }
+    // The first template unless the event names another
+    const defaultTemplate = config.defaultTemplate === undefined ? templates[0].id : requireString(config.defaultTemplate, 'badge.defaultTemplate');
+    if (!templates.some(t => t.id === defaultTemplate)) fail(`"badge.defaultTemplate" must be one of ${templates.map(t => t.id).join(', ')}`);
+    badge = { autoPrint: requireBoolean(config.autoPrint, 'badge.autoPrint', false), templates, defaultTemplate };
+  }
+
+  let sounds = DEFAULT_SOUND_CONFIG;
+  if (data.sounds !== undefined) {
+    const config = requireObject(data.sounds, 'sounds');
+    const pack = config.pack === undefined ? DEFAULT_SOUND_CONFIG.pack : config.pack;
+    if (!isSoundPackId(pack)) return fail(`unknown sound pack "${String(pack)}"; expected one of ${Object.keys(SOUND_PACKS).join(', ')}`);
+    const cues: Partial<Record<SoundCue, CueSound>> = {};
+    if (config.cues !== undefined) {
+      Object.entries(requireObject(config.cues, 'sounds.cues')).forEach(([key, value]) => {
+        if (!SOUND_CUES.includes(key as SoundCue)) fail(`unknown sound cue "${key}"; expected one of ${SOUND_CUES.join(', ')}`);
+        const field = `sounds.cues.${key}`;
+        const cue = requireObject(value, field);
+        const sound: CueSound = {};
+        if (cue.sample !== undefined) sound.sample = requireString(cue.sample, `${field}.sample`);
+        if (cue.synth !== undefined) {
+          if (!isSynthPatchName(cue.synth)) fail(`"${field}.synth" is not a known synthesized sound`);
+          sound.synth = cue.synth as CueSound['synth'];
+        }
+        if (cue.volume !== undefined) {
+          if (typeof cue.volume !== 'number' || !Number.isFinite(cue.volume) || cue.volume < 0) fail(`"${field}.volume" must be a number of 0 or more`);
+          sound.volume = cue.volume as number;
+        }
+        cues[key as SoundCue] = sound;
+      });
+    }
+    sounds = { pack, cues };
+  }
+
+  let announcer = DEFAULT_ANNOUNCER_CONFIG;
+  if (data.announcer !== undefined) {
+    const config = requireObject(data.announcer, 'announcer');
+    const defaults = DEFAULT_ANNOUNCER_CONFIG;
+    const optionalNumber = (value: unknown, field: string, min: number, max: number, fallback: number) => {
+      if (value === undefined) return fallback;
+      return typeof value === 'number' && value >= min && value <= max ? value : fail(`"${field}" must be a number from ${min} to ${max}`);
+    };
+    const requireLines = (value: unknown, field: string) => {
+      const lines: Partial<Record<AnnouncerLine, string>> = {};
+      if (value === undefined) return lines;
+      Object.entries(requireObject(value, field)).forEach(([line, text]) => {
+        if (!ANNOUNCER_LINES.includes(line as AnnouncerLine)) fail(`unknown announcement "${line}"; expected one of ${ANNOUNCER_LINES.join(', ')}`);
+        lines[line as AnnouncerLine] = requireString(text, `${field}.${line}`);
+      });
+      return lines;
+    };
+    // A value per guest language, e.g. { "en": ..., "ms": ... }
+    const requireLocales = <T>(value: unknown, field: string, parse: (entry: unknown, entryField: string) => T) => {
+      const byLocale: Partial<Record<Locale, T>> = {};
+      if (value === undefined) return byLocale;
+      Object.entries(requireObject(value, field)).forEach(([locale, entry]) => {
+        if (!isLocale(locale)) fail(`unknown language "${locale}" in "${field}"; expected one of ${Object.keys(LOCALES).join(', ')}`);
+        byLocale[locale as Locale] = parse(entry, `${field}.${locale}`);
+      });
+      return byLocale;
+    };
+    if (config.enabled !== undefined && typeof config.enabled !== 'boolean') fail('"announcer.enabled" must be true or false');
+    announcer = {
+      enabled: config.enabled !== false,
+      lang: { ...defaults.lang, ...requireLocales(config.lang, 'announcer.lang', requireString) },
+      voice: { ...defaults.voice, ...requireLocales(config.voice, 'announcer.voice', requireString) },
+      rate: optionalNumber(config.rate, 'announcer.rate', 0.1, 10, defaults.rate),
+      pitch: optionalNumber(config.pitch, 'announcer.pitch', 0, 2, defaults.pitch),
+      duck: optionalNumber(config.duck, 'announcer.duck', 0, 1, defaults.duck),
+      lines: requireLocales(config.lines, 'announcer.lines', requireLines),
+      clips: requireLines(config.clips, 'announcer.clips'),
+    };
+  }
+
+  return {
+    id: requireString(data.id, 'id'),
+    title: requireString(data.title, 'title'),
+    subtitle: requireString(data.subtitle, 'subtitle'),
+    footer: requireString(data.footer, 'footer'),
+    welcome: {
+      heading: requireString(welcome.heading, 'welcome.heading'),
+      eventName: requireLines(welcome.eventName, 'welcome.eventName'),
+      translations,
+    },
+    language: (data.language as Locale | undefined) ?? DEFAULT_LOCALE,
+    edd: {
+      title: requireString(edd.title, 'edd.title'),
+      text: requireString(edd.text, 'edd.text'),
+      logo: {
+        src: requireString(logo.src, 'edd.logo.src'),
+        alt: requireString(logo.alt, 'edd.logo.alt'),
+      },
+    },
+    colors: {
+      primary: requireColor(colors.primary, 'colors.primary'),
+      highlight: requireColor(colors.highlight, 'colors.highlight'),
+    },
+    durations,
+    badge,
+    sounds,
+    announcer,
+  };
+};
+
+// Event id from `?event=<id>`, else EVENT_ID from the environment, else the default event
+export const getEventId = (search = window.location.search) =>
+  new URLSearchParams(search).get('event') || process.env.EVENT_ID || DEFAULT_EVENT_ID;
+
+export const loadEventConfig = async (id = getEventId()) => {
+  if (!/^[\w-]+$/.test(id)) throw new Error(`Invalid event id '${id}'.`);
+  const url = `${EVENTS_URL}/${id}.json`;
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Could not load event config from '${url}' (HTTP ${response.status}).`);
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch {
+    throw new Error(`Event config '${url}' is not valid JSON (is the file missing?).`);
+  }
+  const config = parseEventConfig(data);
+  if (config.id !== id) throw new Error(`Event config '${url}' declares id '${config.id}'.`);
+  return config;
+};
+
+// Exposes the event colors to CSS as --event-primary and --event-highlight
+export const applyEventColors = (colors: EventColors, root = document.documentElement) => {
+  root.style.setProperty('--event-primary', colors.primary);
+  root.style.setProperty('--event-highlight', colors.highlight);
+};
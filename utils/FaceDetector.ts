@@ -0,0 +1,138 @@
+// On-device face detection for the DETECTING phase.
+// The scanner only talks to the FaceDetector interface so the model can be swapped
+// (or faked) without touching component code. The default implementation runs
+// face-api's tiny detector on the TensorFlow.js CPU backend with locally served weights.
+
+import * as faceapi from '@vladmandic/face-api';
+import { DetectionBox } from '../types';
+
+export type DetectorInput = HTMLVideoElement | HTMLImageElement | HTMLCanvasElement;
+
+export interface FaceDetection {
+  box: DetectionBox;
+  score: number;
+}
+
+export interface FaceDetector {
+  load(): Promise<void>;
+  // Resolves with the most prominent face in the frame, or null when none is found.
+  detect(input: DetectorInput): Promise<FaceDetection | null>;
+}
+
+export interface FaceDetectorOptions {
+  modelUrl: string;
+  inputSize: number;   // Must be divisible by 32; smaller is faster, larger finds smaller faces
+  minScore: number;
+}
+
+export const DEFAULT_DETECTOR_OPTIONS: FaceDetectorOptions = {
+  modelUrl: '/models',
+  inputSize: 320,
+  minScore: 0.5,
+};
+
+// face-api bundles the full TensorFlow.js runtime but its typings only re-export a subset
+const tf = faceapi.tf as unknown as {
+  setBackend(name: string): Promise<boolean>;
+  ready(): Promise<void>;
+};
+
+// Shared by every model wrapper (detector, matcher) so the backend is only initialised once per page load.
+let backendReady: Promise<void> | null = null;
+
+export const ensureCpuBackend = () => {
+  if (!backendReady) {
+    backendReady = (async () => {
+      await tf.setBackend('cpu');
+      await tf.ready();
+    })();
+  }
+  return backendReady;
+};
+
+class FaceApiDetector implements FaceDetector {
+  private options: FaceDetectorOptions;
+  private loading: Promise<void> | null = null;
+
+  constructor(options: FaceDetectorOptions) {
+    this.options = options;
+  }
+
+  load() {
+    if (!this.loading) {
+      this.loading = (async () => {
+        await ensureCpuBackend();
+        if (!faceapi.nets.tinyFaceDetector.isLoaded) {
+          await faceapi.nets.tinyFaceDetector.loadFromUri(this.options.modelUrl);
+        }
+      })();
+      // Allow a retry after a failed fetch instead of caching the rejection forever
+      this.loading.catch(() => { this.loading = null; });
+    }
+    return this.loading;
+  }
+
+  async detect(input: DetectorInput) {
+    await this.load();
+    const result = await faceapi.detectSingleFace(
+      input,
+      new faceapi.TinyFaceDetectorOptions({ inputSize: this.options.inputSize, scoreThreshold: this.options.minScore })
+    );
+    if (!result) return null;
+    const { x, y, width, height } = result.box;
+    return { box: { x, y, width, height }, score: result.score };
+  }
+}
+
+export const createFaceDetector = (options: Partial<FaceDetectorOptions> = {}): FaceDetector =>
+  new FaceApiDetector({ ...DEFAULT_DETECTOR_OPTIONS, ...options });
+
+// Mirrors a box from raw sensor coordinates into the flipped (selfie) view used for display and snapshots.
+export const mirrorBox = (box: DetectionBox, frameWidth: number): DetectionBox => ({
+  ...box,
+  x: frameWidth - box.x - box.width,
+});
+
+const intersectionOverUnion = (a: DetectionBox, b: DetectionBox) => {
+  const left = Math.max(a.x, b.x);
+  const top = Math.max(a.y, b.y);
+  const right = Math.min(a.x + a.width, b.x + b.width);
+  const bottom = Math.min(a.y + a.height, b.y + b.height);
+  const intersection = Math.max(0, right - left) * Math.max(0, bottom - top);
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+};
+
+// Decides when a face has held still long enough to be captured.
+// A face counts as "the same" between frames while its box overlaps the anchor box
+// by at least `minOverlap` (IoU); losing the face or jumping away restarts the clock.
+export class FaceStabilityTracker {
+  private stableMs: number;
+  private minOverlap: number;
+  private anchor: DetectionBox | null = null;
+  private since = 0;
+
+  constructor(stableMs: number, minOverlap = 0.6) {
+    this.stableMs = stableMs;
+    this.minOverlap = minOverlap;
+  }
+
+  // Returns true once the face has been stable for the configured time.
+  update(box: DetectionBox | null, now: number) {
+    if (!box) {
+      this.reset();
+      return false;
+    }
+    if (!this.anchor || intersectionOverUnion(this.anchor, box) < this.minOverlap) {
+      this.anchor = box;
+      this.since = now;
+      return false;
+    }
+    return now - this.since >= this.stableMs;
+  }
+
+  reset() {
+    this.anchor = null;
+    this.since = 0;
+  }
+}
@@ -0,0 +1,128 @@
+// 1:N face matching for the SCANNING phase.
+// Attendees are enrolled from the reference `photo` in their profile: each photo is turned into
+// a face embedding on the kiosk when the profiles load, and the captured snapshot is compared
+// against all of them. Like detection, everything runs on the TensorFlow.js CPU backend with
+// the weights served from `/models`.
+
+import * as faceapi from '@vladmandic/face-api';
+import { AttendeeProfile, FaceLandmarks, FaceMatch } from '../types';
+import { DetectorInput, FaceDetectorOptions, DEFAULT_DETECTOR_OPTIONS, ensureCpuBackend } from './FaceDetector';
+
+export type FaceEmbedding = Float32Array;
+
+// Landmarks are in the input's pixels; for the snapshot that is the mirrored view
+export interface EmbeddedFace {
+  embedding: FaceEmbedding;
+  landmarks: FaceLandmarks;
+}
+
+export interface FaceEmbedder {
+  load(): Promise<void>;
+  // Resolves with the most prominent face, or null when none is found.
+  embed(input: DetectorInput): Promise<EmbeddedFace | null>;
+}
+
+export interface EnrolledFace {
+  profileId: string;
+  embedding: FaceEmbedding;
+}
+
+// Minimum similarity for a positive match. 0.45 corresponds to a descriptor distance of 0.55,
+// slightly stricter than face-api's customary 0.6.
+export const DEFAULT_MATCH_THRESHOLD = 0.45;
+
+class FaceApiEmbedder implements FaceEmbedder {
+  private options: FaceDetectorOptions;
+  private loading: Promise<void> | null = null;
+
+  constructor(options: FaceDetectorOptions) {
+    this.options = options;
+  }
+
+  load() {
+    if (!this.loading) {
+      this.loading = (async () => {
+        await ensureCpuBackend();
+        const nets = [faceapi.nets.tinyFaceDetector, faceapi.nets.faceLandmark68Net, faceapi.nets.faceRecognitionNet];
+        for (const net of nets) {
+          if (!net.isLoaded) await net.loadFromUri(this.options.modelUrl);
+        }
+      })();
+      // Allow a retry after a failed fetch instead of caching the rejection forever
+      this.loading.catch(() => { this.loading = null; });
+    }
+    return this.loading;
+  }
+
+  async embed(input: DetectorInput): Promise<EmbeddedFace | null> {
+    await this.load();
+    const result = await faceapi
+      .detectSingleFace(
+        input,
+        new faceapi.TinyFaceDetectorOptions({ inputSize: this.options.inputSize, scoreThreshold: this.options.minScore })
+      )
+      .withFaceLandmarks()
+      .withFaceDescriptor();
+    if (!result) return null;
+    return {
+      embedding: result.descriptor,
+      landmarks: result.landmarks.positions.map(({ x, y }) => ({ x, y })),
+    };
+  }
+}
+
+export const createFaceEmbedder = (options: Partial<FaceDetectorOptions> = {}): FaceEmbedder =>
+  new FaceApiEmbedder({ ...DEFAULT_DETECTOR_OPTIONS, ...options });
+
+const loadImage = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Could not load image '${url.slice(0, 80)}'.`));
+    image.src = url;
+  });
+
+export const embedImage = async (embedder: FaceEmbedder, url: string) => embedder.embed(await loadImage(url));
+
+// Builds the gallery from every profile that has a photo. Photos without a detectable face
+// are skipped with a warning so one bad portrait does not take the kiosk down.
+export const enrollProfiles = async (embedder: FaceEmbedder, profiles: AttendeeProfile[]) => {
+  const gallery: EnrolledFace[] = [];
+  for (const profile of profiles) {
+    if (!profile.photo) continue;
+    try {
+      const face = await embedImage(embedder, profile.photo);
+      if (face) gallery.push({ profileId: profile.id, embedding: face.embedding });
+      else console.warn(`No face found in the photo for profile '${profile.id}'; it cannot be matched.`);
+    } catch (err) {
+      console.warn(`Could not enroll profile '${profile.id}':`, err);
+    }
+  }
+  if (gallery.length === 0) {
+    console.warn(
+      'No attendee could be enrolled for face matching: no profile has a usable `photo`. ' +
+      'Every scan will end as an unknown guest unless the operator picks a profile or rehearsal mode is on.'
+    );
+  }
+  return gallery;
+};
+
+const similarity = (a: FaceEmbedding, b: FaceEmbedding) =>
+  Math.max(0, 1 - faceapi.euclideanDistance(a, b));
+
+// Best similarity per enrolled profile (a profile may be enrolled more than once)
+export const scoreCandidates = (embedding: FaceEmbedding, gallery: EnrolledFace[]) => {
+  const scores = new Map<string, number>();
+  gallery.forEach(({ profileId, embedding: enrolled }) => {
+    scores.set(profileId, Math.max(scores.get(profileId) ?? 0, similarity(embedding, enrolled)));
+  });
+  return scores;
+};
+
+export const matchFace = (embedding: FaceEmbedding, gallery: EnrolledFace[], threshold = DEFAULT_MATCH_THRESHOLD): FaceMatch => {
+  let best: FaceMatch = { profileId: null, similarity: 0 };
+  scoreCandidates(embedding, gallery).forEach((score, profileId) => {
+    if (score > best.similarity) best = { profileId, similarity: score };
+  });
+  return best.similarity >= threshold ? best : { profileId: null, similarity: best.similarity };
+};
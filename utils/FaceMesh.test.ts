@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { FaceMesh, STATIC_FACE_MESH, meshFromLandmarks, triangulate } from './FaceMesh';
+
+type Point = { x: number; y: number };
+
+// Deterministic pseudo-random points (a small LCG), so failures reproduce
+const randomPoints = (count: number, seed: number, box = { x: 0, y: 0, width: 100, height: 100 }) => {
+  let state = seed;
+  const next = () => {
+    state = (state * 1664525 + 1013904223) % 2 ** 32;
+    return state / 2 ** 32;
+  };
+  return Array.from({ length: count }, () => ({ x: box.x + next() * box.width, y: box.y + next() * box.height }));
+};
+
+const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+// Points on the convex hull (Andrew's monotone chain)
+const hullSize = (points: Point[]) => {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  const half = (list: Point[]) => {
+    const chain: Point[] = [];
+    list.forEach(p => {
+      while (chain.length >= 2 && cross(chain[chain.length - 2], chain[chain.length - 1], p) <= 0) chain.pop();
+      chain.push(p);
+    });
+    return chain.length - 1;
+  };
+  return half(sorted) + half([...sorted].reverse());
+};
+
+const area = (points: Point[], [a, b, c]: number[]) => Math.abs(cross(points[a], points[b], points[c])) / 2;
+
+const isValidMesh = ({ nodes, edges, markers }: FaceMesh) =>
+  edges.every(([u, v]) => u !== v && nodes[u] && nodes[v]) && markers.every(index => nodes[index]);
+
+const BOX = { x: 200, y: 120, width: 160, height: 200 };
+
+describe('triangulate', () => {
+  it('splits a square with a centre point into four triangles', () => {
+    const points = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }, { x: 5, y: 5 }];
+    const triangles = triangulate(points);
+    expect(triangles).toHaveLength(4);
+    triangles.forEach(t => expect(t).toContain(4));
+  });
+
+  it('gives 2n - 2 - h non-degenerate triangles for points in general position', () => {
+    const points = randomPoints(68, 7);
+    const triangles = triangulate(points);
+    expect(triangles).toHaveLength(2 * points.length - 2 - hullSize(points));
+    triangles.forEach(t => expect(area(points, t)).toBeGreaterThan(1e-6));
+    // Every point is used, and only real points are
+    expect(new Set(triangles.flat())).toEqual(new Set(points.map((_, i) => i)));
+  });
+
+  it('returns nothing for fewer than three points', () => {
+    expect(triangulate([])).toEqual([]);
+    expect(triangulate([{ x: 0, y: 0 }, { x: 1, y: 1 }])).toEqual([]);
+  });
+});
+
+describe('meshFromLandmarks', () => {
+  it('maps the landmarks into the box and stays inside it', () => {
+    const landmarks = randomPoints(68, 11, BOX);
+    const mesh = meshFromLandmarks(landmarks, BOX)!;
+    expect(mesh.nodes).toHaveLength(68);
+    mesh.nodes.forEach(({ x, y }) => {
+      expect(x).toBeGreaterThanOrEqual(0);
+      expect(x).toBeLessThanOrEqual(100);
+      expect(y).toBeGreaterThanOrEqual(0);
+      expect(y).toBeLessThanOrEqual(100);
+    });
+    expect(isValidMesh(mesh)).toBe(true);
+  });
+
+  it('scales box corners to the corners of the viewBox', () => {
+    const corners = [
+      { x: BOX.x, y: BOX.y },
+      { x: BOX.x + BOX.width, y: BOX.y },
+      { x: BOX.x + BOX.width, y: BOX.y + BOX.height },
+      { x: BOX.x + BOX.width / 2, y: BOX.y + BOX.height / 4 },
+    ];
+    const { nodes } = meshFromLandmarks(corners, BOX)!;
+    expect(nodes).toEqual([{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 50, y: 25 }, { x: 100, y: 100 }]);
+  });
+
+  it('orders nodes and edges top to bottom', () => {
+    const { nodes, edges } = meshFromLandmarks(randomPoints(68, 3, BOX), BOX)!;
+    nodes.slice(1).forEach((node, i) => expect(node.y).toBeGreaterThanOrEqual(nodes[i].y));
+    const midY = ([u, v]: [number, number]) => nodes[u].y + nodes[v].y;
+    edges.slice(1).forEach((edge, i) => expect(midY(edge)).toBeGreaterThanOrEqual(midY(edges[i])));
+    // Each shared side of two triangles is one edge
+    expect(new Set(edges.map(([u, v]) => `${u}:${v}`)).size).toBe(edges.length);
+  });
+
+  it('leaves the stylised mesh in place without landmarks', () => {
+    expect(meshFromLandmarks([], BOX)).toBeNull();
+    expect(meshFromLandmarks([{ x: BOX.x, y: BOX.y }, { x: BOX.x + 1, y: BOX.y + 1 }], BOX)).toBeNull();
+    expect(isValidMesh(STATIC_FACE_MESH)).toBe(true);
+  });
+});
@@ -0,0 +1,142 @@
+// Geometry for the face mesh drawn over the snapshot while SCANNING.
+// Until the matcher has found the face's landmarks, FaceMeshIcon draws the stylised 16-node
+// mesh below. Once it has, the mesh is the Delaunay triangulation of the 68 landmark points,
+// laid out relative to the detection box so the overlay can be placed over the box itself.
+
+import { DetectionBox, FaceLandmarks } from '../types';
+
+interface MeshPoint {
+  x: number;
+  y: number;
+}
+
+export interface FaceMesh {
+  nodes: MeshPoint[];           // In the icon's 0 to 100 viewBox
+  edges: [number, number][];    // In draw-in order
+  markers: number[];            // Nodes that also get a pulsing ring
+  nodeRadius: number;
+}
+
+export const STATIC_FACE_MESH: FaceMesh = {
+  nodes: [
+    { x: 50, y: 5 },   // 0: Top
+    { x: 25, y: 20 },  // 1: Forehead L
+    { x: 75, y: 20 },  // 2: Forehead R
+    { x: 10, y: 40 },  // 3: Temple L
+    { x: 90, y: 40 },  // 4: Temple R
+    { x: 35, y: 40 },  // 5: Eye L Top
+    { x: 65, y: 40 },  // 6: Eye R Top
+    { x: 35, y: 48 },  // 7: Eye L Bot
+    { x: 65, y: 48 },  // 8: Eye R Bot
+    { x: 50, y: 35 },  // 9: Nose Bridge Top
+    { x: 50, y: 55 },  // 10: Nose Tip
+    { x: 20, y: 60 },  // 11: Cheek L
+    { x: 80, y: 60 },  // 12: Cheek R
+    { x: 35, y: 75 },  // 13: Jaw L
+    { x: 65, y: 75 },  // 14: Jaw R
+    { x: 50, y: 90 },  // 15: Chin
+  ],
+  edges: [
+    [0, 1], [0, 2], [1, 2], // Top
+    [1, 3], [2, 4], // Temples
+    [1, 5], [2, 6], // Forehead to eyes
+    [9, 5], [9, 6], [9, 1], [9, 2], // Nose bridge connections
+    [3, 11], [4, 12], // Outer face
+    [5, 7], [6, 8], // Eyes vertical
+    [3, 5], [4, 6], // Temple to eye
+    [11, 7], [12, 8], // Cheek to eye bottom
+    [10, 7], [10, 8], // Nose tip to eyes
+    [10, 11], [10, 12], // Nose to cheeks
+    [10, 13], [10, 14], // Nose to jaw
+    [11, 13], [12, 14], // Cheek to jaw
+    [13, 15], [14, 15], // Jaw to chin
+    [10, 15] // Nose to chin line
+  ],
+  markers: [0, 9, 10, 15, 3, 4],
+  nodeRadius: 1.5,
+};
+
+// Jaw ends, nose bridge, nose tip and chin in the 68-point layout
+const LANDMARK_MARKERS = [0, 16, 27, 30, 8];
+
+type Triangle = [number, number, number];
+
+// Strictly inside the circle through the triangle's corners; degenerate triangles count as
+// containing everything so they are always replaced
+const inCircumcircle = (points: MeshPoint[], [a, b, c]: Triangle, p: MeshPoint) => {
+  const { x: ax, y: ay } = points[a];
+  const { x: bx, y: by } = points[b];
+  const { x: cx, y: cy } = points[c];
+  const d = 2 * (ax * (by - cy) + bx * (cy - ay) + cx * (ay - by));
+  if (Math.abs(d) < 1e-9) return true;
+  const a2 = ax * ax + ay * ay;
+  const b2 = bx * bx + by * by;
+  const c2 = cx * cx + cy * cy;
+  const ux = (a2 * (by - cy) + b2 * (cy - ay) + c2 * (ay - by)) / d;
+  const uy = (a2 * (cx - bx) + b2 * (ax - cx) + c2 * (bx - ax)) / d;
+  return (p.x - ux) ** 2 + (p.y - uy) ** 2 < (ax - ux) ** 2 + (ay - uy) ** 2;
+};
+
+// Delaunay triangulation (Bowyer-Watson). Plenty fast for 68 points; returns point indices.
+export const triangulate = (points: MeshPoint[]): Triangle[] => {
+  if (points.length < 3) return [];
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const size = Math.max(Math.max(...xs) - minX, Math.max(...ys) - minY, 1) * 10;
+  const midX = minX + size / 20;
+  const midY = minY + size / 20;
+
+  // A triangle around every point, removed again at the end
+  const n = points.length;
+  const all = [...points, { x: midX - size, y: midY - size }, { x: midX + size, y: midY - size }, { x: midX, y: midY + size }];
+  let triangles: Triangle[] = [[n, n + 1, n + 2]];
+
+  points.forEach((point, i) => {
+    const bad = triangles.filter(t => inCircumcircle(all, t, point));
+    // The hole left by the bad triangles is bounded by the edges only one of them has
+    const edges = new Map<string, { edge: [number, number]; count: number }>();
+    bad.forEach(([a, b, c]) => {
+      ([[a, b], [b, c], [c, a]] as [number, number][]).forEach(([u, v]) => {
+        const key = u < v ? `${u}:${v}` : `${v}:${u}`;
+        edges.set(key, { edge: [u, v], count: (edges.get(key)?.count ?? 0) + 1 });
+      });
+    });
+    triangles = triangles.filter(t => !bad.includes(t));
+    edges.forEach(({ edge: [u, v], count }) => {
+      if (count === 1) triangles.push([u, v, i]);
+    });
+  });
+
+  return triangles.filter(t => t.every(index => index < n));
+};
+
+// The mesh for detected landmarks, in the 0 to 100 viewBox spanning `box`. Nodes and edges are
+// ordered top to bottom so the staggered draw-in sweeps down the face. Null when there are too
+// few landmarks to triangulate, so the caller keeps the stylised mesh.
+export const meshFromLandmarks = (landmarks: FaceLandmarks, box: DetectionBox): FaceMesh | null => {
+  if (landmarks.length < 3) return null;
+  const points = landmarks.map(p => ({
+    x: ((p.x - box.x) / box.width) * 100,
+    y: ((p.y - box.y) / box.height) * 100,
+  }));
+  const order = points.map((_, i) => i).sort((a, b) => points[a].y - points[b].y);
+  const rank = new Map(order.map((index, i) => [index, i]));
+  const nodes = order.map(index => points[index]);
+
+  const edges = new Map<string, [number, number]>();
+  triangulate(nodes).forEach(([a, b, c]) => {
+    ([[a, b], [b, c], [c, a]] as [number, number][]).forEach(([u, v]) => {
+      edges.set(u < v ? `${u}:${v}` : `${v}:${u}`, u < v ? [u, v] : [v, u]);
+    });
+  });
+  const midY = ([u, v]: [number, number]) => nodes[u].y + nodes[v].y;
+
+  return {
+    nodes,
+    edges: [...edges.values()].sort((a, b) => midY(a) - midY(b)),
+    markers: LANDMARK_MARKERS.filter(index => index < points.length).map(index => rank.get(index)!),
+    nodeRadius: 0.8,
+  };
+};
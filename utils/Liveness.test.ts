@@ -0,0 +1,35 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LIVENESS_CHALLENGES, getLivenessChallenges } from './Liveness';
+
+// The node build of face-api needs tfjs-node; nothing here runs a model
+vi.mock('@vladmandic/face-api', () => ({ tf: {} }));
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('getLivenessChallenges', () => {
+  it('asks for every challenge by default and none with off', () => {
+    expect(getLivenessChallenges('')).toEqual(LIVENESS_CHALLENGES);
+    expect(getLivenessChallenges('?liveness=off')).toEqual([]);
+  });
+
+  it('limits the challenges to the ones listed', () => {
+    expect(getLivenessChallenges('?liveness=blink,smile')).toEqual(['blink', 'smile']);
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  it('ignores unknown names with a warning', () => {
+    expect(getLivenessChallenges('?liveness=blink,smil')).toEqual(['blink']);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('smil'));
+  });
+
+  it('keeps every challenge when a typo leaves none', () => {
+    expect(getLivenessChallenges('?liveness=blnk')).toEqual(LIVENESS_CHALLENGES);
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
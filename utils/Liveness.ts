@@ -0,0 +1,178 @@
+// Active liveness check between DETECTING and CAPTURED.
+// The guest is asked to blink, turn their head or smile, and landmark tracking on the live video
+// verifies the response. Every challenge first needs a neutral reading (eyes open, facing the
+// camera, not smiling) followed by the requested change, so a still photo cannot pass even if
+// it happens to show the requested pose. Runs on the CPU backend with the weights in `/models`.
+
+import * as faceapi from '@vladmandic/face-api';
+import { DetectionBox, LivenessChallenge } from '../types';
+import { FaceDetectorOptions, DEFAULT_DETECTOR_OPTIONS, ensureCpuBackend, mirrorBox } from './FaceDetector';
+
+export const LIVENESS_CHALLENGES: LivenessChallenge[] = ['blink', 'turn-left', 'turn-right', 'smile'];
+
+// One reading of the face, in the mirrored (on-screen) view
+export interface LivenessSample {
+  box: DetectionBox;
+  eyeOpenness: number;   // Eye aspect ratio averaged over both eyes; drops sharply during a blink
+  yaw: number;           // Nose offset from the eye midpoint in eye-distances; negative = turned to the guest's left
+  smile: number;         // 0..1 'happy' expression probability
+}
+
+export interface LivenessProbe {
+  load(): Promise<void>;
+  // Resolves with a reading of the most prominent face in the live video, or null when none is found.
+  sample(video: HTMLVideoElement): Promise<LivenessSample | null>;
+}
+
+// Response thresholds. Blinks are measured against the guest's own open-eye baseline because
+// eye aspect ratios vary a lot between faces and camera angles.
+const BLINK_CLOSED_RATIO = 0.7;
+const BLINK_REOPENED_RATIO = 0.85;
+const BLINK_BASELINE_SAMPLES = 3;
+const YAW_CENTRED = 0.15;
+const YAW_TURNED = 0.35;
+const SMILE_NEUTRAL = 0.3;
+const SMILE_DETECTED = 0.8;
+
+// Once the challenge is answered, the snapshot waits for the face to hold a frontal, neutral pose
+// for LIVENESS_SETTLE_MS, so matching gets a straight-on face rather than the turned head or grin
+// that passed the check. After LIVENESS_SETTLE_TIMEOUT_MS it is taken anyway.
+export const LIVENESS_SETTLE_MS = 500;
+export const LIVENESS_SETTLE_TIMEOUT_MS = 2500;
+
+type Point = { x: number; y: number };
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Eye aspect ratio over the six landmarks of one eye
+const eyeAspectRatio = (eye: Point[]) =>
+  (distance(eye[1], eye[5]) + distance(eye[2], eye[4])) / (2 * distance(eye[0], eye[3]));
+
+const centre = (points: Point[]) => ({
+  x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+  y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+});
+
+class FaceApiLivenessProbe implements LivenessProbe {
+  private options: FaceDetectorOptions;
+  private loading: Promise<void> | null = null;
+
+  constructor(options: FaceDetectorOptions) {
+    this.options = options;
+  }
+
+  load() {
+    if (!this.loading) {
+      this.loading = (async () => {
+        await ensureCpuBackend();
+        const nets = [faceapi.nets.tinyFaceDetector, faceapi.nets.faceLandmark68Net, faceapi.nets.faceExpressionNet];
+        for (const net of nets) {
+          if (!net.isLoaded) await net.loadFromUri(this.options.modelUrl);
+        }
+      })();
+      // Allow a retry after a failed fetch instead of caching the rejection forever
+      this.loading.catch(() => { this.loading = null; });
+    }
+    return this.loading;
+  }
+
+  async sample(video: HTMLVideoElement) {
+    await this.load();
+    const result = await faceapi
+      .detectSingleFace(
+        video,
+        new faceapi.TinyFaceDetectorOptions({ inputSize: this.options.inputSize, scoreThreshold: this.options.minScore })
+      )
+      .withFaceLandmarks()
+      .withFaceExpressions();
+    if (!result) return null;
+
+    const landmarks = result.landmarks;
+    const leftEye = landmarks.getLeftEye();
+    const rightEye = landmarks.getRightEye();
+    const eyeMid = centre([centre(leftEye), centre(rightEye)]);
+    const noseTip = landmarks.positions[30];
+    const { x, y, width, height } = result.detection.box;
+
+    return {
+      box: mirrorBox({ x, y, width, height }, video.videoWidth),
+      eyeOpenness: (eyeAspectRatio(leftEye) + eyeAspectRatio(rightEye)) / 2,
+      // Landmarks are in raw camera space, so the sign is flipped to match the mirrored view
+      yaw: -(noseTip.x - eyeMid.x) / distance(centre(leftEye), centre(rightEye)),
+      smile: result.expressions.happy,
+    };
+  }
+}
+
+export const createLivenessProbe = (options: Partial<FaceDetectorOptions> = {}): LivenessProbe =>
+  new FaceApiLivenessProbe({ ...DEFAULT_DETECTOR_OPTIONS, ...options });
+
+// Decides when the guest has performed the requested action.
+export class LivenessVerifier {
+  private challenge: LivenessChallenge;
+  private neutralSeen = false;
+  private eyeBaseline = 0;
+  private openSamples = 0;
+  private eyesClosed = false;
+
+  constructor(challenge: LivenessChallenge) {
+    this.challenge = challenge;
+  }
+
+  // Returns true once the challenge has been answered.
+  update(sample: LivenessSample) {
+    switch (this.challenge) {
+      case 'blink':
+        return this.updateBlink(sample.eyeOpenness);
+      case 'turn-left':
+        if (Math.abs(sample.yaw) < YAW_CENTRED) this.neutralSeen = true;
+        return this.neutralSeen && sample.yaw < -YAW_TURNED;
+      case 'turn-right':
+        if (Math.abs(sample.yaw) < YAW_CENTRED) this.neutralSeen = true;
+        return this.neutralSeen && sample.yaw > YAW_TURNED;
+      case 'smile':
+        if (sample.smile < SMILE_NEUTRAL) this.neutralSeen = true;
+        return this.neutralSeen && sample.smile > SMILE_DETECTED;
+    }
+  }
+
+  // Facing the camera, not smiling and, when the blink baseline is known, with the eyes open
+  isNeutral(sample: LivenessSample) {
+    const eyesOpen = this.openSamples < BLINK_BASELINE_SAMPLES || sample.eyeOpenness > this.eyeBaseline * BLINK_REOPENED_RATIO;
+    return Math.abs(sample.yaw) < YAW_CENTRED && sample.smile < SMILE_NEUTRAL && eyesOpen;
+  }
+
+  private updateBlink(openness: number) {
+    if (this.openSamples < BLINK_BASELINE_SAMPLES) {
+      this.eyeBaseline = Math.max(this.eyeBaseline, openness);
+      this.openSamples++;
+      return false;
+    }
+    if (!this.eyesClosed) {
+      if (openness < this.eyeBaseline * BLINK_CLOSED_RATIO) this.eyesClosed = true;
+      else this.eyeBaseline = Math.max(this.eyeBaseline, openness);
+      return false;
+    }
+    return openness > this.eyeBaseline * BLINK_REOPENED_RATIO;
+  }
+}
+
+// Challenges from `?liveness=blink,smile`; `?liveness=off` disables the step, absent means all of them.
+// Only `off` turns the check off: unknown names are ignored, and a list with none left asks for all.
+export const getLivenessChallenges = (search = window.location.search): LivenessChallenge[] => {
+  const param = new URLSearchParams(search).get('liveness');
+  if (param === null) return LIVENESS_CHALLENGES;
+  if (param === 'off') return [];
+  const names = param.split(',');
+  const challenges = names.filter((c): c is LivenessChallenge => LIVENESS_CHALLENGES.includes(c as LivenessChallenge));
+  const unknown = names.filter(c => !challenges.includes(c as LivenessChallenge));
+  if (unknown.length > 0) console.warn(`Ignoring unknown liveness challenges '${unknown.join(', ')}'.`);
+  if (challenges.length === 0) {
+    console.warn('No known liveness challenge left; asking for all of them.');
+    return LIVENESS_CHALLENGES;
+  }
+  return challenges;
+};
+
+export const pickChallenge = (challenges: LivenessChallenge[]) =>
+  challenges[Math.floor(Math.random() * challenges.length)];
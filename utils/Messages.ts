@@ -0,0 +1,542 @@
+// Guest-facing copy of the scanner in every supported language.
+// Each locale fills in the same typed `Messages` shape, so a missing status or prompt is a
+// compile error; `findMissingMessages` also checks the catalog at startup for empty strings
+// and placeholders that don't match the English. Staff-facing text (operator panel, session
+// log, error fixes) stays in English.
+
+import { AnnouncerLine, LivenessChallenge, Locale, ProfileTag, RiskOutcome, ScannerStatus } from '../types';
+import { SCANNER_ERRORS, ScannerErrorCode } from './ScannerError';
+
+export const LOCALES: { [key in Locale]: { name: string; lang: string } } = {
+  en: { name: 'English', lang: 'en' },
+  ms: { name: 'Bahasa Melayu', lang: 'ms' },
+  zh: { name: '中文', lang: 'zh-Hans' },
+};
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const isLocale = (value: unknown): value is Locale => typeof value === 'string' && value in LOCALES;
+
+export interface OutcomeCopy {
+  label: string;     // Risk label after "RISK SCORING:"
+  heading: string;   // Final screen heading
+  caption: string;
+}
+
+export interface ErrorCopy {
+  title: string;
+  message: string;
+}
+
+export interface Messages {
+  status: { [key in ScannerStatus]: string };   // Status line under the scanner; empty hides it
+  scanning: string[];                           // Rotating lines on the SCANNING overlay
+  liveness: {
+    title: string;
+    prompts: { [key in LivenessChallenge]: string };
+    settle: string;         // Once the challenge is answered, until the snapshot is taken
+  };
+  tags: { [key in ProfileTag]: string };
+  outcomes: { [key in RiskOutcome]: OutcomeCopy };
+  errors: { [key in ScannerErrorCode]: ErrorCopy };
+  idle: {
+    ready: string;
+    startScan: string;
+    stepUp: string;         // Kiosk attract screen
+    autoStart: string;
+    language: string;       // Label of the language switcher
+  };
+  detecting: {
+    faceDetected: string;
+    searching: string;
+  };
+  camera: {
+    disconnected: string;
+    reconnecting: string;
+    status: string;
+  };
+  reveal: {
+    matchProbability: string;
+    scanPass: string;
+    riskScoring: string;    // {level}
+    unknownRisk: string;
+    name: string;           // {name}
+    position: string;       // {title}, {organisation}
+    unregistered: string;
+  };
+  finalizing: {
+    title: string;
+    wait: string;
+  };
+  countdown: string;
+  final: {
+    greeting: string;       // {name}; when no personalised greeting was generated
+    souvenir: string;
+    printBadge: string;
+    proceed: string;
+    newScan: string;
+  };
+  error: {
+    retrying: string;       // {seconds}, {attempt}, {attempts}
+    retryNow: string;
+    retry: string;
+    cancel: string;
+  };
+  unknownGuest: {
+    title: string;
+    message: string;
+    bestMatch: string;      // {percent}
+  };
+  // Default spoken lines (see utils/Announcer.ts); {name}, {title} and {organisation}
+  announcer: { [key in AnnouncerLine]: string };
+  // Alt text and labels for screen readers; never shown on screen
+  a11y: {
+    snapshot: string;       // The photo taken by the scan
+    portrait: string;       // {name}; the attendee's registered photo
+    souvenirQr: string;
+    tags: { [key in ProfileTag]: string };
+  };
+}
+
+// English error copy is the catalogue in ScannerError.ts, which the session log also uses
+const englishErrors = Object.fromEntries(
+  Object.entries(SCANNER_ERRORS).map(([code, { title, message }]) => [code, { title, message }])
+) as Messages['errors'];
+
+const en: Messages = {
+  status: {
+    [ScannerStatus.IDLE]: 'Awaiting Initialization',
+    [ScannerStatus.INITIALIZING]: 'Initializing Camera...',
+    [ScannerStatus.DETECTING]: 'Searching for Biometric Signature...',
+    [ScannerStatus.LIVENESS]: 'Verifying Liveness...',
+    [ScannerStatus.CAPTURED]: 'Signature Locked. Preparing Scan.',
+    [ScannerStatus.SCANNING]: 'Analyzing Biometric Data...',
+    [ScannerStatus.SCAN_PASSED]: 'Biometric Signature Confirmed',
+    [ScannerStatus.SUCCESS]: 'Access Granted',
+    [ScannerStatus.ERROR]: 'Access Denied. System Error.',
+    [ScannerStatus.FINALIZING]: 'Finalizing Session...',
+    [ScannerStatus.COUNTDOWN]: 'System Resetting...',
+    [ScannerStatus.ONBOARDED]: 'Onboarding Complete',
+    [ScannerStatus.WELCOME]: '',
+    [ScannerStatus.UNKNOWN_GUEST]: 'Identity Not Recognised',
+    [ScannerStatus.DENIED]: 'Referred for Review',
+  },
+  scanning: [
+    'Calibrating Quantum Sensors...',
+    'Mapping Facial Topography...',
+    'Acquiring Depth Map...',
+    ' analyzing_geometry_mesh_v2...',
+    'Cross-Referencing Neural Signatures...',
+    'Verifying DNA Markers...',
+    'Calculating Cranial Ratios...',
+    'Accessing Interpol-V Database...',
+    'Handshake Protocol Initiated...',
+    'Decompressing Biometric Hash...',
+    'Decrypting Identity Token...',
+    'Matching Facial Nodes...',
+    'Compiling Final Report...',
+  ],
+  liveness: {
+    title: 'Liveness Check',
+    prompts: {
+      'blink': 'Please blink slowly',
+      'turn-left': 'Turn your head to the left',
+      'turn-right': 'Turn your head to the right',
+      'smile': 'Give us a smile',
+    },
+    settle: 'Now look straight at the camera',
+  },
+  tags: {
+    'ekyc': 'eKYC',
+    'world-check': 'World Check',
+    'pep': 'PEP-DETECTED',
+  },
+  outcomes: {
+    LOW: { label: 'LOW', heading: 'ACCESS GRANTED', caption: 'Standard Screening Cleared' },
+    MEDIUM: { label: 'MEDIUM', heading: 'APPROVED', caption: 'Additional Checks Recorded' },
+    HIGH: { label: 'HIGH', heading: 'APPROVED', caption: 'Access Privileges Granted' },
+    DENIED: { label: 'REFERRED', heading: 'ACCESS DENIED', caption: 'Please Proceed to the Compliance Desk' },
+  },
+  errors: englishErrors,
+  idle: {
+    ready: 'System ready for biometric verification.',
+    startScan: 'Start Scan',
+    stepUp: 'Step up to the camera',
+    autoStart: 'Verification starts automatically',
+    language: 'Language',
+  },
+  detecting: {
+    faceDetected: 'Face Detected!',
+    searching: 'Searching...',
+  },
+  camera: {
+    disconnected: 'Camera disconnected',
+    reconnecting: 'Reconnecting...',
+    status: 'Camera Disconnected. Reconnecting...',
+  },
+  reveal: {
+    matchProbability: 'Match Probability',
+    scanPass: 'Scan Pass',
+    riskScoring: 'RISK SCORING: {level}',
+    unknownRisk: 'UNKNOWN',
+    name: 'Name: {name}',
+    position: 'Position: {title} {organisation}',
+    unregistered: 'Unregistered Guest',
+  },
+  finalizing: {
+    title: 'Finalizing Session...',
+    wait: 'Please wait.',
+  },
+  countdown: 'System Processing',
+  final: {
+    greeting: 'Welcome, {name}.',
+    souvenir: 'Scan to take your souvenir card home',
+    printBadge: 'Print Badge',
+    proceed: 'Proceed',
+    newScan: 'New Scan',
+  },
+  error: {
+    retrying: 'Retrying in {seconds}s (attempt {attempt} of {attempts})',
+    retryNow: 'Retry Now',
+    retry: 'Retry',
+    cancel: 'Cancel',
+  },
+  unknownGuest: {
+    title: 'UNKNOWN GUEST',
+    message: 'This face does not match any registered attendee.',
+    bestMatch: 'Best match: {percent}%',
+  },
+  announcer: {
+    identified: 'Identity confirmed. Welcome, {name}.',
+    referred: 'Identity confirmed. {name}, please proceed to the compliance desk.',
+    approved: 'Access approved. Enjoy the event.',
+    unknownGuest: 'We could not find your registration. Please see a member of staff.',
+    scanFailed: 'The scan could not be completed. Please ask a member of staff for help.',
+  },
+  a11y: {
+    snapshot: 'Your photo from the scan',
+    portrait: 'Registered photo of {name}',
+    souvenirQr: 'QR code to download your souvenir card',
+    tags: {
+      'ekyc': 'eKYC identity verification passed',
+      'world-check': 'World Check screening passed',
+      'pep': 'Politically exposed person detected',
+    },
+  },
+};
+
+const ms: Messages = {
+  status: {
+    [ScannerStatus.IDLE]: 'Menunggu Permulaan',
+    [ScannerStatus.INITIALIZING]: 'Memulakan Kamera...',
+    [ScannerStatus.DETECTING]: 'Mencari Tandatangan Biometrik...',
+    [ScannerStatus.LIVENESS]: 'Mengesahkan Kehadiran Langsung...',
+    [ScannerStatus.CAPTURED]: 'Tandatangan Dikunci. Menyediakan Imbasan.',
+    [ScannerStatus.SCANNING]: 'Menganalisis Data Biometrik...',
+    [ScannerStatus.SCAN_PASSED]: 'Tandatangan Biometrik Disahkan',
+    [ScannerStatus.SUCCESS]: 'Akses Dibenarkan',
+    [ScannerStatus.ERROR]: 'Akses Ditolak. Ralat Sistem.',
+    [ScannerStatus.FINALIZING]: 'Memuktamadkan Sesi...',
+    [ScannerStatus.COUNTDOWN]: 'Sistem Sedang Ditetapkan Semula...',
+    [ScannerStatus.ONBOARDED]: 'Pendaftaran Selesai',
+    [ScannerStatus.WELCOME]: '',
+    [ScannerStatus.UNKNOWN_GUEST]: 'Identiti Tidak Dikenali',
+    [ScannerStatus.DENIED]: 'Dirujuk untuk Semakan',
+  },
+  scanning: [
+    'Menentukur Penderia Kuantum...',
+    'Memetakan Topografi Wajah...',
+    'Memperoleh Peta Kedalaman...',
+    ' menganalisis_jaringan_geometri_v2...',
+    'Merujuk Silang Tandatangan Neural...',
+    'Mengesahkan Penanda DNA...',
+    'Mengira Nisbah Kranium...',
+    'Mengakses Pangkalan Data Interpol-V...',
+    'Protokol Jabat Tangan Dimulakan...',
+    'Menyahmampat Cincangan Biometrik...',
+    'Menyahsulit Token Identiti...',
+    'Memadankan Nod Wajah...',
+    'Menyusun Laporan Akhir...',
+  ],
+  liveness: {
+    title: 'Semakan Kehadiran',
+    prompts: {
+      'blink': 'Sila kelipkan mata perlahan-lahan',
+      'turn-left': 'Pusingkan kepala anda ke kiri',
+      'turn-right': 'Pusingkan kepala anda ke kanan',
+      'smile': 'Sila senyum',
+    },
+    settle: 'Sekarang pandang terus ke kamera',
+  },
+  tags: {
+    'ekyc': 'eKYC',
+    'world-check': 'World Check',
+    'pep': 'PEP-DIKESAN',
+  },
+  outcomes: {
+    LOW: { label: 'RENDAH', heading: 'AKSES DIBENARKAN', caption: 'Saringan Standard Lulus' },
+    MEDIUM: { label: 'SEDERHANA', heading: 'DILULUSKAN', caption: 'Semakan Tambahan Direkodkan' },
+    HIGH: { label: 'TINGGI', heading: 'DILULUSKAN', caption: 'Keistimewaan Akses Diberikan' },
+    DENIED: { label: 'DIRUJUK', heading: 'AKSES DITOLAK', caption: 'Sila ke Kaunter Pematuhan' },
+  },
+  errors: {
+    'camera-permission-denied': { title: 'Kamera Disekat', message: 'Akses kamera telah ditolak.' },
+    'camera-not-found': { title: 'Tiada Kamera Ditemui', message: 'Kamera tidak disambungkan.' },
+    'camera-in-use': { title: 'Kamera Sibuk', message: 'Kamera sedang digunakan oleh aplikasi lain.' },
+    'camera-overconstrained': { title: 'Format Kamera Tidak Disokong', message: 'Kamera tidak dapat memberikan resolusi atau kadar bingkai yang diminta.' },
+    'insecure-context': { title: 'Sambungan Selamat Diperlukan', message: 'Pelayar hanya membenarkan akses kamera pada halaman yang selamat.' },
+    'camera-unsupported': { title: 'Kamera Tidak Disokong', message: 'Pelayar ini tidak menyediakan akses kamera.' },
+    'camera-disconnected': { title: 'Kamera Terputus', message: 'Kamera telah terputus dan tidak bersambung semula.' },
+    'video-source-failed': { title: 'Sumber Video Tidak Tersedia', message: 'Video atau imej ujian tidak dapat dimainkan.' },
+    'model-load-failed': { title: 'Model Gagal Dimuatkan', message: 'Model wajah tidak dapat dimuatkan.' },
+    'liveness-timeout': { title: 'Semakan Kehadiran Tamat Masa', message: 'Sila ikut arahan pada skrin dan cuba lagi.' },
+    'operator-stopped': { title: 'Imbasan Dihentikan', message: 'Imbasan telah dihentikan oleh pengendali.' },
+    'unknown': { title: 'Ralat Sistem', message: 'Berlaku masalah.' },
+  },
+  idle: {
+    ready: 'Sistem sedia untuk pengesahan biometrik.',
+    startScan: 'Mula Imbas',
+    stepUp: 'Sila hampiri kamera',
+    autoStart: 'Pengesahan bermula secara automatik',
+    language: 'Bahasa',
+  },
+  detecting: {
+    faceDetected: 'Wajah Dikesan!',
+    searching: 'Mencari...',
+  },
+  camera: {
+    disconnected: 'Kamera terputus',
+    reconnecting: 'Menyambung semula...',
+    status: 'Kamera Terputus. Menyambung Semula...',
+  },
+  reveal: {
+    matchProbability: 'Kebarangkalian Padanan',
+    scanPass: 'Imbasan Lulus',
+    riskScoring: 'SKOR RISIKO: {level}',
+    unknownRisk: 'TIDAK DIKETAHUI',
+    name: 'Nama: {name}',
+    position: 'Jawatan: {title} {organisation}',
+    unregistered: 'Tetamu Tidak Berdaftar',
+  },
+  finalizing: {
+    title: 'Memuktamadkan Sesi...',
+    wait: 'Sila tunggu.',
+  },
+  countdown: 'Sistem Sedang Memproses',
+  final: {
+    greeting: 'Selamat datang, {name}.',
+    souvenir: 'Imbas untuk membawa pulang kad cenderamata anda',
+    printBadge: 'Cetak Lencana',
+    proceed: 'Teruskan',
+    newScan: 'Imbasan Baharu',
+  },
+  error: {
+    retrying: 'Mencuba semula dalam {seconds}s (cubaan {attempt} daripada {attempts})',
+    retryNow: 'Cuba Sekarang',
+    retry: 'Cuba Lagi',
+    cancel: 'Batal',
+  },
+  unknownGuest: {
+    title: 'TETAMU TIDAK DIKENALI',
+    message: 'Wajah ini tidak sepadan dengan mana-mana peserta berdaftar.',
+    bestMatch: 'Padanan terbaik: {percent}%',
+  },
+  announcer: {
+    identified: 'Identiti disahkan. Selamat datang, {name}.',
+    referred: 'Identiti disahkan. {name}, sila ke kaunter pematuhan.',
+    approved: 'Akses diluluskan. Selamat menikmati acara.',
+    unknownGuest: 'Pendaftaran anda tidak ditemui. Sila berjumpa dengan kakitangan kami.',
+    scanFailed: 'Imbasan tidak dapat diselesaikan. Sila minta bantuan kakitangan kami.',
+  },
+  a11y: {
+    snapshot: 'Foto anda daripada imbasan',
+    portrait: 'Foto berdaftar {name}',
+    souvenirQr: 'Kod QR untuk memuat turun kad cenderamata anda',
+    tags: {
+      'ekyc': 'Pengesahan identiti eKYC lulus',
+      'world-check': 'Saringan World Check lulus',
+      'pep': 'Orang berkepentingan politik dikesan',
+    },
+  },
+};
+
+const zh: Messages = {
+  status: {
+    [ScannerStatus.IDLE]: '等待初始化',
+    [ScannerStatus.INITIALIZING]: '正在启动摄像头...',
+    [ScannerStatus.DETECTING]: '正在搜索生物特征...',
+    [ScannerStatus.LIVENESS]: '正在进行活体验证...',
+    [ScannerStatus.CAPTURED]: '特征已锁定，准备扫描。',
+    [ScannerStatus.SCANNING]: '正在分析生物特征数据...',
+    [ScannerStatus.SCAN_PASSED]: '生物特征已确认',
+    [ScannerStatus.SUCCESS]: '允许进入',
+    [ScannerStatus.ERROR]: '拒绝访问，系统错误。',
+    [ScannerStatus.FINALIZING]: '正在完成会话...',
+    [ScannerStatus.COUNTDOWN]: '系统重置中...',
+    [ScannerStatus.ONBOARDED]: '登记完成',
+    [ScannerStatus.WELCOME]: '',
+    [ScannerStatus.UNKNOWN_GUEST]: '身份无法识别',
+    [ScannerStatus.DENIED]: '已转交审核',
+  },
+  scanning: [
+    '正在校准量子传感器...',
+    '正在绘制面部地形...',
+    '正在获取深度图...',
+    ' analyzing_geometry_mesh_v2...',
+    '正在交叉比对神经特征...',
+    '正在验证DNA标记...',
+    '正在计算颅骨比例...',
+    '正在访问Interpol-V数据库...',
+    '握手协议已启动...',
+    '正在解压生物特征哈希...',
+    '正在解密身份令牌...',
+    '正在匹配面部节点...',
+    '正在生成最终报告...',
+  ],
+  liveness: {
+    title: '活体检测',
+    prompts: {
+      'blink': '请慢慢眨眼',
+      'turn-left': '请向左转头',
+      'turn-right': '请向右转头',
+      'smile': '请微笑',
+    },
+    settle: '现在请直视摄像头',
+  },
+  tags: {
+    'ekyc': 'eKYC',
+    'world-check': 'World Check',
+    'pep': '检测到PEP',
+  },
+  outcomes: {
+    LOW: { label: '低', heading: '允许进入', caption: '标准筛查已通过' },
+    MEDIUM: { label: '中', heading: '已批准', caption: '已记录附加核查' },
+    HIGH: { label: '高', heading: '已批准', caption: '已授予访问权限' },
+    DENIED: { label: '已转介', heading: '拒绝进入', caption: '请前往合规服务台' },
+  },
+  errors: {
+    'camera-permission-denied': { title: '摄像头被阻止', message: '摄像头访问被拒绝。' },
+    'camera-not-found': { title: '未找到摄像头', message: '摄像头未连接。' },
+    'camera-in-use': { title: '摄像头忙碌', message: '摄像头正被其他应用程序使用。' },
+    'camera-overconstrained': { title: '摄像头格式不受支持', message: '摄像头无法提供所需的分辨率或帧率。' },
+    'insecure-context': { title: '需要安全连接', message: '浏览器仅允许在安全页面上访问摄像头。' },
+    'camera-unsupported': { title: '不支持摄像头', message: '此浏览器不提供摄像头访问。' },
+    'camera-disconnected': { title: '摄像头已断开', message: '摄像头已断开且未恢复连接。' },
+    'video-source-failed': { title: '视频源不可用', message: '无法播放测试视频或图像。' },
+    'model-load-failed': { title: '模型加载失败', message: '无法加载人脸模型。' },
+    'liveness-timeout': { title: '活体检测超时', message: '请按照屏幕提示操作后重试。' },
+    'operator-stopped': { title: '扫描已停止', message: '扫描已被操作员停止。' },
+    'unknown': { title: '系统错误', message: '出现问题。' },
+  },
+  idle: {
+    ready: '系统已准备好进行生物特征验证。',
+    startScan: '开始扫描',
+    stepUp: '请走到摄像头前',
+    autoStart: '验证将自动开始',
+    language: '语言',
+  },
+  detecting: {
+    faceDetected: '已检测到人脸！',
+    searching: '搜索中...',
+  },
+  camera: {
+    disconnected: '摄像头已断开',
+    reconnecting: '正在重新连接...',
+    status: '摄像头已断开，正在重新连接...',
+  },
+  reveal: {
+    matchProbability: '匹配概率',
+    scanPass: '扫描通过',
+    riskScoring: '风险评级：{level}',
+    unknownRisk: '未知',
+    name: '姓名：{name}',
+    position: '职位：{title} {organisation}',
+    unregistered: '未登记访客',
+  },
+  finalizing: {
+    title: '正在完成会话...',
+    wait: '请稍候。',
+  },
+  countdown: '系统处理中',
+  final: {
+    greeting: '欢迎您，{name}。',
+    souvenir: '扫码带走您的纪念卡',
+    printBadge: '打印胸卡',
+    proceed: '继续',
+    newScan: '重新扫描',
+  },
+  error: {
+    retrying: '{seconds}秒后重试（第{attempt}次，共{attempts}次）',
+    retryNow: '立即重试',
+    retry: '重试',
+    cancel: '取消',
+  },
+  unknownGuest: {
+    title: '未知访客',
+    message: '此面孔与任何已登记的参会者均不匹配。',
+    bestMatch: '最佳匹配：{percent}%',
+  },
+  announcer: {
+    identified: '身份已确认。欢迎您，{name}。',
+    referred: '身份已确认。{name}，请前往合规服务台。',
+    approved: '准许进入。祝您参会愉快。',
+    unknownGuest: '未找到您的登记信息。请联系工作人员。',
+    scanFailed: '扫描未能完成。请向工作人员寻求帮助。',
+  },
+  a11y: {
+    snapshot: '您的扫描照片',
+    portrait: '{name}的登记照片',
+    souvenirQr: '下载纪念卡的二维码',
+    tags: {
+      'ekyc': 'eKYC身份验证已通过',
+      'world-check': 'World Check筛查已通过',
+      'pep': '检测到政治公众人物',
+    },
+  },
+};
+
+export const MESSAGES: { [key in Locale]: Messages } = { en, ms, zh };
+
+// Fills {placeholders} in a message
+export const format = (template: string, values: Record<string, string | number>) =>
+  template.replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? String(values[key]) : match));
+
+const placeholders = (text: string) => (text.match(/\{\w+\}/g) ?? []).sort().join(' ');
+
+// Every problem in the catalog: a status without a line, a message missing or left empty where
+// the English has text, or placeholders that differ from the English. Empty when complete.
+export const findMissingMessages = (catalog: { [key in Locale]: Messages } = MESSAGES) => {
+  const problems: string[] = [];
+  const compare = (reference: unknown, value: unknown, path: string) => {
+    if (typeof reference === 'string') {
+      if (typeof value !== 'string') problems.push(`${path} is missing`);
+      else if (reference !== '' && value.trim() === '') problems.push(`${path} is empty`);
+      else if (placeholders(reference) !== placeholders(value)) problems.push(`${path} should use ${placeholders(reference) || 'no placeholders'}`);
+    } else if (Array.isArray(reference)) {
+      if (!Array.isArray(value) || value.length === 0) problems.push(`${path} must be a non-empty list`);
+    } else if (typeof reference === 'object' && reference !== null) {
+      if (typeof value !== 'object' || value === null) problems.push(`${path} is missing`);
+      else Object.entries(reference).forEach(([key, child]) => compare(child, (value as Record<string, unknown>)[key], `${path}.${key}`));
+    }
+  };
+  (Object.keys(catalog) as Locale[]).forEach(locale => {
+    const messages = catalog[locale];
+    Object.values(ScannerStatus).forEach(status => {
+      if (typeof messages.status?.[status] !== 'string') problems.push(`${locale}.status.${status} is missing`);
+    });
+    if (locale !== DEFAULT_LOCALE) compare(catalog[DEFAULT_LOCALE], messages, locale);
+  });
+  // A status missing outside English is caught by both checks
+  return [...new Set(problems)];
+};
+
+// `?lang=ms` starts the kiosk in another language than the event's
+export const getLocaleOverride = (search = window.location.search) => {
+  const param = new URLSearchParams(search).get('lang');
+  if (param === null) return null;
+  if (!isLocale(param)) {
+    console.warn(`Ignoring unknown language '${param}'.`);
+    return null;
+  }
+  return param;
+};
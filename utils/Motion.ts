@@ -0,0 +1,33 @@
+// Reduced motion for guests whose system asks for less movement (prefers-reduced-motion).
+// While it applies, App sets the `reduce-motion` class on <html>: the overlays in index.css
+// fade in instead of flying, drawing or pulsing, and the scripted effects (data streams, EDD
+// typing, particles) hold still. `?motion=reduced` or `?motion=full` overrides the system
+// setting, e.g. to check the still variant on a kiosk without changing its OS settings.
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+export const REDUCED_MOTION_CLASS = 'reduce-motion';
+
+// `?motion=reduced` forces the still variant and `?motion=full` the animated one; null follows the system
+export const getMotionOverride = (search = window.location.search) => {
+  const param = new URLSearchParams(search).get('motion');
+  if (param === null) return null;
+  if (param !== 'reduced' && param !== 'full') {
+    console.warn(`Ignoring unknown motion setting '${param}'.`);
+    return null;
+  }
+  return param === 'reduced';
+};
+
+export const prefersReducedMotion = (override = getMotionOverride()) =>
+  override ?? (typeof window.matchMedia === 'function' && window.matchMedia(REDUCED_MOTION_QUERY).matches);
+
+// Reports changes to the system setting (it can be switched while the kiosk runs).
+// Nothing is reported while the URL overrides it. Returns a function that stops watching.
+export const watchReducedMotion = (onChange: (reduced: boolean) => void, override = getMotionOverride()) => {
+  if (override !== null || typeof window.matchMedia !== 'function') return () => {};
+  const query = window.matchMedia(REDUCED_MOTION_QUERY);
+  const handleChange = () => onChange(query.matches);
+  query.addEventListener('change', handleChange);
+  return () => query.removeEventListener('change', handleChange);
+};
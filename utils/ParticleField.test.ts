@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { NeighbourGrid } from './ParticleField';
+
+type Point = { x: number; y: number };
+
+const WIDTH = 1280;
+const HEIGHT = 720;
+const RADIUS = 150;
+
+// Deterministic pseudo-random points (a small LCG), so failures reproduce. Some land off the
+// canvas, as drifting particles do before they respawn.
+const randomPoints = (count: number, seed: number) => {
+  let state = seed;
+  const next = () => {
+    state = (state * 1664525 + 1013904223) % 2 ** 32;
+    return state / 2 ** 32;
+  };
+  return Array.from({ length: count }, () => ({ x: next() * (WIDTH + 100) - 50, y: next() * (HEIGHT + 100) - 50 }));
+};
+
+const key = (i: number, j: number) => (i < j ? `${i}-${j}` : `${j}-${i}`);
+
+const bruteForcePairs = (points: Point[], radius: number) => {
+  const pairs = new Set<string>();
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      if ((points[j].x - points[i].x) ** 2 + (points[j].y - points[i].y) ** 2 < radius * radius) pairs.add(key(i, j));
+    }
+  }
+  return pairs;
+};
+
+const gridPairs = (points: Point[], radius: number, width = WIDTH, height = HEIGHT) => {
+  const grid = new NeighbourGrid(radius);
+  grid.resize(width, height);
+  const pairs: string[] = [];
+  grid.forEachPair(points, (i, j) => pairs.push(key(i, j)));
+  return pairs;
+};
+
+describe('NeighbourGrid', () => {
+  it.each([1, 7, 42])('finds the same pairs as a brute-force scan (seed %i)', seed => {
+    const points = randomPoints(300, seed);
+    const expected = bruteForcePairs(points, RADIUS);
+
+    expect(expected.size).toBeGreaterThan(0);
+    expect(new Set(gridPairs(points, RADIUS))).toEqual(expected);
+  });
+
+  it('visits each pair once, so each line is drawn once', () => {
+    const pairs = gridPairs(randomPoints(300, 7), RADIUS);
+
+    expect(new Set(pairs).size).toBe(pairs.length);
+  });
+
+  it('passes the squared distance of each pair', () => {
+    const points = [{ x: 10, y: 10 }, { x: 40, y: 50 }, { x: 400, y: 400 }];
+    const grid = new NeighbourGrid(RADIUS);
+    grid.resize(WIDTH, HEIGHT);
+    const visits: [number, number, number][] = [];
+    grid.forEachPair(points, (i, j, distanceSquared) => visits.push([i, j, distanceSquared]));
+
+    expect(visits).toEqual([[0, 1, 2500]]);
+  });
+
+  it('finds every pair on a canvas smaller than one cell', () => {
+    const points = randomPoints(40, 3);
+
+    expect(new Set(gridPairs(points, RADIUS, 100, 100))).toEqual(bruteForcePairs(points, RADIUS));
+  });
+
+  it('rebuilds its cells on every call', () => {
+    const grid = new NeighbourGrid(RADIUS);
+    grid.resize(WIDTH, HEIGHT);
+    const points = [{ x: 10, y: 10 }, { x: 20, y: 20 }];
+    let visits = 0;
+    grid.forEachPair(points, () => visits++);
+    grid.forEachPair(points, () => visits++);
+
+    expect(visits).toBe(2);
+  });
+});
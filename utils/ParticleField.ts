@@ -0,0 +1,479 @@
+// The particle network behind the scanner (components/ParticleBackground.tsx).
+// Particles drift and link to their neighbours with lines that fade with distance. Neighbours
+// are found through a spatial hash with cells one line length wide, so each particle is only
+// compared with the particles in its own and adjacent cells, and each pair is drawn once.
+// The canvas is sized in device pixels for sharp lines on HiDPI screens, and the particle
+// count adapts so a frame of particles stays within TARGET_FRAME_MS: on a 4K kiosk that is
+// busy with the camera feed the network thins out rather than stealing frames from it.
+// Its colours and motion follow the scanner through the modes in ParticleModes.ts, eased from
+// one look into the next. The same renderer runs on the main thread or in a worker on an
+// OffscreenCanvas (ParticleWorker.ts).
+
+import { PARTICLE_MODES, ParticleFocus, ParticleLook, ParticleMode, Rgb } from './ParticleModes';
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export interface ParticleCanvasSize {
+  width: number;        // CSS pixels
+  height: number;
+  pixelRatio: number;   // window.devicePixelRatio
+}
+
+// Messages from ParticleBackground to the worker
+export type ParticleWorkerMessage =
+  | { type: 'start'; canvas: OffscreenCanvas; size: ParticleCanvasSize; reducedMotion: boolean }
+  | { type: 'resize'; size: ParticleCanvasSize }
+  | { type: 'pause'; paused: boolean }
+  | { type: 'reducedMotion'; reducedMotion: boolean }
+  | { type: 'mode'; mode: ParticleMode; focus: ParticleFocus | null };
+
+export type ParticleRenderMode = 'main' | 'worker';
+
+const PARTICLE_RADIUS = 3;           // CSS pixels
+const PARTICLE_OPACITY = 0.7;
+const MAX_VELOCITY = 0.5;            // CSS pixels per 60 Hz frame, before the mode's speed
+const LINE_LENGTH = 150;             // CSS pixels
+const PARTICLE_LIFE = 6;             // Seconds before a particle respawns elsewhere
+
+// The design density: 120 particles on a 1080p screen. The count never grows past it.
+const PARTICLES_PER_PIXEL = 120 / (1920 * 1080);
+const MIN_PARTICLES = 30;
+const MAX_PARTICLES = 600;
+// Time one frame of particles (moving and drawing) may take on the thread that renders it
+export const TARGET_FRAME_MS = 4;
+const ADJUST_INTERVAL_MS = 500;
+// Above 2x the extra pixels cost more than they show
+const MAX_PIXEL_RATIO = 2;
+// Lines are batched into this many opacity steps, one stroke per step
+const OPACITY_LEVELS = 12;
+// A long stall (e.g. a hidden tab) resumes where it left off instead of jumping
+const MAX_STEP_FRAMES = 3;
+const FRAME_MS = 1000 / 60;
+
+// Mode changes ease in with this time constant, in 60 Hz frames
+const EASE_FRAMES = 24;
+// Converging particles settle on a ring this much wider than the focus
+const RING_SCALE = 1.15;
+const ATTRACTION_RATE = 0.03;
+// Capture pulse: a ring sweeping out from the frame, nudging the particles it passes
+const PULSE_FRAMES = 60;
+const PULSE_SPEED = 14;
+const PULSE_BAND = 40;
+const PULSE_PUSH = 0.3;
+// Onboarding burst: particles near the frame are flung outward, then slow back to their drift
+const BURST_SPEED = 9;
+const KICK_DECAY = 0.96;
+
+interface Particle {
+  x: number;
+  y: number;
+  velocityX: number;
+  velocityY: number;
+  kickX: number;   // Extra velocity from a pulse or burst, fading away
+  kickY: number;
+  life: number;    // 60 Hz frames left
+}
+
+// The look currently on screen, part way between two modes
+interface CurrentLook {
+  particleColor: Rgb;
+  lineColor: Rgb;
+  speed: number;
+  attraction: number;
+}
+
+const lookOf = ({ particleColor, lineColor, speed, attraction }: ParticleLook): CurrentLook => ({
+  particleColor: [...particleColor],
+  lineColor: [...lineColor],
+  speed,
+  attraction,
+});
+
+const rgba = ([r, g, b]: Rgb, alpha: number) => `rgba(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)}, ${alpha})`;
+
+const designCount = ({ width, height }: ParticleCanvasSize) =>
+  Math.round(Math.min(MAX_PARTICLES, Math.max(MIN_PARTICLES, width * height * PARTICLES_PER_PIXEL)));
+
+// Spatial hash over the canvas with cells `radius` wide. Points outside the canvas go in the
+// nearest edge cell, which only moves them further from the cells they are not compared with.
+export class NeighbourGrid {
+  private cols = 1;
+  private rows = 1;
+  // Point indices per cell, rebuilt on every forEachPair
+  private cells: number[][] = [[]];
+
+  constructor(private radius: number) {}
+
+  resize(width: number, height: number) {
+    this.cols = Math.max(1, Math.ceil(width / this.radius));
+    this.rows = Math.max(1, Math.ceil(height / this.radius));
+    this.cells = Array.from({ length: this.cols * this.rows }, () => []);
+  }
+
+  // Calls `visit` once for every pair of points closer than the radius, with i before j in the cell order
+  forEachPair(points: readonly { x: number; y: number }[], visit: (i: number, j: number, distanceSquared: number) => void) {
+    const { cells, cols, rows, radius } = this;
+    const radiusSquared = radius * radius;
+
+    cells.forEach(cell => { cell.length = 0; });
+    points.forEach((p, i) => {
+      const col = Math.min(cols - 1, Math.max(0, Math.floor(p.x / radius)));
+      const row = Math.min(rows - 1, Math.max(0, Math.floor(p.y / radius)));
+      cells[row * cols + col].push(i);
+    });
+
+    const link = (i: number, j: number) => {
+      const dx = points[j].x - points[i].x;
+      const dy = points[j].y - points[i].y;
+      const distanceSquared = dx * dx + dy * dy;
+      if (distanceSquared < radiusSquared) visit(i, j, distanceSquared);
+    };
+
+    // Each cell against itself and the four neighbours ahead of it, so every pair comes up once
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const cell = cells[row * cols + col];
+        for (let a = 0; a < cell.length; a++) {
+          for (let b = a + 1; b < cell.length; b++) link(cell[a], cell[b]);
+        }
+        const neighbours = [
+          col + 1 < cols ? cells[row * cols + col + 1] : null,
+          row + 1 < rows && col > 0 ? cells[(row + 1) * cols + col - 1] : null,
+          row + 1 < rows ? cells[(row + 1) * cols + col] : null,
+          row + 1 < rows && col + 1 < cols ? cells[(row + 1) * cols + col + 1] : null,
+        ];
+        for (const neighbour of neighbours) {
+          if (!neighbour) continue;
+          for (const i of cell) for (const j of neighbour) link(i, j);
+        }
+      }
+    }
+  }
+}
+
+class ParticleField {
+  private particles: Particle[] = [];
+  private width = 0;
+  private height = 0;
+  private grid = new NeighbourGrid(LINE_LENGTH);
+  // Line endpoints per opacity step, rebuilt every frame
+  private segments: number[][] = Array.from({ length: OPACITY_LEVELS }, () => []);
+  private target: ParticleLook = PARTICLE_MODES.drift;
+  private look = lookOf(PARTICLE_MODES.drift);
+  private focus: ParticleFocus | null = null;
+  // Frames since the capture pulse started; null when none is running
+  private pulse: number | null = null;
+
+  constructor(private ctx: Context2D) {}
+
+  get count() {
+    return this.particles.length;
+  }
+
+  resize({ width, height, pixelRatio }: ParticleCanvasSize) {
+    const ratio = Math.min(MAX_PIXEL_RATIO, Math.max(1, pixelRatio));
+    this.width = width;
+    this.height = height;
+    this.ctx.canvas.width = Math.round(width * ratio);
+    this.ctx.canvas.height = Math.round(height * ratio);
+    // Everything below draws in CSS pixels
+    this.ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    this.grid.resize(width, height);
+  }
+
+  setCount(count: number) {
+    while (this.particles.length < count) this.particles.push(this.createParticle());
+    this.particles.length = count;
+  }
+
+  // A fresh particle somewhere on the canvas, partway through its life
+  private createParticle(): Particle {
+    return {
+      x: Math.random() * this.width,
+      y: Math.random() * this.height,
+      velocityX: Math.random() * (MAX_VELOCITY * 2) - MAX_VELOCITY,
+      velocityY: Math.random() * (MAX_VELOCITY * 2) - MAX_VELOCITY,
+      kickX: 0,
+      kickY: 0,
+      life: Math.random() * PARTICLE_LIFE * 60,
+    };
+  }
+
+  // Eases toward a mode's look; `focus` is where the scanner frame is, if known.
+  // The mode's effect starts right away.
+  setMode(mode: ParticleMode, focus: ParticleFocus | null) {
+    const target = PARTICLE_MODES[mode];
+    this.focus = focus;
+    if (target === this.target) return;
+    this.target = target;
+    if (!focus) return;
+    if (target.effect === 'pulse') this.pulse = 0;
+    if (target.effect === 'burst') {
+      const reach = Math.max(this.width, this.height) / 2;
+      for (const p of this.particles) {
+        const dx = p.x - focus.x;
+        const dy = p.y - focus.y;
+        const distance = Math.hypot(dx, dy) || 1;
+        const strength = BURST_SPEED * Math.max(0.1, 1 - distance / reach);
+        p.kickX += (dx / distance) * strength;
+        p.kickY += (dy / distance) * strength;
+      }
+    }
+  }
+
+  // Jumps straight to the target look, without effects (reduced motion)
+  settle() {
+    this.look = lookOf(this.target);
+    this.pulse = null;
+    for (const p of this.particles) {
+      p.kickX = 0;
+      p.kickY = 0;
+    }
+  }
+
+  private ease(frames: number) {
+    const k = 1 - Math.exp(-frames / EASE_FRAMES);
+    const { look, target } = this;
+    for (let c = 0; c < 3; c++) {
+      look.particleColor[c] += (target.particleColor[c] - look.particleColor[c]) * k;
+      look.lineColor[c] += (target.lineColor[c] - look.lineColor[c]) * k;
+    }
+    look.speed += (target.speed - look.speed) * k;
+    look.attraction += (target.attraction - look.attraction) * k;
+  }
+
+  // Advances the field by `frames` 60 Hz frames (fractional on faster or slower displays)
+  step(frames: number) {
+    const { width, height, focus } = this;
+    this.ease(frames);
+    const { speed, attraction } = this.look;
+    const pull = focus && attraction > 0.01 ? Math.min(1, attraction * ATTRACTION_RATE * frames) : 0;
+    const pulseRadius = focus && this.pulse !== null ? focus.radius + this.pulse * PULSE_SPEED : null;
+    const decay = KICK_DECAY ** frames;
+
+    for (const p of this.particles) {
+      if (p.life < 1) Object.assign(p, this.createParticle());
+      p.life -= frames;
+
+      if (focus && (pull > 0 || pulseRadius !== null)) {
+        const dx = p.x - focus.x;
+        const dy = p.y - focus.y;
+        const distance = Math.hypot(dx, dy) || 1;
+        // Toward the nearest point on the ring around the frame
+        if (pull > 0) {
+          const ring = focus.radius * RING_SCALE;
+          p.x += (focus.x + (dx / distance) * ring - p.x) * pull;
+          p.y += (focus.y + (dy / distance) * ring - p.y) * pull;
+        }
+        if (pulseRadius !== null && Math.abs(distance - pulseRadius) < PULSE_BAND) {
+          p.kickX += (dx / distance) * PULSE_PUSH * frames;
+          p.kickY += (dy / distance) * PULSE_PUSH * frames;
+        }
+      }
+
+      // Bounce off the edges
+      const velocityX = p.velocityX * speed + p.kickX;
+      const velocityY = p.velocityY * speed + p.kickY;
+      if ((p.x + velocityX * frames > width && velocityX > 0) || (p.x + velocityX * frames < 0 && velocityX < 0)) {
+        p.velocityX *= -1;
+        p.kickX *= -1;
+      }
+      if ((p.y + velocityY * frames > height && velocityY > 0) || (p.y + velocityY * frames < 0 && velocityY < 0)) {
+        p.velocityY *= -1;
+        p.kickY *= -1;
+      }
+      p.x += (p.velocityX * speed + p.kickX) * frames;
+      p.y += (p.velocityY * speed + p.kickY) * frames;
+      p.kickX *= decay;
+      p.kickY *= decay;
+    }
+
+    if (this.pulse !== null) {
+      this.pulse += frames;
+      if (this.pulse >= PULSE_FRAMES) this.pulse = null;
+    }
+  }
+
+  draw() {
+    const { ctx, particles, look, focus } = this;
+    ctx.clearRect(0, 0, this.width, this.height);
+    this.drawLines();
+
+    ctx.beginPath();
+    for (const p of particles) {
+      ctx.moveTo(p.x + PARTICLE_RADIUS, p.y);
+      ctx.arc(p.x, p.y, PARTICLE_RADIUS, 0, Math.PI * 2);
+    }
+    ctx.fillStyle = rgba(look.particleColor, PARTICLE_OPACITY);
+    ctx.fill();
+
+    if (focus && this.pulse !== null) {
+      const progress = this.pulse / PULSE_FRAMES;
+      ctx.beginPath();
+      ctx.arc(focus.x, focus.y, focus.radius + this.pulse * PULSE_SPEED, 0, Math.PI * 2);
+      ctx.lineWidth = 2;
+      ctx.strokeStyle = rgba(look.particleColor, 0.8 * (1 - progress));
+      ctx.stroke();
+    }
+  }
+
+  private drawLines() {
+    const { ctx, particles, segments } = this;
+    const maxLength = LINE_LENGTH;
+
+    segments.forEach(segment => { segment.length = 0; });
+    this.grid.forEachPair(particles, (i, j, lengthSquared) => {
+      const a = particles[i];
+      const b = particles[j];
+      const opacity = 1 - Math.sqrt(lengthSquared) / maxLength;
+      segments[Math.min(OPACITY_LEVELS - 1, Math.floor(opacity * OPACITY_LEVELS))].push(a.x, a.y, b.x, b.y);
+    });
+
+    ctx.lineWidth = 0.5;
+    segments.forEach((segment, level) => {
+      if (segment.length === 0) return;
+      // Lines used to be drawn once from each end; compounding the opacity keeps their look
+      const opacity = (level + 0.5) / OPACITY_LEVELS;
+      ctx.strokeStyle = rgba(this.look.lineColor, 1 - (1 - opacity) ** 2);
+      ctx.beginPath();
+      for (let k = 0; k < segment.length; k += 4) {
+        ctx.moveTo(segment[k], segment[k + 1]);
+        ctx.lineTo(segment[k + 2], segment[k + 3]);
+      }
+      ctx.stroke();
+    });
+  }
+}
+
+// Workers without requestAnimationFrame fall back to a 60 Hz timer
+const requestFrame = (callback: (time: number) => void) => {
+  if (typeof requestAnimationFrame === 'function') {
+    const id = requestAnimationFrame(callback);
+    return () => cancelAnimationFrame(id);
+  }
+  const id = setTimeout(() => callback(performance.now()), FRAME_MS);
+  return () => clearTimeout(id);
+};
+
+export interface ParticleRenderer {
+  resize(size: ParticleCanvasSize): void;
+  // Hidden tab: no frames at all until resumed
+  setPaused(paused: boolean): void;
+  // One still frame instead of the animation (see utils/Motion.ts)
+  setReducedMotion(reducedMotion: boolean): void;
+  // Eases into a mode; a still field switches at once
+  setMode(mode: ParticleMode, focus: ParticleFocus | null): void;
+  stop(): void;
+}
+
+// Starts drawing the particle network on a canvas (or a worker's OffscreenCanvas)
+export const startParticleRenderer = (
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  size: ParticleCanvasSize,
+  reducedMotion: boolean
+): ParticleRenderer => {
+  const ctx = canvas.getContext('2d') as Context2D | null;
+  if (!ctx) return { resize() {}, setPaused() {}, setReducedMotion() {}, setMode() {}, stop() {} };
+
+  const field = new ParticleField(ctx);
+  let countLimit = designCount(size);
+  let paused = false;
+  let still = reducedMotion;
+  let cancelFrame: (() => void) | null = null;
+  let lastFrame: number | null = null;
+  let lastAdjust = 0;
+  let frameCost = 0;   // Moving average of the time a frame takes, in ms
+
+  field.resize(size);
+  field.setCount(countLimit);
+
+  // Thins the field while frames run over budget, and fills it back up to the design density once there is room
+  const adjustCount = (now: number) => {
+    if (now - lastAdjust < ADJUST_INTERVAL_MS) return;
+    lastAdjust = now;
+    if (frameCost > TARGET_FRAME_MS * 1.1) {
+      field.setCount(Math.max(MIN_PARTICLES, Math.floor(field.count * 0.85)));
+    } else if (frameCost < TARGET_FRAME_MS * 0.6 && field.count < countLimit) {
+      field.setCount(Math.min(countLimit, Math.ceil(field.count * 1.05) + 1));
+    }
+  };
+
+  const frame = (time: number) => {
+    cancelFrame = null;
+    const frames = lastFrame === null ? 1 : Math.min(MAX_STEP_FRAMES, (time - lastFrame) / FRAME_MS);
+    lastFrame = time;
+
+    const started = performance.now();
+    field.step(frames);
+    field.draw();
+    const cost = performance.now() - started;
+    frameCost = frameCost === 0 ? cost : frameCost * 0.9 + cost * 0.1;
+    adjustCount(started);
+
+    cancelFrame = requestFrame(frame);
+  };
+
+  const update = () => {
+    cancelFrame?.();
+    cancelFrame = null;
+    lastFrame = null;
+    if (paused) return;
+    if (still) {
+      field.settle();
+      field.draw();
+    } else {
+      cancelFrame = requestFrame(frame);
+    }
+  };
+
+  update();
+  return {
+    resize(next) {
+      countLimit = designCount(next);
+      field.resize(next);
+      if (field.count > countLimit) field.setCount(countLimit);
+      // Resizing clears the canvas; a still field has to be drawn again
+      if (still && !paused) field.draw();
+    },
+    setPaused(next) {
+      paused = next;
+      update();
+    },
+    setReducedMotion(next) {
+      still = next;
+      update();
+    },
+    setMode(mode, focus) {
+      field.setMode(mode, focus);
+      if (still && !paused) {
+        field.settle();
+        field.draw();
+      }
+    },
+    stop() {
+      paused = true;
+      update();
+    },
+  };
+};
+
+export const supportsOffscreenCanvas = () =>
+  typeof HTMLCanvasElement !== 'undefined' &&
+  'transferControlToOffscreen' in HTMLCanvasElement.prototype &&
+  typeof Worker !== 'undefined';
+
+// `?particles=worker` renders the background in a worker, off the thread that runs the camera
+// and the overlays; the default renders on the main thread
+export const getParticleRenderMode = (search = window.location.search): ParticleRenderMode => {
+  const param = new URLSearchParams(search).get('particles');
+  if (param === null || param === 'main') return 'main';
+  if (param !== 'worker') {
+    console.warn(`Ignoring unknown particle renderer '${param}'.`);
+    return 'main';
+  }
+  if (!supportsOffscreenCanvas()) {
+    console.warn('This browser cannot render on an OffscreenCanvas; particles render on the main thread.');
+    return 'main';
+  }
+  return 'worker';
+};
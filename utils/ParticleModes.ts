@@ -0,0 +1,51 @@
+// Modes of the particle background, so the backdrop follows the scan instead of drifting the
+// same way throughout. Each mode is a look (colours, speed, pull toward the scanner frame) that
+// the renderer eases into, and some modes also fire a one-off effect when they start.
+
+import { RiskOutcome, ScannerStatus } from '../types';
+
+export type ParticleMode =
+  | 'drift'       // The resting cyan drift
+  | 'converge'    // SCANNING: particles gather on a ring around the scanner frame
+  | 'pulse'       // CAPTURED: a bright ring sweeps out from the frame
+  | 'alert'       // High-risk reveal: amber lines, red particles, restless
+  | 'celebrate';  // ONBOARDED: a green burst out of the frame
+
+export type Rgb = [number, number, number];
+
+export interface ParticleLook {
+  particleColor: Rgb;
+  lineColor: Rgb;
+  speed: number;        // Multiplier on each particle's drift velocity
+  attraction: number;   // 0 to 1, pull toward the ring around the focus
+  effect?: 'pulse' | 'burst';   // Fired once when the mode starts
+}
+
+// Where the scanner frame sits on the canvas, in CSS pixels
+export interface ParticleFocus {
+  x: number;
+  y: number;
+  radius: number;
+}
+
+const CYAN: Rgb = [0, 255, 255];
+
+export const PARTICLE_MODES: { [key in ParticleMode]: ParticleLook } = {
+  drift: { particleColor: CYAN, lineColor: CYAN, speed: 1, attraction: 0 },
+  converge: { particleColor: [120, 255, 255], lineColor: [34, 211, 238], speed: 0.6, attraction: 0.8 },
+  pulse: { particleColor: [224, 255, 255], lineColor: CYAN, speed: 0.6, attraction: 0.4, effect: 'pulse' },
+  alert: { particleColor: [239, 68, 68], lineColor: [245, 158, 11], speed: 1.8, attraction: 0 },
+  celebrate: { particleColor: [74, 222, 128], lineColor: [134, 239, 172], speed: 1.2, attraction: 0, effect: 'burst' },
+};
+
+// The mode for a scanner status; `outcome` is the resolved attendee's, once known
+export const particleModeFor = (status: ScannerStatus, outcome: RiskOutcome | null): ParticleMode => {
+  switch (status) {
+    case ScannerStatus.SCANNING: return 'converge';
+    case ScannerStatus.CAPTURED: return 'pulse';
+    case ScannerStatus.SCAN_PASSED: return outcome === 'HIGH' || outcome === 'DENIED' ? 'alert' : 'drift';
+    case ScannerStatus.DENIED: return 'alert';
+    case ScannerStatus.ONBOARDED: return 'celebrate';
+    default: return 'drift';
+  }
+};
@@ -0,0 +1,20 @@
+// Runs the particle background on an OffscreenCanvas transferred from ParticleBackground
+// (`?particles=worker`), so drawing it never holds up the camera feed or the overlays.
+
+import { ParticleRenderer, ParticleWorkerMessage, startParticleRenderer } from './ParticleField';
+
+let renderer: ParticleRenderer | null = null;
+
+self.addEventListener('message', (e: MessageEvent<ParticleWorkerMessage>) => {
+  const message = e.data;
+  switch (message.type) {
+    case 'start':
+      renderer?.stop();
+      renderer = startParticleRenderer(message.canvas, message.size, message.reducedMotion);
+      return;
+    case 'resize': renderer?.resize(message.size); return;
+    case 'pause': renderer?.setPaused(message.paused); return;
+    case 'reducedMotion': renderer?.setReducedMotion(message.reducedMotion); return;
+    case 'mode': renderer?.setMode(message.mode, message.focus); return;
+  }
+});
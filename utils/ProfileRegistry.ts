@@ -0,0 +1,86 @@
+// Loads the attendee profiles shown in the SCAN_PASSED reveal.
+// Profiles live in a plain JSON file served next to the app (`/profiles/profiles.json`)
+// so each event can swap guests without a rebuild.
+
+import { AnnouncerLine, AttendeeProfile, Locale, ProfileTag, RiskLevel, RiskOutcome } from '../types';
+import { ANNOUNCER_LINES } from './Announcer';
+import { LOCALES, isLocale } from './Messages';
+
+export const PROFILES_URL = '/profiles/profiles.json';
+
+const TAGS: ProfileTag[] = ['ekyc', 'world-check', 'pep'];
+const RISK_LEVELS: RiskLevel[] = ['LOW', 'MEDIUM', 'HIGH'];
+
+const isString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+const parseProfile = (raw: unknown, index: number): AttendeeProfile => {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid profile at index ${index}: ${reason}`);
+  };
+  if (typeof raw !== 'object' || raw === null) return fail('expected an object');
+  const p = raw as Record<string, unknown>;
+
+  if (!isString(p.id)) fail('"id" is required');
+  if (!isString(p.name)) fail('"name" is required');
+  if (!isString(p.title)) fail('"title" is required');
+  if (!isString(p.organisation)) fail('"organisation" is required');
+  if (!Array.isArray(p.tags) || !p.tags.every(t => TAGS.includes(t))) {
+    fail(`"tags" must be a list of ${TAGS.join(', ')}`);
+  }
+  if (!RISK_LEVELS.includes(p.riskLevel as RiskLevel)) {
+    fail(`"riskLevel" must be one of ${RISK_LEVELS.join(', ')}`);
+  }
+  if (p.referred !== undefined && typeof p.referred !== 'boolean') fail('"referred" must be true or false');
+  if (p.eddText !== undefined && !isString(p.eddText)) fail('"eddText" must be a string');
+  if (p.photo !== undefined && !isString(p.photo)) fail('"photo" must be a URL');
+  if (p.language !== undefined && !isLocale(p.language)) fail(`"language" must be one of ${Object.keys(LOCALES).join(', ')}`);
+  if (p.announcements !== undefined) {
+    if (typeof p.announcements !== 'object' || p.announcements === null) fail('"announcements" must be an object');
+    Object.entries(p.announcements as Record<string, unknown>).forEach(([line, url]) => {
+      if (!ANNOUNCER_LINES.includes(line as AnnouncerLine)) fail(`unknown announcement "${line}"; expected one of ${ANNOUNCER_LINES.join(', ')}`);
+      if (!isString(url)) fail(`"announcements.${line}" must be a URL`);
+    });
+  }
+
+  return {
+    id: p.id as string,
+    name: p.name as string,
+    title: p.title as string,
+    organisation: p.organisation as string,
+    tags: p.tags as ProfileTag[],
+    riskLevel: p.riskLevel as RiskLevel,
+    referred: p.referred === true,
+    eddText: p.eddText as string | undefined,
+    photo: p.photo as string | undefined,
+    language: p.language as Locale | undefined,
+    announcements: p.announcements as AttendeeProfile['announcements'],
+  };
+};
+
+// Which reveal path and final screen a profile gets
+export const getRiskOutcome = (profile: AttendeeProfile): RiskOutcome => (profile.referred ? 'DENIED' : profile.riskLevel);
+
+export const parseProfiles = (data: unknown): AttendeeProfile[] => {
+  if (!Array.isArray(data)) throw new Error('Profile file must contain a JSON array.');
+  const profiles = data.map(parseProfile);
+  const ids = new Set<string>();
+  profiles.forEach(p => {
+    if (ids.has(p.id)) throw new Error(`Duplicate profile id '${p.id}'.`);
+    ids.add(p.id);
+  });
+  return profiles;
+};
+
+export const loadProfiles = async (url = PROFILES_URL) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Could not load profiles from '${url}' (HTTP ${response.status}).`);
+  return parseProfiles(await response.json());
+};
+
+// Picks the profile a scan resolves to: the operator's choice, else `?profile=<id>`, else the first entry.
+export const resolveProfile = (profiles: AttendeeProfile[], preferredId?: string | null) => {
+  const requested = preferredId ?? new URLSearchParams(window.location.search).get('profile');
+  return profiles.find(p => p.id === requested) ?? profiles[0] ?? null;
+};
+
+export const hasTag = (profile: AttendeeProfile | null, tag: ProfileTag) => !!profile && profile.tags.includes(tag);
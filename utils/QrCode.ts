@@ -0,0 +1,34 @@
+// QR codes drawn straight onto a canvas, so links and ids can be scanned off the kiosk's cards
+// and badges without any online generator.
+
+import QRCode from 'qrcode';
+
+// Draws the QR symbol for `text` as dark modules on a light square, quiet zone included
+export const drawQrCode = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, size: number) => {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+  const quietZone = 2;
+  const cell = size / (modules.size + quietZone * 2);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(x, y, size, size);
+  ctx.fillStyle = '#0f172a';
+  for (let row = 0; row < modules.size; row++) {
+    for (let col = 0; col < modules.size; col++) {
+      if (modules.get(row, col)) {
+        // Rounding out to whole pixels avoids hairline gaps between neighbouring modules
+        const left = Math.floor(x + (col + quietZone) * cell);
+        const top = Math.floor(y + (row + quietZone) * cell);
+        ctx.fillRect(left, top, Math.ceil(cell) + 1, Math.ceil(cell) + 1);
+      }
+    }
+  }
+};
+
+// A standalone QR code image, e.g. to show the download link on the welcome screen
+export const createQrDataUrl = (text: string, size = 256) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = size;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable.');
+  drawQrCode(ctx, text, 0, 0, size);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,49 @@
+// Rehearsal mode for AV crews checking cues on any laptop.
+// `?rehearsal` runs the flow from a looping local file instead of the webcam, and
+// `?timescale=<n>` plays the whole flow n times faster: phase timers, the reveal timeline and
+// its sounds, the EDD typing effect, audio files and CSS animations all follow the same factor.
+
+import { VideoSourceConfig, getVideoSourceConfig } from './VideoSource';
+
+// Played when `?rehearsal` is given without `?source=`; see rehearsal/README.txt
+export const REHEARSAL_SOURCE = '/rehearsal/guest.mp4';
+
+const MIN_TIME_SCALE = 0.25;
+const MAX_TIME_SCALE = 16;
+
+export const getRehearsalMode = (search = window.location.search) => new URLSearchParams(search).has('rehearsal');
+
+// `?timescale=4` runs four times faster; invalid values fall back to real time
+export const getTimeScale = (search = window.location.search) => {
+  const param = new URLSearchParams(search).get('timescale');
+  if (param === null) return 1;
+  const scale = Number(param);
+  if (!Number.isFinite(scale) || scale <= 0) {
+    console.warn(`Ignoring invalid timescale '${param}'.`);
+    return 1;
+  }
+  return Math.min(MAX_TIME_SCALE, Math.max(MIN_TIME_SCALE, scale));
+};
+
+// The rehearsal clip, unless a specific file was passed with `?source=`
+export const getRehearsalSource = (search = window.location.search): VideoSourceConfig => {
+  const config = getVideoSourceConfig(search);
+  return config.kind === 'file' ? config : { kind: 'file', url: REHEARSAL_SOURCE };
+};
+
+// Speeds up every CSS animation and transition on the page by `timeScale`, including their
+// delays, by setting the Web Animations playback rate. Animations are picked up on the next
+// frame after they are created. Returns a function that restores real time.
+export const applyAnimationTimeScale = (timeScale: number, root: Document = document) => {
+  if (timeScale === 1) return () => {};
+  let frame = requestAnimationFrame(function scan() {
+    root.getAnimations().forEach(animation => {
+      if (animation.playbackRate !== timeScale) animation.playbackRate = timeScale;
+    });
+    frame = requestAnimationFrame(scan);
+  });
+  return () => {
+    cancelAnimationFrame(frame);
+    root.getAnimations().forEach(animation => { animation.playbackRate = 1; });
+  };
+};
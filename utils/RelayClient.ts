@@ -0,0 +1,83 @@
+// WebSocket client for the LAN relay, used by both the kiosk and the remote control.
+// Reconnects with backoff so the kiosk keeps running (and picks the link back up) when the
+// relay or the venue Wi-Fi drops.
+
+import { RemoteMessage, RemoteRole, UnversionedMessage, encodeRemoteMessage, parseRemoteMessage } from './RemoteProtocol';
+
+export const DEFAULT_RELAY_PORT = 8787;
+
+export interface RelayClientOptions {
+  url: string;
+  role: RemoteRole;
+  token?: string;
+  onMessage: (message: RemoteMessage) => void;
+  onConnectionChange?: (connected: boolean) => void;
+}
+
+const MAX_RETRY_MS = 10000;
+
+export class RelayClient {
+  private options: RelayClientOptions;
+  private socket: WebSocket | null = null;
+  private retryMs = 500;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+
+  constructor(options: RelayClientOptions) {
+    this.options = options;
+  }
+
+  connect() {
+    this.closed = false;
+    const socket = new WebSocket(this.options.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.retryMs = 500;
+      socket.send(encodeRemoteMessage({ type: 'hello', role: this.options.role, token: this.options.token }));
+      this.options.onConnectionChange?.(true);
+    };
+    socket.onmessage = (e) => {
+      const message = typeof e.data === 'string' ? parseRemoteMessage(e.data) : null;
+      if (message) this.options.onMessage(message);
+    };
+    socket.onclose = () => {
+      this.options.onConnectionChange?.(false);
+      if (this.closed) return;
+      this.retryTimer = setTimeout(() => this.connect(), this.retryMs);
+      this.retryMs = Math.min(this.retryMs * 2, MAX_RETRY_MS);
+    };
+    // Errors are always followed by 'close', which handles the retry
+    socket.onerror = () => {};
+  }
+
+  send(message: UnversionedMessage) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(encodeRemoteMessage(message));
+    }
+  }
+
+  close() {
+    this.closed = true;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.socket?.close();
+    this.socket = null;
+  }
+}
+
+// Relay address from `?relay=ws://host:port`, else RELAY_URL from the environment; null disables the link.
+export const getRelayUrl = (search = window.location.search) =>
+  new URLSearchParams(search).get('relay') || process.env.RELAY_URL || null;
+
+const RELAY_TOKEN_KEY = 'face-scanner.relay-token';
+
+// Relay secret from `?token=<secret>`, kept in localStorage so each device only needs it once.
+// Never built into the page: anyone on the venue network can load the bundle and read it.
+export const getRelayToken = (search = window.location.search, storage: Storage = window.localStorage) => {
+  const token = new URLSearchParams(search).get('token');
+  if (token) {
+    storage.setItem(RELAY_TOKEN_KEY, token);
+    return token;
+  }
+  return storage.getItem(RELAY_TOKEN_KEY);
+};
@@ -0,0 +1,100 @@
+// Message set spoken between the kiosk, the LAN relay (relay/server.js) and remote controls.
+// See relay/PROTOCOL.md for the wire format. Bump REMOTE_PROTOCOL_VERSION on any breaking change;
+// the relay rejects messages that carry a different version.
+
+import { ScannerStatus } from '../types';
+
+export const REMOTE_PROTOCOL_VERSION = 1;
+
+export type RemoteRole = 'kiosk' | 'remote';
+
+export interface RemoteProfileSummary {
+  id: string;
+  name: string;
+  riskLevel: string;
+}
+
+// Sent by every client right after connecting
+export interface HelloMessage {
+  v: number;
+  type: 'hello';
+  role: RemoteRole;
+  token?: string;
+}
+
+// remote -> kiosk
+export type CommandMessage =
+  | { v: number; type: 'start' }
+  | { v: number; type: 'skip' }
+  | { v: number; type: 'reset' }
+  | { v: number; type: 'jump'; status: ScannerStatus }
+  | { v: number; type: 'select-profile'; profileId: string | null };
+
+// kiosk -> remotes (the relay replays the latest one to remotes that join later)
+export interface StateMessage {
+  v: number;
+  type: 'state';
+  status: ScannerStatus;
+  nextProfileId: string | null;
+  profiles: RemoteProfileSummary[];
+}
+
+// relay -> any client
+export interface PeersMessage {
+  v: number;
+  type: 'peers';
+  kiosks: number;
+  remotes: number;
+}
+
+export interface ErrorMessage {
+  v: number;
+  type: 'error';
+  message: string;
+}
+
+export type RemoteMessage = HelloMessage | CommandMessage | StateMessage | PeersMessage | ErrorMessage;
+
+const COMMAND_TYPES: CommandMessage['type'][] = ['start', 'skip', 'reset', 'jump', 'select-profile'];
+
+const STATUSES = Object.values(ScannerStatus) as string[];
+
+export const isCommand = (message: RemoteMessage): message is CommandMessage =>
+  (COMMAND_TYPES as string[]).includes(message.type);
+
+// Returns null for anything that is not a well-formed message of the current version.
+export const parseRemoteMessage = (raw: string): RemoteMessage | null => {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (typeof data !== 'object' || data === null) return null;
+  const m = data as Record<string, unknown>;
+  if (m.v !== REMOTE_PROTOCOL_VERSION || typeof m.type !== 'string') return null;
+
+  switch (m.type) {
+    case 'jump':
+      return STATUSES.includes(m.status as string) ? (m as unknown as CommandMessage) : null;
+    case 'select-profile':
+      return m.profileId === null || typeof m.profileId === 'string' ? (m as unknown as CommandMessage) : null;
+    case 'state':
+      return STATUSES.includes(m.status as string) && Array.isArray(m.profiles) ? (m as unknown as StateMessage) : null;
+    case 'hello':
+    case 'start':
+    case 'skip':
+    case 'reset':
+    case 'peers':
+    case 'error':
+      return m as unknown as RemoteMessage;
+    default:
+      return null;
+  }
+};
+
+export type UnversionedMessage = RemoteMessage extends infer M ? (M extends RemoteMessage ? Omit<M, 'v'> : never) : never;
+
+// Builds a versioned message; callers never set `v` by hand.
+export const encodeRemoteMessage = (message: UnversionedMessage) =>
+  JSON.stringify({ v: REMOTE_PROTOCOL_VERSION, ...message });
@@ -0,0 +1,118 @@
+// Declarative description of the SCAN_PASSED reveal.
+// Every beat of the sequence is a cue on one timeline: when it starts, which overlay it
+// shows (and for how long), and which sound pack cue and spoken announcement fire with it.
+// Overlay CSS animations are written relative to the moment their cue mounts them, so moving
+// a cue here moves the visuals and the audio together.
+//
+// Each risk outcome has its own sheet: a low-risk guest gets a short reveal ending in the
+// SUCCESS fast path, medium and high risk play through to APPROVED, and a referred guest ends
+// on the DENIED screen.
+
+import { AnnouncerLine, ProfileTag, RiskOutcome } from '../types';
+
+// Visual layers the reveal can show
+export type RevealOverlay =
+  | 'scan-pass'
+  | 'ekyc-tag'
+  | 'world-check-tag'
+  | 'name'
+  | 'pep-tag'
+  | 'risk'
+  | 'edd-popup';
+
+// One-shot sound pack cues (SoundPacks.ts) a reveal cue may trigger
+export type RevealSound =
+  | 'success'
+  | 'tagAppear'
+  | 'dataReveal'
+  | 'pepAlert'
+  | 'riskClear'
+  | 'riskCaution'
+  | 'riskAlert'
+  | 'denied';
+
+// Announcer lines a reveal cue may speak
+export type RevealAnnouncement = Extract<AnnouncerLine, 'identified' | 'referred'>;
+
+export interface RevealCue {
+  at: number;             // ms from the start of the reveal
+  overlay?: RevealOverlay;
+  sound?: RevealSound;
+  announce?: RevealAnnouncement;
+  duration?: number;      // ms the overlay stays up; omitted = until the reveal ends
+  requires?: ProfileTag;  // Skip the cue entirely unless the resolved profile carries this tag
+}
+
+export interface RevealTimeline {
+  duration: number;       // ms until the scanner moves on to FINALIZING
+  cues: RevealCue[];
+}
+
+export type RevealTimelines = { [key in RiskOutcome]: RevealTimeline };
+
+export const DEFAULT_REVEAL_TIMELINES: RevealTimelines = {
+  LOW: {
+    duration: 8000,
+    cues: [
+      { at: 0, overlay: 'scan-pass', sound: 'success' },
+      { at: 1000, overlay: 'ekyc-tag', sound: 'tagAppear', requires: 'ekyc' },
+      { at: 2500, overlay: 'world-check-tag', sound: 'tagAppear', requires: 'world-check' },
+      { at: 4000, overlay: 'name', sound: 'dataReveal', announce: 'identified' },
+      { at: 5500, overlay: 'risk', sound: 'riskClear' },
+    ],
+  },
+  MEDIUM: {
+    duration: 14000,
+    cues: [
+      { at: 0, overlay: 'scan-pass', sound: 'success' },
+      { at: 1000, overlay: 'ekyc-tag', sound: 'tagAppear', requires: 'ekyc' },
+      { at: 4000, overlay: 'world-check-tag', sound: 'tagAppear', requires: 'world-check' },
+      { at: 5500, overlay: 'name', sound: 'dataReveal', announce: 'identified' },
+      { at: 8100, overlay: 'pep-tag', sound: 'pepAlert', requires: 'pep' },
+      { at: 10600, overlay: 'risk', sound: 'riskCaution' },
+    ],
+  },
+  HIGH: {
+    duration: 26000,
+    cues: [
+      { at: 0, overlay: 'scan-pass', sound: 'success' },
+      { at: 1000, overlay: 'ekyc-tag', sound: 'tagAppear', requires: 'ekyc' },
+      { at: 4000, overlay: 'world-check-tag', sound: 'tagAppear', requires: 'world-check' },
+      { at: 5500, overlay: 'name', sound: 'dataReveal', announce: 'identified' },
+      { at: 8100, overlay: 'pep-tag', sound: 'pepAlert', requires: 'pep' },
+      { at: 10600, overlay: 'risk', sound: 'riskAlert' },
+      { at: 12600, overlay: 'edd-popup', duration: 11000 },
+    ],
+  },
+  DENIED: {
+    duration: 22000,
+    cues: [
+      { at: 0, overlay: 'scan-pass', sound: 'success' },
+      { at: 1000, overlay: 'ekyc-tag', sound: 'tagAppear', requires: 'ekyc' },
+      { at: 4000, overlay: 'world-check-tag', sound: 'tagAppear', requires: 'world-check' },
+      { at: 5500, overlay: 'name', sound: 'dataReveal' },
+      { at: 8100, overlay: 'pep-tag', sound: 'pepAlert', requires: 'pep' },
+      { at: 10600, overlay: 'risk', sound: 'denied', announce: 'referred' },
+      { at: 12600, overlay: 'edd-popup', duration: 8000 },
+    ],
+  },
+};
+
+// How each outcome looks in the reveal, on its final screen and on the souvenir card.
+// Its label, heading and caption are in the message catalog (Messages.ts).
+export interface OutcomeStyle {
+  color: string;     // Hex color of the risk label and the final screen
+}
+
+export const OUTCOME_STYLES: { [key in RiskOutcome]: OutcomeStyle } = {
+  LOW: { color: '#4ade80' },
+  MEDIUM: { color: '#f59e0b' },
+  HIGH: { color: '#ef4444' },
+  DENIED: { color: '#dc2626' },
+};
+
+// Drops cues whose required tag the profile doesn't carry
+export const filterCues = (timeline: RevealTimeline, tags: ProfileTag[]): RevealTimeline => ({
+  ...timeline,
+  cues: timeline.cues.filter(cue => !cue.requires || tags.includes(cue.requires)),
+});
@@ -0,0 +1,177 @@
+// Typed failures for the scanner flow. Every way a scan can end on the ERROR screen has a code,
+// and the catalogue below gives each code what the ERROR screen shows (title, message, the fix
+// for staff, icon) and its retry policy. Failures that usually clear up by themselves (a camera
+// busy in another app, a camera being plugged back in, a model download that hiccuped) are
+// retried automatically with exponential backoff; the rest wait for a person.
+
+export type ScannerErrorCode =
+  | 'camera-permission-denied'
+  | 'camera-not-found'
+  | 'camera-in-use'
+  | 'camera-overconstrained'
+  | 'insecure-context'
+  | 'camera-unsupported'
+  | 'camera-disconnected'
+  | 'video-source-failed'
+  | 'model-load-failed'
+  | 'liveness-timeout'
+  | 'operator-stopped'
+  | 'unknown';
+
+export type ScannerErrorIcon = 'camera' | 'lock' | 'model' | 'face' | 'error';
+
+export interface RetryPolicy {
+  attempts: number;     // Automatic retries before the ERROR screen waits for a person; 0 never retries
+  delayMs: number;      // Wait before the first retry; doubles with every further attempt
+  maxDelayMs: number;
+}
+
+export interface ScannerErrorInfo {
+  title: string;
+  message: string;      // What went wrong, for the guest
+  fix: string;          // What staff can do about it
+  icon: ScannerErrorIcon;
+  retry: RetryPolicy;
+}
+
+// One failure as the machine carries it
+export interface ScannerFault {
+  code: ScannerErrorCode;
+  detail: string | null;   // Underlying exception, e.g. "NotReadableError: Could not start video source"
+}
+
+const NO_RETRY: RetryPolicy = { attempts: 0, delayMs: 0, maxDelayMs: 0 };
+
+export const SCANNER_ERRORS: { [key in ScannerErrorCode]: ScannerErrorInfo } = {
+  'camera-permission-denied': {
+    title: 'Camera Blocked',
+    message: 'Camera access was denied.',
+    fix: 'Allow camera access for this site in the browser\'s site settings, then try again.',
+    icon: 'lock',
+    retry: NO_RETRY,
+  },
+  'camera-not-found': {
+    title: 'No Camera Found',
+    message: 'The camera is not connected.',
+    fix: 'Plug the camera in, or choose another one in the operator panel (Ctrl + Alt + O).',
+    icon: 'camera',
+    retry: { attempts: 5, delayMs: 2000, maxDelayMs: 30000 },
+  },
+  'camera-in-use': {
+    title: 'Camera Busy',
+    message: 'The camera is in use by another application.',
+    fix: 'Close any video call, camera app or other browser tab that is using the camera.',
+    icon: 'camera',
+    retry: { attempts: 5, delayMs: 3000, maxDelayMs: 30000 },
+  },
+  'camera-overconstrained': {
+    title: 'Camera Format Unsupported',
+    message: 'The camera cannot deliver the requested resolution or frame rate.',
+    fix: 'Set the resolution and frame rate back to Default in the operator panel.',
+    icon: 'camera',
+    retry: NO_RETRY,
+  },
+  'insecure-context': {
+    title: 'Secure Connection Required',
+    message: 'Browsers only allow camera access on secure pages.',
+    fix: 'Open the kiosk over https://, or on http://localhost on the kiosk itself.',
+    icon: 'lock',
+    retry: NO_RETRY,
+  },
+  'camera-unsupported': {
+    title: 'Camera Not Supported',
+    message: 'This browser does not provide camera access.',
+    fix: 'Use a current version of Chrome, Edge, Firefox or Safari.',
+    icon: 'camera',
+    retry: NO_RETRY,
+  },
+  'camera-disconnected': {
+    title: 'Camera Disconnected',
+    message: 'The camera was disconnected and did not come back.',
+    fix: 'Check the USB cable and any hub between the camera and the kiosk.',
+    icon: 'camera',
+    retry: { attempts: 3, delayMs: 5000, maxDelayMs: 20000 },
+  },
+  'video-source-failed': {
+    title: 'Video Source Unavailable',
+    message: 'The test video or image could not be played.',
+    fix: 'Check that the file given in ?source= exists and is in a format this browser can play.',
+    icon: 'camera',
+    retry: NO_RETRY,
+  },
+  'model-load-failed': {
+    title: 'Model Load Failed',
+    message: 'A face model could not be loaded.',
+    fix: 'Ensure the model files are present in /models and the kiosk server is running.',
+    icon: 'model',
+    retry: { attempts: 3, delayMs: 2000, maxDelayMs: 10000 },
+  },
+  'liveness-timeout': {
+    title: 'Liveness Check Timed Out',
+    message: 'Please follow the on-screen prompt and try again.',
+    fix: 'Ask the guest to face the camera in good light and follow the prompt.',
+    icon: 'face',
+    retry: NO_RETRY,
+  },
+  'operator-stopped': {
+    title: 'Scan Stopped',
+    message: 'The scan was stopped by the operator.',
+    fix: 'Start a new scan when ready.',
+    icon: 'error',
+    retry: NO_RETRY,
+  },
+  'unknown': {
+    title: 'System Error',
+    message: 'Something went wrong.',
+    fix: 'Try again. If it keeps happening, check the browser console and the session log.',
+    icon: 'error',
+    retry: NO_RETRY,
+  },
+};
+
+// Delay before automatic retry number `attempt` (0-based), or null once the policy is used up
+export const retryDelay = (code: ScannerErrorCode, attempt: number) => {
+  const { attempts, delayMs, maxDelayMs } = SCANNER_ERRORS[code].retry;
+  if (attempt >= attempts) return null;
+  return Math.min(maxDelayMs, delayMs * 2 ** attempt);
+};
+
+const errorName = (err: unknown) =>
+  typeof err === 'object' && err !== null && 'name' in err ? String(err.name) : '';
+
+// "Name: message" of an exception, for the diagnostics in the session log
+export const describeException = (err: unknown) => {
+  if (err instanceof Error || err instanceof DOMException) return err.message ? `${err.name}: ${err.message}` : err.name;
+  return String(err);
+};
+
+export const createFault = (code: ScannerErrorCode, err?: unknown): ScannerFault => ({
+  code,
+  detail: err === undefined ? null : describeException(err),
+});
+
+// Maps a getUserMedia failure to its code. Browsers have used several names for the same
+// failures over the years, so the older ones are matched too.
+export const classifyCameraError = (err: unknown): ScannerErrorCode => {
+  if (!window.isSecureContext) return 'insecure-context';
+  if (!navigator.mediaDevices?.getUserMedia) return 'camera-unsupported';
+  switch (errorName(err)) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+    case 'SecurityError':
+      return 'camera-permission-denied';
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+      return 'camera-not-found';
+    case 'NotReadableError':
+    case 'TrackStartError':
+    case 'AbortError':
+      return 'camera-in-use';
+    case 'OverconstrainedError':
+    case 'ConstraintNotSatisfiedError':
+      // A camera picked by id is required exactly, so its absence surfaces as a failed deviceId constraint
+      return (err as { constraint?: string }).constraint === 'deviceId' ? 'camera-not-found' : 'camera-overconstrained';
+    default:
+      return 'unknown';
+  }
+};
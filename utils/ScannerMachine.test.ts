@@ -0,0 +1,424 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ScannerStatus } from '../types';
+import { ScannerEffect, ScannerEvent, ScannerState, INITIAL_SCANNER_STATE, STAGE_DURATIONS, isActivity, transition } from './ScannerMachine';
+import { createFault } from './ScannerError';
+
+// A minimal interpreter: runs timer and retry effects on (fake) timers and cancels a stage's
+// activities when the stage ends, the way FaceScanner does. Every other effect is only recorded.
+class Harness {
+  state: ScannerState;
+  effects: ScannerEffect[] = [];
+  private timers: ReturnType<typeof setTimeout>[] = [];
+
+  constructor(state: Partial<ScannerState> = {}) {
+    this.state = { ...INITIAL_SCANNER_STATE, ...state };
+  }
+
+  get status() {
+    return this.state.status;
+  }
+
+  // Returns whether the machine accepted the event
+  dispatch = (event: ScannerEvent) => {
+    const result = transition(this.state, event);
+    if (!result) return false;
+    if (result.state.stage !== this.state.stage) {
+      this.timers.forEach(clearTimeout);
+      this.timers = [];
+    }
+    this.state = result.state;
+    this.effects = result.effects;
+    result.effects.filter(isActivity).forEach(this.run);
+    return true;
+  };
+
+  effectTypes = () => this.effects.map(effect => effect.type);
+
+  private run = (effect: ScannerEffect) => {
+    if (effect.type === 'timer') {
+      const { stage } = effect;
+      this.timers.push(setTimeout(() => this.dispatch({ type: 'TIMER', stage }), STAGE_DURATIONS[effect.duration]));
+    }
+    if (effect.type === 'retry') {
+      const { stage } = effect;
+      this.timers.push(setTimeout(() => this.dispatch({ type: 'RETRY', stage, automatic: true }), effect.delay));
+    }
+  };
+}
+
+const MATCHED = { profileId: 'p1', similarity: 0.8 };
+
+// IDLE to SCANNING by the quickest route (no liveness check)
+const toScanning = (harness: Harness) => {
+  harness.dispatch({ type: 'START' });
+  harness.dispatch({ type: 'CAMERA_READY' });
+  harness.dispatch({ type: 'FACE_CAPTURED' });
+  vi.advanceTimersByTime(STAGE_DURATIONS.captured);
+};
+
+// On to SCAN_PASSED with the given reveal outcome
+const toReveal = (harness: Harness, outcome: 'LOW' | 'MEDIUM' | 'HIGH' | 'DENIED' | null) => {
+  toScanning(harness);
+  harness.dispatch({ type: 'MATCH_RESULT', match: MATCHED });
+  vi.advanceTimersByTime(STAGE_DURATIONS.scanning);
+  harness.dispatch({ type: 'PROFILE_RESOLVED', outcome });
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('happy path', () => {
+  it('walks IDLE to WELCOME on the stage timers', () => {
+    const harness = new Harness();
+    const seen: ScannerStatus[] = [];
+    const record = () => { if (seen[seen.length - 1] !== harness.status) seen.push(harness.status); };
+
+    record();
+    harness.dispatch({ type: 'START' });
+    record();
+    expect(harness.effectTypes()).toEqual(['clearSession', 'sound', 'openCamera']);
+    harness.dispatch({ type: 'CAMERA_READY' });
+    record();
+    harness.dispatch({ type: 'FACE_LOCKED', challenge: 'blink' });
+    record();
+    expect(harness.state.challenge).toBe('blink');
+    harness.dispatch({ type: 'LIVENESS_PASSED' });
+    record();
+    expect(harness.effectTypes()[0]).toBe('captureSnapshot');
+
+    vi.advanceTimersByTime(STAGE_DURATIONS.captured);
+    record();
+    harness.dispatch({ type: 'MATCH_RESULT', match: MATCHED });
+    // The match does not cut the scan short
+    expect(harness.status).toBe(ScannerStatus.SCANNING);
+    vi.advanceTimersByTime(STAGE_DURATIONS.scanning);
+    record();
+    expect(harness.effectTypes()).toEqual(['resolveProfile', 'runReveal']);
+    harness.dispatch({ type: 'PROFILE_RESOLVED', outcome: 'HIGH' });
+    harness.dispatch({ type: 'REVEAL_COMPLETE' });
+    record();
+
+    vi.advanceTimersByTime(STAGE_DURATIONS.finalizing);
+    record();
+    expect(harness.state.countdown).toBe(5);
+    for (let tick = 4; tick >= 1; tick--) {
+      vi.advanceTimersByTime(STAGE_DURATIONS.countdownTick);
+      expect(harness.state.countdown).toBe(tick);
+    }
+    vi.advanceTimersByTime(STAGE_DURATIONS.countdownTick);
+    record();
+    vi.advanceTimersByTime(STAGE_DURATIONS.onboarded);
+    record();
+
+    expect(seen).toEqual([
+      ScannerStatus.IDLE,
+      ScannerStatus.INITIALIZING,
+      ScannerStatus.DETECTING,
+      ScannerStatus.LIVENESS,
+      ScannerStatus.CAPTURED,
+      ScannerStatus.SCANNING,
+      ScannerStatus.SCAN_PASSED,
+      ScannerStatus.FINALIZING,
+      ScannerStatus.COUNTDOWN,
+      ScannerStatus.ONBOARDED,
+      ScannerStatus.WELCOME,
+    ]);
+    // Nothing is left armed: WELCOME waits for a person outside kiosk mode
+    vi.advanceTimersByTime(60000);
+    expect(harness.status).toBe(ScannerStatus.WELCOME);
+  });
+
+  it('polls while matching outlasts the scan', () => {
+    const harness = new Harness();
+    toScanning(harness);
+    vi.advanceTimersByTime(STAGE_DURATIONS.scanning + 3 * STAGE_DURATIONS.matchPoll);
+    expect(harness.status).toBe(ScannerStatus.SCANNING);
+    harness.dispatch({ type: 'MATCH_RESULT', match: MATCHED });
+    vi.advanceTimersByTime(STAGE_DURATIONS.matchPoll);
+    expect(harness.status).toBe(ScannerStatus.SCAN_PASSED);
+  });
+
+  it.each([
+    ['LOW', ScannerStatus.SUCCESS],
+    ['MEDIUM', ScannerStatus.FINALIZING],
+    ['HIGH', ScannerStatus.FINALIZING],
+    ['DENIED', ScannerStatus.DENIED],
+    [null, ScannerStatus.FINALIZING],
+  ] as const)('leads a %s reveal to %s', (outcome, target) => {
+    const harness = new Harness();
+    toReveal(harness, outcome);
+    harness.dispatch({ type: 'REVEAL_COMPLETE' });
+    expect(harness.status).toBe(target);
+  });
+
+  it('ends an unmatched scan on UNKNOWN_GUEST', () => {
+    const harness = new Harness();
+    toScanning(harness);
+    harness.dispatch({ type: 'MATCH_RESULT', match: { profileId: null, similarity: 0.2 } });
+    vi.advanceTimersByTime(STAGE_DURATIONS.scanning);
+    expect(harness.status).toBe(ScannerStatus.UNKNOWN_GUEST);
+    expect(harness.effects).toContainEqual({ type: 'announce', line: 'unknownGuest' });
+  });
+});
+
+describe('abort and error paths', () => {
+  it('fails when the camera cannot be opened', () => {
+    const harness = new Harness();
+    harness.dispatch({ type: 'START' });
+    harness.dispatch({ type: 'CAMERA_FAILED', error: createFault('camera-permission-denied') });
+    expect(harness.status).toBe(ScannerStatus.ERROR);
+    expect(harness.state.error?.code).toBe('camera-permission-denied');
+    expect(harness.effects).toContainEqual({ type: 'announce', line: 'scanFailed' });
+  });
+
+  it('fails when detection fails', () => {
+    const harness = new Harness();
+    harness.dispatch({ type: 'START' });
+    harness.dispatch({ type: 'CAMERA_READY' });
+    harness.dispatch({ type: 'DETECTION_FAILED', error: createFault('unknown') });
+    expect(harness.status).toBe(ScannerStatus.ERROR);
+  });
+
+  it('fails a liveness check that is answered wrongly or not at all', () => {
+    const wrong = new Harness();
+    wrong.dispatch({ type: 'START' });
+    wrong.dispatch({ type: 'CAMERA_READY' });
+    wrong.dispatch({ type: 'FACE_LOCKED', challenge: 'smile' });
+    wrong.dispatch({ type: 'LIVENESS_FAILED', error: createFault('unknown') });
+    expect(wrong.status).toBe(ScannerStatus.ERROR);
+    expect(wrong.effects).toContainEqual({ type: 'sound', sound: 'livenessFail' });
+
+    const silent = new Harness();
+    silent.dispatch({ type: 'START' });
+    silent.dispatch({ type: 'CAMERA_READY' });
+    silent.dispatch({ type: 'FACE_LOCKED', challenge: 'smile' });
+    vi.advanceTimersByTime(STAGE_DURATIONS.liveness);
+    expect(silent.status).toBe(ScannerStatus.ERROR);
+    expect(silent.state.error?.code).toBe('liveness-timeout');
+  });
+
+  it('fails when matching fails', () => {
+    const harness = new Harness();
+    toScanning(harness);
+    harness.dispatch({ type: 'MATCH_FAILED', error: createFault('model-load-failed') });
+    expect(harness.status).toBe(ScannerStatus.ERROR);
+  });
+
+  it('accepts ABORT only while a stage is in progress', () => {
+    const abort: ScannerEvent = { type: 'ABORT', error: createFault('operator-stopped') };
+    const idle = new Harness();
+    expect(idle.dispatch(abort)).toBe(false);
+
+    const scanning = new Harness();
+    toScanning(scanning);
+    expect(scanning.dispatch(abort)).toBe(true);
+    expect(scanning.status).toBe(ScannerStatus.ERROR);
+    expect(scanning.state.error?.code).toBe('operator-stopped');
+    // An operator stop is not announced to the guest
+    expect(scanning.effects).not.toContainEqual({ type: 'announce', line: 'scanFailed' });
+    // The scan's timer died with its stage
+    vi.advanceTimersByTime(STAGE_DURATIONS.scanning);
+    expect(scanning.status).toBe(ScannerStatus.ERROR);
+
+    // ERROR and the end screens only leave through RESET
+    expect(scanning.dispatch(abort)).toBe(false);
+  });
+
+  it('recovers a lost camera, or gives up after the recovery window', () => {
+    const recovered = new Harness();
+    recovered.dispatch({ type: 'START' });
+    recovered.dispatch({ type: 'CAMERA_READY' });
+    recovered.dispatch({ type: 'CAMERA_LOST' });
+    expect(recovered.status).toBe(ScannerStatus.INITIALIZING);
+    expect(recovered.effectTypes()).toContain('reconnectCamera');
+    expect(recovered.dispatch({ type: 'CAMERA_LOST' })).toBe(false);
+    recovered.dispatch({ type: 'CAMERA_READY' });
+    expect(recovered.status).toBe(ScannerStatus.DETECTING);
+    vi.advanceTimersByTime(STAGE_DURATIONS.cameraRecovery);
+    expect(recovered.status).toBe(ScannerStatus.DETECTING);
+
+    const lost = new Harness();
+    lost.dispatch({ type: 'START' });
+    lost.dispatch({ type: 'CAMERA_READY' });
+    lost.dispatch({ type: 'CAMERA_LOST' });
+    vi.advanceTimersByTime(STAGE_DURATIONS.cameraRecovery);
+    expect(lost.status).toBe(ScannerStatus.ERROR);
+    expect(lost.state.error?.code).toBe('camera-disconnected');
+  });
+
+  it('ignores a lost camera once it has been closed', () => {
+    const harness = new Harness();
+    toScanning(harness);
+    expect(harness.dispatch({ type: 'CAMERA_LOST' })).toBe(false);
+  });
+
+  it('retries automatically with backoff until the policy is used up', () => {
+    const harness = new Harness();
+    harness.dispatch({ type: 'START' });
+    const delays: number[] = [];
+    for (let attempt = 0; attempt < 3; attempt++) {
+      harness.dispatch({ type: 'CAMERA_FAILED', error: createFault('model-load-failed') });
+      const retry = harness.effects.find(effect => effect.type === 'retry');
+      if (retry?.type !== 'retry') throw new Error('Expected a retry effect');
+      delays.push(retry.delay);
+      vi.advanceTimersByTime(retry.delay);
+      expect(harness.status).toBe(ScannerStatus.INITIALIZING);
+      expect(harness.state.retryAttempt).toBe(attempt + 1);
+    }
+    expect(delays).toEqual([2000, 4000, 8000]);
+
+    harness.dispatch({ type: 'CAMERA_FAILED', error: createFault('model-load-failed') });
+    expect(harness.effectTypes()).not.toContain('retry');
+    vi.advanceTimersByTime(60000);
+    expect(harness.status).toBe(ScannerStatus.ERROR);
+  });
+
+  it('gives a manual retry a fresh set of attempts', () => {
+    const harness = new Harness({ retryAttempt: 3 });
+    harness.dispatch({ type: 'START' });
+    harness.dispatch({ type: 'CAMERA_FAILED', error: createFault('camera-permission-denied') });
+    harness.dispatch({ type: 'RETRY', stage: harness.state.stage, automatic: false });
+    expect(harness.status).toBe(ScannerStatus.INITIALIZING);
+    expect(harness.state.retryAttempt).toBe(0);
+  });
+
+  it('returns to IDLE from RESET anywhere but IDLE', () => {
+    const harness = new Harness();
+    expect(harness.dispatch({ type: 'RESET' })).toBe(false);
+    toScanning(harness);
+    harness.dispatch({ type: 'RESET' });
+    expect(harness.status).toBe(ScannerStatus.IDLE);
+    expect(harness.effectTypes()).toEqual(['closeCamera', 'clearSession']);
+    vi.advanceTimersByTime(STAGE_DURATIONS.scanning);
+    expect(harness.status).toBe(ScannerStatus.IDLE);
+  });
+});
+
+describe('operator jumps', () => {
+  it('enters a jumped-to status the way the flow would', () => {
+    const harness = new Harness();
+    harness.dispatch({ type: 'JUMP', status: ScannerStatus.COUNTDOWN });
+    expect(harness.state.countdown).toBe(5);
+    vi.advanceTimersByTime(STAGE_DURATIONS.countdownTick);
+    expect(harness.state.countdown).toBe(4);
+
+    harness.dispatch({ type: 'JUMP', status: ScannerStatus.DETECTING });
+    expect(harness.effectTypes()).toEqual(['clearSession', 'openCamera', 'detectFace']);
+    harness.dispatch({ type: 'JUMP', status: ScannerStatus.CAPTURED });
+    expect(harness.effectTypes()[0]).toBe('captureSnapshot');
+    harness.dispatch({ type: 'JUMP', status: ScannerStatus.ERROR });
+    expect(harness.state.error?.code).toBe('operator-stopped');
+  });
+
+  it('moves on to the next stage on SKIP', () => {
+    const harness = new Harness();
+    toScanning(harness);
+    harness.dispatch({ type: 'SKIP' });
+    expect(harness.status).toBe(ScannerStatus.SCAN_PASSED);
+    // From the reveal, SKIP follows the resolved outcome
+    harness.dispatch({ type: 'PROFILE_RESOLVED', outcome: 'DENIED' });
+    harness.dispatch({ type: 'SKIP' });
+    expect(harness.status).toBe(ScannerStatus.DENIED);
+    harness.dispatch({ type: 'JUMP', status: ScannerStatus.WELCOME });
+    harness.dispatch({ type: 'SKIP' });
+    expect(harness.status).toBe(ScannerStatus.IDLE);
+  });
+
+  it('drops the timer of the stage it jumped away from', () => {
+    const harness = new Harness();
+    toScanning(harness);
+    harness.dispatch({ type: 'JUMP', status: ScannerStatus.WELCOME });
+    vi.advanceTimersByTime(STAGE_DURATIONS.scanning);
+    expect(harness.status).toBe(ScannerStatus.WELCOME);
+  });
+});
+
+describe('stage guards', () => {
+  it('drops the old stage timer on SKIP', () => {
+    const harness = new Harness();
+    toScanning(harness);
+    const scanningStage = harness.state.stage;
+    harness.dispatch({ type: 'SKIP' });
+    expect(harness.status).toBe(ScannerStatus.SCAN_PASSED);
+    expect(harness.dispatch({ type: 'TIMER', stage: scanningStage })).toBe(false);
+  });
+
+  it('ignores a timer armed in an earlier stage', () => {
+    const harness = new Harness();
+    harness.dispatch({ type: 'START' });
+    harness.dispatch({ type: 'CAMERA_READY' });
+    harness.dispatch({ type: 'FACE_CAPTURED' });
+    const capturedStage = harness.state.stage;
+    vi.advanceTimersByTime(STAGE_DURATIONS.captured);
+    expect(harness.status).toBe(ScannerStatus.SCANNING);
+
+    // A late duplicate of the CAPTURED timer must not end the scan early
+    expect(harness.dispatch({ type: 'TIMER', stage: capturedStage })).toBe(false);
+    expect(harness.status).toBe(ScannerStatus.SCANNING);
+    expect(harness.dispatch({ type: 'TIMER', stage: harness.state.stage + 1 })).toBe(false);
+  });
+
+  it('accepts each stage timer once', () => {
+    const harness = new Harness();
+    toReveal(harness, 'HIGH');
+    harness.dispatch({ type: 'REVEAL_COMPLETE' });
+    const finalizingStage = harness.state.stage;
+    expect(harness.dispatch({ type: 'TIMER', stage: finalizingStage })).toBe(true);
+    expect(harness.status).toBe(ScannerStatus.COUNTDOWN);
+    expect(harness.dispatch({ type: 'TIMER', stage: finalizingStage })).toBe(false);
+    expect(harness.state.countdown).toBe(5);
+  });
+
+  it('ignores a retry armed before the operator moved on', () => {
+    const harness = new Harness();
+    harness.dispatch({ type: 'START' });
+    harness.dispatch({ type: 'CAMERA_FAILED', error: createFault('camera-in-use') });
+    const errorStage = harness.state.stage;
+    harness.dispatch({ type: 'JUMP', status: ScannerStatus.DETECTING });
+
+    expect(harness.dispatch({ type: 'RETRY', stage: errorStage, automatic: true })).toBe(false);
+    vi.advanceTimersByTime(30000);
+    expect(harness.status).toBe(ScannerStatus.DETECTING);
+    expect(harness.state.retryAttempt).toBe(0);
+  });
+
+  it('ignores events the current status does not expect', () => {
+    const harness = new Harness();
+    toScanning(harness);
+    expect(harness.dispatch({ type: 'REVEAL_COMPLETE' })).toBe(false);
+    expect(harness.dispatch({ type: 'CAMERA_READY' })).toBe(false);
+    expect(harness.status).toBe(ScannerStatus.SCANNING);
+  });
+});
+
+describe('kiosk mode', () => {
+  it('starts on an approaching guest and gives up on an empty DETECTING', () => {
+    const harness = new Harness();
+    expect(harness.dispatch({ type: 'GUEST_APPROACHED' })).toBe(false);
+    harness.dispatch({ type: 'SET_KIOSK', enabled: true });
+    expect(harness.effectTypes()).toContain('watchForGuest');
+    harness.dispatch({ type: 'GUEST_APPROACHED' });
+    harness.dispatch({ type: 'CAMERA_READY' });
+    vi.advanceTimersByTime(STAGE_DURATIONS.inactivity);
+    expect(harness.status).toBe(ScannerStatus.IDLE);
+  });
+
+  it('returns to IDLE from the end screens', () => {
+    const welcome = new Harness({ kiosk: true });
+    toReveal(welcome, 'LOW');
+    welcome.dispatch({ type: 'REVEAL_COMPLETE' });
+    vi.advanceTimersByTime(STAGE_DURATIONS.welcomeReturn);
+    expect(welcome.status).toBe(ScannerStatus.IDLE);
+
+    const error = new Harness({ kiosk: true });
+    error.dispatch({ type: 'START' });
+    error.dispatch({ type: 'CAMERA_FAILED', error: createFault('camera-permission-denied') });
+    vi.advanceTimersByTime(STAGE_DURATIONS.errorReturn);
+    expect(error.status).toBe(ScannerStatus.IDLE);
+  });
+});
@@ -0,0 +1,393 @@
+// Pure state machine for the scanner flow.
+// `transition` takes the current state and an event and returns the next state plus a list of
+// side-effect descriptors; it never touches the DOM, timers or audio itself. FaceScanner is the
+// interpreter: it runs the effects and feeds the results back in as events.
+//
+// Every transition into a status bumps `stage`; a few events (the face match, the SCANNING
+// re-check) only update the current stage. Effects marked as activities (timers, detection,
+// the scan loop, matching, the reveal, welcome audio) belong to the stage that started them and
+// must be cancelled by the interpreter when that stage ends. TIMER events carry the stage they were
+// armed in and are ignored once it is over, so a late or duplicate timer can never advance the flow.
+//
+// Failures carry a typed fault (see ScannerError.ts). When the fault's retry policy allows it,
+// ERROR schedules an automatic RETRY with backoff; the attempts count up until a scan gets
+// through matching, or the flow is started afresh.
+
+import { ScannerStatus, FaceMatch, LivenessChallenge, RiskOutcome, AnnouncerLine } from '../types';
+import { ScannerFault, createFault, retryDelay } from './ScannerError';
+
+export interface ScannerState {
+  status: ScannerStatus;
+  stage: number;
+  countdown: number;
+  error: ScannerFault | null;   // Why the flow is on the ERROR screen
+  retryAttempt: number;      // Automatic retries made since the last scan got through matching
+  challenge: LivenessChallenge | null;   // What the guest is asked to do during LIVENESS
+  match: FaceMatch | null;   // Result of the SCANNING face match; null while it is pending
+  outcome: RiskOutcome | null;   // Reveal path of the resolved profile; decides where SCAN_PASSED leads
+  kiosk: boolean;            // Unattended mode: auto-start on an approaching face and auto-return to IDLE
+  cameraLost: boolean;       // INITIALIZING is waiting for a camera that dropped out mid-flow to come back
+}
+
+export type ScannerEvent =
+  | { type: 'START' }
+  | { type: 'GUEST_APPROACHED' }              // Kiosk mode: a face came close to the camera in IDLE
+  | { type: 'CAMERA_READY' }
+  | { type: 'CAMERA_FAILED'; error: ScannerFault }
+  | { type: 'CAMERA_LOST' }                   // The open camera was unplugged or stopped delivering frames
+  | { type: 'FACE_CAPTURED' }
+  | { type: 'FACE_LOCKED'; challenge: LivenessChallenge }   // Stable face found; liveness check required
+  | { type: 'LIVENESS_PASSED' }
+  | { type: 'LIVENESS_FAILED'; error: ScannerFault }
+  | { type: 'DETECTION_FAILED'; error: ScannerFault }
+  | { type: 'MATCH_RESULT'; match: FaceMatch }
+  | { type: 'MATCH_FAILED'; error: ScannerFault }
+  | { type: 'PROFILE_RESOLVED'; outcome: RiskOutcome | null }   // null when there is no profile to show
+  | { type: 'REVEAL_COMPLETE' }
+  | { type: 'TIMER'; stage: number }
+  | { type: 'RETRY'; stage: number; automatic: boolean }   // Leave ERROR and try the flow again
+  | { type: 'ABORT'; error: ScannerFault }
+  | { type: 'JUMP'; status: ScannerStatus }   // Operator override: enter any status directly
+  | { type: 'SKIP' }                           // Operator override: move on to the next stage now
+  | { type: 'SET_KIOSK'; enabled: boolean }
+  | { type: 'RESET' };
+
+export type ScannerSound =
+  | 'powerUp'
+  | 'lockOn'
+  | 'success'
+  | 'countdownBeep'
+  | 'livenessPrompt'
+  | 'livenessFail';
+
+export type ScannerAnnouncement = Extract<AnnouncerLine, 'approved' | 'unknownGuest' | 'scanFailed'>;
+
+export type ScannerEffect =
+  | { type: 'sound'; sound: ScannerSound }
+  | { type: 'announce'; line: ScannerAnnouncement }
+  | { type: 'openCamera' }                    // Dispatches CAMERA_READY or CAMERA_FAILED
+  | { type: 'reconnectCamera' }               // Activity: retries the camera until it opens, dispatches CAMERA_READY
+  | { type: 'closeCamera' }
+  | { type: 'clearSession' }                  // Forget snapshot, detection box, profile and reveal state
+  | { type: 'captureSnapshot' }               // Freeze the current video frame, if there is one
+  | { type: 'resolveProfile' }                // Dispatches PROFILE_RESOLVED
+  | { type: 'watchForGuest' }                 // Activity: low-rate camera watch, dispatches GUEST_APPROACHED
+  | { type: 'detectFace' }                    // Activity: dispatches FACE_CAPTURED, FACE_LOCKED or DETECTION_FAILED
+  | { type: 'verifyLiveness' }                // Activity: dispatches LIVENESS_PASSED or LIVENESS_FAILED
+  | { type: 'runScan' }                       // Activity: scan loop audio, messages and confidence
+  | { type: 'matchFace' }                     // Activity: dispatches MATCH_RESULT or MATCH_FAILED
+  | { type: 'runReveal' }                     // Activity: dispatches REVEAL_COMPLETE
+  | { type: 'playWelcome' }                   // Activity
+  | { type: 'timer'; duration: StageDuration; stage: number } // Activity: dispatches TIMER
+  | { type: 'retry'; delay: number; stage: number };         // Activity: dispatches an automatic RETRY after `delay` ms
+
+export interface ScannerTransition {
+  state: ScannerState;
+  effects: ScannerEffect[];
+}
+
+// Default stage lengths in ms. Timer effects name a duration rather than carrying one, so the
+// interpreter can apply per-event overrides (see EventConfig) without the machine knowing.
+export const STAGE_DURATIONS = {
+  liveness: 8000,   // Time the guest has to answer the liveness challenge
+  captured: 1000,
+  scanning: 8000,
+  matchPoll: 250,   // Re-check interval when the scan has run its course but matching is still busy
+  finalizing: 4000,
+  countdownTick: 1000,
+  onboarded: 3000,
+  inactivity: 20000,      // Kiosk mode: give up on DETECTING when nobody completes a capture
+  welcomeReturn: 15000,   // Kiosk mode: WELCOME / SUCCESS back to IDLE
+  errorReturn: 8000,      // Kiosk mode: ERROR / UNKNOWN_GUEST / DENIED back to IDLE
+  cameraRecovery: 15000,  // How long to wait for a lost camera to come back before giving up
+};
+
+export type StageDuration = keyof typeof STAGE_DURATIONS;
+
+export type StageDurations = { [key in StageDuration]: number };
+
+export const COUNTDOWN_FROM = 5;
+
+export const INITIAL_SCANNER_STATE: ScannerState = {
+  status: ScannerStatus.IDLE,
+  stage: 0,
+  countdown: COUNTDOWN_FROM,
+  error: null,
+  retryAttempt: 0,
+  challenge: null,
+  match: null,
+  outcome: null,
+  kiosk: false,
+  cameraLost: false,
+};
+
+const ACTIVITY_EFFECTS: ScannerEffect['type'][] = ['watchForGuest', 'reconnectCamera', 'detectFace', 'verifyLiveness', 'runScan', 'matchFace', 'runReveal', 'playWelcome', 'timer', 'retry'];
+
+export const isActivity = (effect: ScannerEffect) => ACTIVITY_EFFECTS.includes(effect.type);
+
+// States in which the camera may be open or a stage is in progress; ABORT is accepted only here
+const ACTIVE_STATES = new Set<ScannerStatus>([
+  ScannerStatus.INITIALIZING,
+  ScannerStatus.DETECTING,
+  ScannerStatus.LIVENESS,
+  ScannerStatus.CAPTURED,
+  ScannerStatus.SCANNING,
+  ScannerStatus.SCAN_PASSED,
+  ScannerStatus.FINALIZING,
+  ScannerStatus.COUNTDOWN,
+  ScannerStatus.ONBOARDED,
+]);
+
+// Kiosk mode arms a timer on screens that would otherwise wait for a person
+const kioskTimer = (state: ScannerState, duration: StageDuration): ScannerEffect[] =>
+  state.kiosk ? [{ type: 'timer', duration, stage: state.stage }] : [];
+
+// ERROR retries by itself while the fault's policy allows; after that kiosk mode returns to IDLE
+const retryOrReturn = (state: ScannerState): ScannerEffect[] => {
+  const delay = state.error ? retryDelay(state.error.code, state.retryAttempt) : null;
+  if (delay !== null) return [{ type: 'retry', delay, stage: state.stage }];
+  // An operator stop needs no explaining to the guest
+  const announce: ScannerEffect[] = state.error?.code === 'operator-stopped' ? [] : [{ type: 'announce', line: 'scanFailed' }];
+  return [...announce, ...kioskTimer(state, 'errorReturn')];
+};
+
+// What happens on entering each status, given the state just entered. Shared by normal
+// transitions and operator jumps so a jumped-to stage behaves exactly like one reached through the flow.
+const ENTRY_EFFECTS: { [key in ScannerStatus]: (state: ScannerState) => ScannerEffect[] } = {
+  [ScannerStatus.IDLE]: (state) => [
+    { type: 'closeCamera' },
+    { type: 'clearSession' },
+    ...(state.kiosk ? [{ type: 'watchForGuest' } as const] : []),
+  ],
+  [ScannerStatus.INITIALIZING]: (state) => state.cameraLost
+    // Recovering: the capture starts over once the camera is back
+    ? [{ type: 'closeCamera' }, { type: 'clearSession' }, { type: 'reconnectCamera' }, { type: 'timer', duration: 'cameraRecovery', stage: state.stage }]
+    : [{ type: 'clearSession' }, { type: 'sound', sound: 'powerUp' }, { type: 'openCamera' }],
+  [ScannerStatus.DETECTING]: (state) => [{ type: 'detectFace' }, ...kioskTimer(state, 'inactivity')],
+  [ScannerStatus.LIVENESS]: ({ stage }) => [
+    { type: 'sound', sound: 'livenessPrompt' },
+    { type: 'verifyLiveness' },
+    { type: 'timer', duration: 'liveness', stage },
+  ],
+  [ScannerStatus.CAPTURED]: ({ stage }) => [
+    { type: 'sound', sound: 'lockOn' },
+    { type: 'closeCamera' },
+    { type: 'timer', duration: 'captured', stage },
+  ],
+  [ScannerStatus.SCANNING]: ({ stage }) => [
+    { type: 'runScan' },
+    { type: 'matchFace' },
+    { type: 'timer', duration: 'scanning', stage },
+  ],
+  [ScannerStatus.SCAN_PASSED]: () => [{ type: 'resolveProfile' }, { type: 'runReveal' }],
+  [ScannerStatus.SUCCESS]: (state) => [{ type: 'closeCamera' }, { type: 'playWelcome' }, ...kioskTimer(state, 'welcomeReturn')],
+  [ScannerStatus.ERROR]: (state) => [{ type: 'closeCamera' }, ...retryOrReturn(state)],
+  [ScannerStatus.FINALIZING]: ({ stage }) => [{ type: 'timer', duration: 'finalizing', stage }],
+  [ScannerStatus.COUNTDOWN]: ({ stage }) => [
+    { type: 'sound', sound: 'countdownBeep' },
+    { type: 'timer', duration: 'countdownTick', stage },
+  ],
+  [ScannerStatus.ONBOARDED]: ({ stage }) => [
+    { type: 'sound', sound: 'success' },
+    { type: 'announce', line: 'approved' },
+    { type: 'timer', duration: 'onboarded', stage },
+  ],
+  [ScannerStatus.WELCOME]: (state) => [{ type: 'playWelcome' }, ...kioskTimer(state, 'welcomeReturn')],
+  [ScannerStatus.UNKNOWN_GUEST]: (state) => [
+    { type: 'closeCamera' },
+    { type: 'announce', line: 'unknownGuest' },
+    ...kioskTimer(state, 'errorReturn'),
+  ],
+  [ScannerStatus.DENIED]: (state) => [{ type: 'closeCamera' }, ...kioskTimer(state, 'errorReturn')],
+};
+
+const enter = (
+  state: ScannerState,
+  status: ScannerStatus,
+  patch: Partial<ScannerState> = {}
+): ScannerTransition => {
+  const next = { ...state, error: null, ...patch, status, stage: state.stage + 1 };
+  return { state: next, effects: ENTRY_EFFECTS[status](next) };
+};
+
+const fail = (state: ScannerState, error: ScannerFault) =>
+  enter(state, ScannerStatus.ERROR, { error, cameraLost: false });
+
+const failLiveness = (state: ScannerState, error: ScannerFault) => {
+  const result = fail(state, error);
+  result.effects.push({ type: 'sound', sound: 'livenessFail' });
+  return result;
+};
+
+// Where the reveal leads: low risk takes the SUCCESS fast path, a referral ends DENIED, and
+// everyone else (or a reveal without a profile) goes through FINALIZING to APPROVED
+const REVEAL_TARGETS: { [key in RiskOutcome]: ScannerStatus } = {
+  LOW: ScannerStatus.SUCCESS,
+  MEDIUM: ScannerStatus.FINALIZING,
+  HIGH: ScannerStatus.FINALIZING,
+  DENIED: ScannerStatus.DENIED,
+};
+
+const afterReveal = (state: ScannerState) => (state.outcome ? REVEAL_TARGETS[state.outcome] : ScannerStatus.FINALIZING);
+
+// Enters CAPTURED by grabbing the frame on screen (DETECTING takes its own snapshot before FACE_CAPTURED)
+const capture = (state: ScannerState) => {
+  const result = enter(state, ScannerStatus.CAPTURED);
+  result.effects.unshift({ type: 'captureSnapshot' });
+  return result;
+};
+
+// Operator jumps skip the normal guards. Jumping to DETECTING starts a fresh capture with the
+// camera (re)opened, jumping to LIVENESS reuses the last challenge (or asks for a blink), and
+// jumping to CAPTURED grabs whatever frame is on screen.
+const jump = (state: ScannerState, status: ScannerStatus): ScannerTransition => {
+  const patch: Partial<ScannerState> = {};
+  if (status === ScannerStatus.COUNTDOWN) patch.countdown = COUNTDOWN_FROM;
+  if (status === ScannerStatus.ERROR) patch.error = createFault('operator-stopped');
+  if (status === ScannerStatus.SCANNING) patch.match = null;
+  if (status === ScannerStatus.SCANNING || status === ScannerStatus.SCAN_PASSED) patch.outcome = null;
+  if (status === ScannerStatus.LIVENESS) patch.challenge = state.challenge ?? 'blink';
+  const result = enter(state, status, patch);
+  if (status === ScannerStatus.DETECTING) result.effects.unshift({ type: 'clearSession' }, { type: 'openCamera' });
+  if (status === ScannerStatus.LIVENESS) result.effects.unshift({ type: 'openCamera' });
+  if (status === ScannerStatus.CAPTURED) result.effects.unshift({ type: 'captureSnapshot' });
+  return result;
+};
+
+// Where SKIP leads from each status: the next stage of the normal flow (SCAN_PASSED follows the outcome)
+const SKIP_TARGETS: { [key in ScannerStatus]: ScannerStatus } = {
+  [ScannerStatus.IDLE]: ScannerStatus.INITIALIZING,
+  [ScannerStatus.INITIALIZING]: ScannerStatus.DETECTING,
+  [ScannerStatus.DETECTING]: ScannerStatus.CAPTURED,
+  [ScannerStatus.LIVENESS]: ScannerStatus.CAPTURED,
+  [ScannerStatus.CAPTURED]: ScannerStatus.SCANNING,
+  [ScannerStatus.SCANNING]: ScannerStatus.SCAN_PASSED,
+  [ScannerStatus.SCAN_PASSED]: ScannerStatus.FINALIZING,
+  [ScannerStatus.FINALIZING]: ScannerStatus.COUNTDOWN,
+  [ScannerStatus.COUNTDOWN]: ScannerStatus.ONBOARDED,
+  [ScannerStatus.ONBOARDED]: ScannerStatus.WELCOME,
+  [ScannerStatus.WELCOME]: ScannerStatus.IDLE,
+  [ScannerStatus.SUCCESS]: ScannerStatus.IDLE,
+  [ScannerStatus.ERROR]: ScannerStatus.IDLE,
+  [ScannerStatus.UNKNOWN_GUEST]: ScannerStatus.IDLE,
+  [ScannerStatus.DENIED]: ScannerStatus.IDLE,
+};
+
+// Returns null when the event is not accepted in the current state.
+export const transition = (state: ScannerState, event: ScannerEvent): ScannerTransition | null => {
+  // Global events first
+  if (event.type === 'RESET') {
+    if (state.status === ScannerStatus.IDLE) return null;
+    return enter(state, ScannerStatus.IDLE, { match: null, outcome: null, cameraLost: false, retryAttempt: 0 });
+  }
+  if (event.type === 'ABORT') {
+    if (!ACTIVE_STATES.has(state.status)) return null;
+    return fail(state, event.error);
+  }
+  if (event.type === 'JUMP') return jump({ ...state, cameraLost: false }, event.status);
+  if (event.type === 'SKIP') {
+    const target = state.status === ScannerStatus.SCAN_PASSED ? afterReveal(state) : SKIP_TARGETS[state.status];
+    return jump({ ...state, cameraLost: false }, target);
+  }
+  // Only the stages that hold the camera open care about losing it
+  if (event.type === 'CAMERA_LOST') {
+    if (state.status !== ScannerStatus.INITIALIZING && state.status !== ScannerStatus.DETECTING && state.status !== ScannerStatus.LIVENESS) return null;
+    if (state.cameraLost) return null;
+    return enter(state, ScannerStatus.INITIALIZING, { cameraLost: true, challenge: null });
+  }
+  if (event.type === 'SET_KIOSK') {
+    if (state.kiosk === event.enabled) return null;
+    // Takes effect from the next stage, except in IDLE where the attract watch starts or stops now
+    if (state.status === ScannerStatus.IDLE) return enter(state, ScannerStatus.IDLE, { kiosk: event.enabled });
+    return { state: { ...state, kiosk: event.enabled }, effects: [] };
+  }
+  // Guard: timers and retries only count for the stage that armed them
+  if ((event.type === 'TIMER' || event.type === 'RETRY') && event.stage !== state.stage) return null;
+
+  switch (state.status) {
+    case ScannerStatus.IDLE:
+      if (event.type === 'START' || (event.type === 'GUEST_APPROACHED' && state.kiosk)) {
+        return enter(state, ScannerStatus.INITIALIZING, { challenge: null, match: null, outcome: null, cameraLost: false, retryAttempt: 0 });
+      }
+      return null;
+
+    case ScannerStatus.INITIALIZING:
+      if (event.type === 'CAMERA_READY') return enter(state, ScannerStatus.DETECTING, { cameraLost: false });
+      if (event.type === 'CAMERA_FAILED') return fail(state, event.error);
+      // Only armed while recovering a lost camera
+      if (event.type === 'TIMER') return fail(state, createFault('camera-disconnected'));
+      return null;
+
+    case ScannerStatus.DETECTING:
+      if (event.type === 'FACE_CAPTURED') return enter(state, ScannerStatus.CAPTURED);
+      if (event.type === 'FACE_LOCKED') return enter(state, ScannerStatus.LIVENESS, { challenge: event.challenge });
+      if (event.type === 'DETECTION_FAILED') return fail(state, event.error);
+      // Only armed in kiosk mode: nobody finished a capture, so go back to attracting guests
+      if (event.type === 'TIMER') return enter(state, ScannerStatus.IDLE, { match: null });
+      return null;
+
+    case ScannerStatus.LIVENESS:
+      if (event.type === 'LIVENESS_PASSED') return capture(state);
+      if (event.type === 'LIVENESS_FAILED') return failLiveness(state, event.error);
+      if (event.type === 'TIMER') return failLiveness(state, createFault('liveness-timeout'));
+      return null;
+
+    case ScannerStatus.CAPTURED:
+      if (event.type === 'TIMER') return enter(state, ScannerStatus.SCANNING, { match: null, outcome: null });
+      return null;
+
+    case ScannerStatus.SCANNING:
+      // The match is recorded without ending the stage, so the scan keeps playing for its full length
+      if (event.type === 'MATCH_RESULT') return { state: { ...state, match: event.match }, effects: [] };
+      if (event.type === 'MATCH_FAILED') return fail(state, event.error);
+      if (event.type === 'TIMER') {
+        if (!state.match) {
+          return { state: { ...state }, effects: [{ type: 'timer', duration: 'matchPoll', stage: state.stage }] };
+        }
+        return enter(state, state.match.profileId ? ScannerStatus.SCAN_PASSED : ScannerStatus.UNKNOWN_GUEST, { retryAttempt: 0 });
+      }
+      return null;
+
+    case ScannerStatus.SCAN_PASSED:
+      if (event.type === 'PROFILE_RESOLVED') return { state: { ...state, outcome: event.outcome }, effects: [] };
+      if (event.type === 'REVEAL_COMPLETE') return enter(state, afterReveal(state));
+      return null;
+
+    case ScannerStatus.FINALIZING:
+      if (event.type === 'TIMER') return enter(state, ScannerStatus.COUNTDOWN, { countdown: COUNTDOWN_FROM });
+      return null;
+
+    case ScannerStatus.COUNTDOWN:
+      if (event.type === 'TIMER') {
+        // Each tick re-enters COUNTDOWN as a new stage until the last second has elapsed
+        if (state.countdown > 1) return enter(state, ScannerStatus.COUNTDOWN, { countdown: state.countdown - 1 });
+        return enter(state, ScannerStatus.ONBOARDED, { countdown: 0 });
+      }
+      return null;
+
+    case ScannerStatus.ONBOARDED:
+      if (event.type === 'TIMER') return enter(state, ScannerStatus.WELCOME);
+      return null;
+
+    // A retry starts over from the camera; one asked for by a person gets a fresh set of automatic attempts
+    case ScannerStatus.ERROR:
+      if (event.type === 'RETRY') {
+        return enter(state, ScannerStatus.INITIALIZING, {
+          challenge: null,
+          match: null,
+          retryAttempt: event.automatic ? state.retryAttempt + 1 : 0,
+        });
+      }
+      if (event.type === 'TIMER') return enter(state, ScannerStatus.IDLE, { match: null });
+      return null;
+
+    // Terminal screens: WELCOME, SUCCESS, UNKNOWN_GUEST and DENIED (like ERROR above) leave through
+    // RESET, or in kiosk mode through the return timer.
+    case ScannerStatus.WELCOME:
+    case ScannerStatus.SUCCESS:
+    case ScannerStatus.UNKNOWN_GUEST:
+    case ScannerStatus.DENIED:
+      if (event.type === 'TIMER') return enter(state, ScannerStatus.IDLE, { match: null });
+      return null;
+  }
+};
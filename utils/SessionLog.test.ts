@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { SessionRecord, sessionsToCsv } from './SessionLog';
+
+const record = (profile: Partial<SessionRecord['profile']> = {}): SessionRecord => ({
+  id: 's1',
+  startedAt: 0,
+  endedAt: 1500,
+  statusDurations: {},
+  profile: { id: 'p1', name: 'Aisha Rahman', title: 'Guest', organisation: 'Example Bank', riskLevel: 'LOW', ...profile },
+  confidence: 91,
+  outcome: 'welcomed',
+  errorMessage: null,
+  thumbnail: null,
+});
+
+// The cells of the first data row, as the export wrote them
+const row = (r: SessionRecord) => sessionsToCsv([r]).split('\n')[1];
+
+describe('sessionsToCsv', () => {
+  it.each([
+    ['=HYPERLINK("http://x","y")', `"'=HYPERLINK(""http://x"",""y"")"`],
+    ['+1+1', "'+1+1"],
+    ['-2+3', "'-2+3"],
+    ['@SUM(A1)', "'@SUM(A1)"],
+  ])('escapes %s so it is not run as a formula', (name, cell) => {
+    expect(row(record({ name }))).toContain(`,${cell},`);
+  });
+
+  it('quotes cells with a carriage return', () => {
+    expect(row(record({ organisation: 'Example\rBank' }))).toContain(',"Example\rBank",');
+  });
+
+  it('leaves ordinary cells and numbers alone', () => {
+    expect(row(record())).toMatch(/^s1,1970-01-01T00:00:00\.000Z,1970-01-01T00:00:01\.500Z,1500,p1,Aisha Rahman,Guest,Example Bank,/);
+  });
+});
@@ -0,0 +1,264 @@
+// Persistent record of every scan, kept in IndexedDB on the kiosk.
+// A session runs from leaving IDLE to returning to it. SessionRecorder follows the machine while
+// the session runs, collecting the time spent in each status, the resolved profile, the match
+// confidence, the outcome, every error on the way (including ones that were retried automatically),
+// a small thumbnail of the snapshot and a face crop for badge reprints. The finished record is then
+// written to the `sessions` store and can be browsed and exported from the operator panel.
+
+import { ScannerStatus, AttendeeProfile, DetectionBox, FaceMatch, RiskLevel } from '../types';
+import { ScannerErrorCode, ScannerFault, SCANNER_ERRORS } from './ScannerError';
+
+// How the session ended: the last screen reached before returning to IDLE
+export type SessionOutcome = 'welcomed' | 'granted' | 'denied' | 'unknown-guest' | 'error' | 'abandoned';
+
+export const SESSION_OUTCOMES: SessionOutcome[] = ['welcomed', 'granted', 'denied', 'unknown-guest', 'error', 'abandoned'];
+
+export interface SessionProfile {
+  id: string;
+  name: string;
+  title: string;
+  organisation: string;
+  riskLevel: RiskLevel;
+}
+
+// One failure during a session, for diagnostics
+export interface SessionError {
+  at: number;                 // Epoch ms
+  code: ScannerErrorCode;
+  detail: string | null;
+  status: ScannerStatus;      // The status the flow was in when it failed
+  attempt: number;            // Automatic retries made before this failure
+}
+
+export interface SessionRecord {
+  id: string;
+  startedAt: number;   // Epoch ms
+  endedAt: number;
+  statusDurations: Partial<Record<ScannerStatus, number>>;   // Total ms spent in each status
+  profile: SessionProfile | null;
+  confidence: number | null;   // Match similarity in percent, when matching ran
+  outcome: SessionOutcome;
+  errorMessage: string | null;   // Message of the last error
+  errors?: SessionError[];     // Every error in order; missing in older records
+  thumbnail: string | null;    // Downscaled JPEG data URL of the snapshot
+  portrait?: string | null;    // Square face crop for reprinting the badge; missing in older records
+}
+
+const OUTCOME_BY_STATUS: Partial<Record<ScannerStatus, SessionOutcome>> = {
+  [ScannerStatus.WELCOME]: 'welcomed',
+  [ScannerStatus.SUCCESS]: 'granted',
+  [ScannerStatus.DENIED]: 'denied',
+  [ScannerStatus.UNKNOWN_GUEST]: 'unknown-guest',
+  [ScannerStatus.ERROR]: 'error',
+};
+
+const THUMBNAIL_SIZE = 96;
+
+// Downscales a snapshot to a square-bounded JPEG so hundreds of sessions stay small
+export const createThumbnail = (dataUrl: string, maxSize = THUMBNAIL_SIZE) =>
+  new Promise<string>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const scale = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.naturalWidth * scale);
+      canvas.height = Math.round(image.naturalHeight * scale);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas 2D context unavailable.'));
+        return;
+      }
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.7));
+    };
+    image.onerror = () => reject(new Error('Could not decode snapshot for thumbnail.'));
+    image.src = dataUrl;
+  });
+
+interface ActiveSession {
+  startedAt: number;
+  status: ScannerStatus;
+  statusSince: number;
+  statusDurations: Partial<Record<ScannerStatus, number>>;
+  profile: SessionProfile | null;
+  confidence: number | null;
+  errors: SessionError[];
+  snapshot: string | null;
+  faceBox: DetectionBox | null;
+}
+
+// Follows status changes and collects what a SessionRecord needs.
+export class SessionRecorder {
+  private session: ActiveSession | null = null;
+
+  // Call on every status change with the machine's current fault and retry count. Returns the
+  // finished session (without its images yet) together with the snapshot and face box to make
+  // them from, when this change ends a session.
+  observeStatus(status: ScannerStatus, error: ScannerFault | null, retryAttempt: number, now: number) {
+    const session = this.session;
+    if (!session) {
+      if (status !== ScannerStatus.IDLE) {
+        this.session = {
+          startedAt: now,
+          status,
+          statusSince: now,
+          statusDurations: {},
+          profile: null,
+          confidence: null,
+          // An operator jump can go straight from IDLE to ERROR
+          errors: status === ScannerStatus.ERROR && error
+            ? [{ at: now, code: error.code, detail: error.detail, status: ScannerStatus.IDLE, attempt: retryAttempt }]
+            : [],
+          snapshot: null,
+          faceBox: null,
+        };
+      }
+      return null;
+    }
+
+    session.statusDurations[session.status] = (session.statusDurations[session.status] ?? 0) + (now - session.statusSince);
+    if (status === ScannerStatus.IDLE) {
+      this.session = null;
+      const lastError = session.errors[session.errors.length - 1];
+      const record: SessionRecord = {
+        id: `${session.startedAt}-${Math.random().toString(36).slice(2, 8)}`,
+        startedAt: session.startedAt,
+        endedAt: now,
+        statusDurations: session.statusDurations,
+        profile: session.profile,
+        confidence: session.confidence,
+        outcome: OUTCOME_BY_STATUS[session.status] ?? 'abandoned',
+        errorMessage: lastError ? SCANNER_ERRORS[lastError.code].message : null,
+        errors: session.errors,
+        thumbnail: null,
+        portrait: null,
+      };
+      return { record, snapshot: session.snapshot, faceBox: session.faceBox };
+    }
+
+    if (status === ScannerStatus.ERROR && error) {
+      session.errors.push({ at: now, code: error.code, detail: error.detail, status: session.status, attempt: retryAttempt });
+    }
+    session.status = status;
+    session.statusSince = now;
+    return null;
+  }
+
+  setProfile(profile: AttendeeProfile) {
+    if (!this.session) return;
+    const { id, name, title, organisation, riskLevel } = profile;
+    this.session.profile = { id, name, title, organisation, riskLevel };
+  }
+
+  setMatch(match: FaceMatch) {
+    if (this.session) this.session.confidence = Math.round(match.similarity * 100);
+  }
+
+  setSnapshot(snapshot: string, faceBox: DetectionBox | null) {
+    if (!this.session) return;
+    this.session.snapshot = snapshot;
+    this.session.faceBox = faceBox;
+  }
+}
+
+// === IndexedDB storage ===
+
+const DB_NAME = 'face-scanner';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' }).createIndex('startedAt', 'startedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry (e.g. after the user frees storage) instead of caching the failure
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = fn(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const saveSession = async (record: SessionRecord) => {
+  await runRequest('readwrite', store => store.put(record));
+};
+
+// Newest first
+export const listSessions = async () => {
+  const records = await runRequest<SessionRecord[]>('readonly', store => store.index('startedAt').getAll());
+  return records.reverse();
+};
+
+export const clearSessions = async () => {
+  await runRequest('readwrite', store => store.clear());
+};
+
+// === Export ===
+
+const STATUSES = Object.values(ScannerStatus);
+
+export const sessionsToJson = (records: SessionRecord[]) => JSON.stringify(records, null, 2);
+
+// Spreadsheets run cells starting with these as formulas, so names like "=HYPERLINK(...)" are escaped
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (value: string | number | null) => {
+  if (value === null) return '';
+  const text = typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per session; thumbnails, portraits and error details are left out of the CSV (they are in the JSON export)
+export const sessionsToCsv = (records: SessionRecord[]) => {
+  const header = [
+    'id', 'startedAt', 'endedAt', 'durationMs', 'profileId', 'name', 'title', 'organisation', 'riskLevel',
+    'confidence', 'outcome', 'errorMessage', 'errorCodes', ...STATUSES.map(s => `ms_${s}`),
+  ];
+  const rows = records.map(r => [
+    r.id,
+    new Date(r.startedAt).toISOString(),
+    new Date(r.endedAt).toISOString(),
+    r.endedAt - r.startedAt,
+    r.profile?.id ?? null,
+    r.profile?.name ?? null,
+    r.profile?.title ?? null,
+    r.profile?.organisation ?? null,
+    r.profile?.riskLevel ?? null,
+    r.confidence,
+    r.outcome,
+    r.errorMessage,
+    (r.errors ?? []).map(e => e.code).join(' ') || null,
+    ...STATUSES.map(s => r.statusDurations[s] ?? null),
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+};
+
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking straight away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -1,11 +1,23 @@
+// Plays the cues of the current sound pack (SoundPacks.ts) through the Web Audio API.
+// Synthesized cues are generated on the fly from SynthPatches.ts; sample cues are fetched and
+// decoded when the pack is selected and play from memory. Everything mixes through one master
+// gain, so muting and the pack's master volume apply to every cue alike.
 
-// A utility to generate futuristic sci-fi sound effects using the Web Audio API
-// Advanced synthesis using FM, filtering, and noise buffers for high-tech UI feel.
+import { DEFAULT_SOUND_CONFIG, LOOPING_CUES, SOUND_PACKS, SoundCue, SoundPack } from './SoundPacks';
+import { SYNTH_PATCHES, SynthPatchName } from './SynthPatches';
 
 class SoundEffectsManager {
   private ctx: AudioContext | null = null;
   private masterGain: GainNode | null = null;
   private noiseBuffer: AudioBuffer | null = null;
+  private pack: SoundPack = SOUND_PACKS[DEFAULT_SOUND_CONFIG.pack];
+  private muted = false;
+  private duckLevel = 1;
+  private timeScale = 1;
+  // Decoded samples by URL; null once a file turned out to be missing or undecodable
+  private samples = new Map<string, Promise<AudioBuffer | null>>();
+  // Samples currently playing, so a time scale change reaches them
+  private activeSources = new Set<AudioBufferSourceNode>();
 
   constructor() {
     if (typeof window !== 'undefined') {
@@ -14,7 +26,7 @@ class SoundEffectsManager {
         this.ctx = new AudioContextClass();
         this.masterGain = this.ctx.createGain();
         this.masterGain.connect(this.ctx.destination);
-        this.masterGain.gain.value = 0.4; // Slightly louder master
+        this.applyVolume();
       }
     }
   }
@@ -25,372 +37,120 @@ class SoundEffectsManager {
     }
   }
 
-  private getNoiseBuffer() {
-    if (!this.ctx) return null;
-    if (!this.noiseBuffer) {
-      const bufferSize = this.ctx.sampleRate * 2; // 2 seconds of noise
-      const buffer = this.ctx.createBuffer(1, bufferSize, this.ctx.sampleRate);
-      const data = buffer.getChannelData(0);
-      for (let i = 0; i < bufferSize; i++) {
-        data[i] = Math.random() * 2 - 1;
-      }
-      this.noiseBuffer = buffer;
-    }
-    return this.noiseBuffer;
+  // Silences every cue, including any sample currently playing (operator control)
+  setMuted(muted: boolean) {
+    this.muted = muted;
+    this.applyVolume();
   }
 
-  private createOsc(type: OscillatorType, freq: number, startTime: number) {
-    if (!this.ctx || !this.masterGain) return null;
-    const osc = this.ctx.createOscillator();
-    const gain = this.ctx.createGain();
-    
-    osc.type = type;
-    osc.frequency.setValueAtTime(freq, startTime);
-    
-    osc.connect(gain);
-    gain.connect(this.masterGain);
-    
-    return { osc, gain };
+  isMuted() {
+    return this.muted;
   }
 
-  // 1. Camera Init: Professional Servo + Optical startup
-  playPowerUp() {
-    if (!this.ctx || !this.masterGain) return;
-    const t = this.ctx.currentTime;
-
-    // Layer 1: "Servo" / Iris Opening (Filtered Noise Sweep)
-    // Simulates the mechanical whirr of a lens extending
-    const buffer = this.getNoiseBuffer();
-    if (buffer) {
-        const noise = this.ctx.createBufferSource();
-        noise.buffer = buffer;
-        
-        // Bandpass filter moving up in frequency = motor spinning up
-        const noiseFilter = this.ctx.createBiquadFilter();
-        noiseFilter.type = 'bandpass';
-        noiseFilter.Q.value = 4; // Tight resonance for mechanical sound
-        noiseFilter.frequency.setValueAtTime(200, t);
-        noiseFilter.frequency.exponentialRampToValueAtTime(1500, t + 0.5); // Fast sweep
-
-        const noiseGain = this.ctx.createGain();
-        noiseGain.gain.setValueAtTime(0, t);
-        noiseGain.gain.linearRampToValueAtTime(0.25, t + 0.1);
-        noiseGain.gain.linearRampToValueAtTime(0, t + 0.5);
+  // Lowers every cue to `level` (0 to 1) of its volume, e.g. while the announcer speaks; 1 restores it
+  duck(level: number) {
+    this.duckLevel = level;
+    this.applyVolume();
+  }
 
-        noise.connect(noiseFilter);
-        noiseFilter.connect(noiseGain);
-        noiseGain.connect(this.masterGain);
-        
-        noise.start(t);
-        noise.stop(t + 0.6);
+  private applyVolume() {
+    if (this.ctx && this.masterGain) {
+      // A short glide rather than a jump, so ducking doesn't click
+      const volume = this.muted ? 0 : this.pack.masterVolume * this.duckLevel;
+      this.masterGain.gain.setTargetAtTime(volume, this.ctx.currentTime, 0.05);
     }
-
-    // Layer 2: Subtle Electronic Capacitor Charge (Sine Sweep)
-    const osc = this.ctx.createOscillator();
-    osc.type = 'sine';
-    osc.frequency.setValueAtTime(400, t);
-    osc.frequency.exponentialRampToValueAtTime(1200, t + 0.6); // Pitch up
-    
-    const oscGain = this.ctx.createGain();
-    oscGain.gain.setValueAtTime(0, t);
-    oscGain.gain.linearRampToValueAtTime(0.05, t + 0.2); // Very quiet
-    oscGain.gain.exponentialRampToValueAtTime(0.001, t + 0.6);
-
-    osc.connect(oscGain);
-    oscGain.connect(this.masterGain);
-    osc.start(t);
-    osc.stop(t + 0.7);
-
-    // Layer 3: Mechanical "Click" (Lens Lock) at the end
-    // A quick burst of high pitched square wave
-    const click = this.ctx.createOscillator();
-    click.type = 'square';
-    click.frequency.setValueAtTime(800, t + 0.5);
-    
-    const clickGain = this.ctx.createGain();
-    clickGain.gain.setValueAtTime(0, t + 0.5);
-    clickGain.gain.setValueAtTime(0.05, t + 0.5);
-    clickGain.gain.exponentialRampToValueAtTime(0.001, t + 0.55); // Short snappy decay
-
-    click.connect(clickGain);
-    clickGain.connect(this.masterGain);
-    click.start(t + 0.5);
-    click.stop(t + 0.6);
   }
 
-  // 2. Lock On (Capture): Professional Digital Shutter Snap
-  // Replaces previous sci-fi lock sound with a crisp camera shutter effect
-  playLockOn() {
-    if (!this.ctx || !this.masterGain) return;
-    const t = this.ctx.currentTime;
-
-    // Layer 1: Mechanical Latch (Sharp Click)
-    // A very short square wave burst for the "click" of the mechanism
-    const latch = this.ctx.createOscillator();
-    latch.type = 'square';
-    latch.frequency.setValueAtTime(800, t);
-    
-    const latchGain = this.ctx.createGain();
-    latchGain.gain.setValueAtTime(0.1, t);
-    latchGain.gain.exponentialRampToValueAtTime(0.001, t + 0.03); // Instant decay
-
-    latch.connect(latchGain);
-    latchGain.connect(this.masterGain);
-    latch.start(t);
-    latch.stop(t + 0.05);
-
-    // Layer 2: Shutter Body (Mirror Slap / Air Movement)
-    // Filtered noise to create the "thwack" sound
-    const buffer = this.getNoiseBuffer();
-    if (buffer) {
-        const shutter = this.ctx.createBufferSource();
-        shutter.buffer = buffer;
-
-        const filter = this.ctx.createBiquadFilter();
-        filter.type = 'lowpass';
-        filter.frequency.setValueAtTime(1500, t); // Start mid
-        filter.frequency.exponentialRampToValueAtTime(300, t + 0.1); // Drop fast to mimic damping
-
-        const shutterGain = this.ctx.createGain();
-        shutterGain.gain.setValueAtTime(0.6, t); // Strong initial impact
-        shutterGain.gain.exponentialRampToValueAtTime(0.001, t + 0.15); // Quick decay
+  // Switches to a pack and starts decoding its samples. Resolves once all of them are ready
+  // (or known to be unavailable); cues played before then wait for their sample.
+  usePack(pack: SoundPack) {
+    this.pack = pack;
+    this.applyVolume();
+    return Promise.all(Object.values(pack.cues).map(sound => (sound?.sample ? this.loadSample(sound.sample) : null)))
+      .then(() => undefined);
+  }
 
-        shutter.connect(filter);
-        filter.connect(shutterGain);
-        shutterGain.connect(this.masterGain);
-        
-        shutter.start(t);
-        shutter.stop(t + 0.2);
+  private loadSample(url: string) {
+    let sample = this.samples.get(url);
+    if (!sample) {
+      const ctx = this.ctx;
+      sample = !ctx ? Promise.resolve(null) : fetch(url)
+        .then(response => {
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          return response.arrayBuffer();
+        })
+        .then(data => ctx.decodeAudioData(data))
+        .catch(err => {
+          console.warn(`Sound sample '${url}' is unavailable; its cue falls back to the synthesized sound.`, err);
+          return null;
+        });
+      this.samples.set(url, sample);
     }
+    return sample;
+  }
+
+  // Rehearsal mode: samples play faster (and higher) along with the rest of the flow.
+  // Synthesized cues are a fraction of a second and keep their natural length.
+  setTimeScale(timeScale: number) {
+    this.timeScale = timeScale;
+    this.activeSources.forEach(source => { source.playbackRate.value = timeScale; });
   }
 
-  // 3. Scan Loop: External File Playback (With Clipping)
-  // Plays 'scanning.mp3' and returns a cleanup function to stop it.
-  playScanLoop() {
-    const audio = new Audio('/sounds/scanning.mp3');
-    audio.loop = true; // Loop if the file is shorter than 8s (unlikely for 1:38m)
-    audio.volume = 0.6;
-    
-    audio.play().catch(e => console.log("Scanning audio playback failed. Ensure '/sounds/scanning.mp3' exists.", e));
+  // Plays a cue of the current pack and returns a function that stops it. Looping cues run
+  // until stopped; one-shot cues may be left to finish. Cues the pack leaves out do nothing.
+  play(cue: SoundCue) {
+    const sound = this.pack.cues[cue];
+    const ctx = this.ctx;
+    if (!sound || !ctx || !this.masterGain) return () => {};
+
+    const out = ctx.createGain();
+    out.gain.value = sound.volume ?? 1;
+    out.connect(this.masterGain);
+
+    let stopped = false;
+    let stopSound = () => {};
+    const start = (buffer: AudioBuffer | null) => {
+      if (stopped) return;
+      if (buffer) stopSound = this.playSample(ctx, buffer, out, LOOPING_CUES.includes(cue));
+      else if (sound.synth) stopSound = this.playSynth(ctx, sound.synth, out);
+    };
+    if (sound.sample) this.loadSample(sound.sample).then(start);
+    else start(null);
 
-    // Return cleanup function to "clip" the audio when animation ends
     return () => {
-        audio.pause();
-        audio.currentTime = 0;
+      stopped = true;
+      stopSound();
     };
   }
 
-  // 4. Scan Pass (Success): Professional "Ascending Chime"
-  // Clean, reassuring, fintech/banking style
-  playSuccess() {
-    if (!this.ctx || !this.masterGain) return;
-    const t = this.ctx.currentTime;
-
-    // Note 1: E5
-    const osc1 = this.ctx.createOscillator();
-    osc1.type = 'sine';
-    osc1.frequency.setValueAtTime(659.25, t);
-    
-    const gain1 = this.ctx.createGain();
-    gain1.gain.setValueAtTime(0, t);
-    gain1.gain.linearRampToValueAtTime(0.1, t + 0.05);
-    gain1.gain.exponentialRampToValueAtTime(0.001, t + 0.8);
-
-    osc1.connect(gain1);
-    gain1.connect(this.masterGain);
-    osc1.start(t);
-    osc1.stop(t + 0.8);
-
-    // Note 2: B5 (Perfect 5th up)
-    const osc2 = this.ctx.createOscillator();
-    osc2.type = 'sine';
-    osc2.frequency.setValueAtTime(987.77, t + 0.15);
-    
-    const gain2 = this.ctx.createGain();
-    gain2.gain.setValueAtTime(0, t + 0.15);
-    gain2.gain.linearRampToValueAtTime(0.1, t + 0.2);
-    gain2.gain.exponentialRampToValueAtTime(0.001, t + 1.2);
-
-    osc2.connect(gain2);
-    gain2.connect(this.masterGain);
-    osc2.start(t + 0.15);
-    osc2.stop(t + 1.2);
-    
-    // Subtle warmth (Triangle wave layer on root)
-    const warmth = this.ctx.createOscillator();
-    warmth.type = 'triangle';
-    warmth.frequency.setValueAtTime(329.63, t); // E4
-    const warmthGain = this.ctx.createGain();
-    warmthGain.gain.setValueAtTime(0.05, t);
-    warmthGain.gain.exponentialRampToValueAtTime(0.001, t + 1.0);
-    
-    warmth.connect(warmthGain);
-    warmthGain.connect(this.masterGain);
-    warmth.start(t);
-    warmth.stop(t + 1.0);
+  private playSample(ctx: AudioContext, buffer: AudioBuffer, out: AudioNode, loop: boolean) {
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.loop = loop;
+    source.playbackRate.value = this.timeScale;
+    source.connect(out);
+    source.onended = () => this.activeSources.delete(source);
+    this.activeSources.add(source);
+    source.start();
+    return () => source.stop();
   }
 
-  // 5. Tag Appear: Professional "Digital Verification" Chime
-  // Rich, stable pitch (Fundamental + Octave) with a crisp transient. 
-  // Sounds like a premium app checklist confirmation.
-  playTagAppear() {
-      if (!this.ctx || !this.masterGain) return;
-      const t = this.ctx.currentTime;
-
-      // Layer 1: Fundamental Tone (Clear, mid-high, stable)
-      // C6 approx 1046Hz, adjusted to 1200Hz for brightness
-      const osc1 = this.ctx.createOscillator();
-      osc1.type = 'sine';
-      osc1.frequency.setValueAtTime(1200, t); 
-      
-      const gain1 = this.ctx.createGain();
-      gain1.gain.setValueAtTime(0, t);
-      gain1.gain.linearRampToValueAtTime(0.08, t + 0.01);
-      gain1.gain.exponentialRampToValueAtTime(0.001, t + 0.2);
-      
-      osc1.connect(gain1);
-      gain1.connect(this.masterGain);
-      osc1.start(t);
-      osc1.stop(t + 0.2);
-
-      // Layer 2: Upper Harmonic (Airy/Glassy Texture)
-      const osc2 = this.ctx.createOscillator();
-      osc2.type = 'triangle'; // Triangle adds a slight richness vs pure sine
-      osc2.frequency.setValueAtTime(2400, t); // Perfect Octave up
-      
-      const gain2 = this.ctx.createGain();
-      gain2.gain.setValueAtTime(0, t);
-      gain2.gain.linearRampToValueAtTime(0.04, t + 0.01);
-      gain2.gain.exponentialRampToValueAtTime(0.001, t + 0.15); // Shorter decay than fundamental
-
-      osc2.connect(gain2);
-      gain2.connect(this.masterGain);
-      osc2.start(t);
-      osc2.stop(t + 0.15);
-
-      // Layer 3: Transient "Click" (Simulates digital switch contact)
-      const osc3 = this.ctx.createOscillator();
-      osc3.type = 'square';
-      osc3.frequency.setValueAtTime(4000, t);
-      
-      const gain3 = this.ctx.createGain();
-      gain3.gain.setValueAtTime(0.02, t);
-      gain3.gain.exponentialRampToValueAtTime(0.001, t + 0.02); // Very fast click
-
-      osc3.connect(gain3);
-      gain3.connect(this.masterGain);
-      osc3.start(t);
-      osc3.stop(t + 0.02);
+  private playSynth(ctx: AudioContext, name: SynthPatchName, out: AudioNode) {
+    const stop = SYNTH_PATCHES[name]({ ctx, out, noise: () => this.getNoiseBuffer(ctx) }, ctx.currentTime);
+    return typeof stop === 'function' ? stop : () => {};
   }
 
-  // 6. Name Reveal: Fast digital readout
-  playDataReveal() {
-      if (!this.ctx) return;
-      const t = this.ctx.currentTime;
-      // Burst of tiny clicks
-      for(let i=0; i<5; i++) {
-          const osc = this.createOsc('square', 2000 + Math.random()*500, t + i*0.04);
-          if (osc) {
-              osc.gain.gain.setValueAtTime(0.05, t + i*0.04);
-              osc.gain.gain.exponentialRampToValueAtTime(0.001, t + i*0.04 + 0.03);
-              osc.osc.start(t + i*0.04);
-              osc.osc.stop(t + i*0.04 + 0.03);
-          }
+  private getNoiseBuffer(ctx: AudioContext) {
+    if (!this.noiseBuffer) {
+      const bufferSize = ctx.sampleRate * 2; // 2 seconds of noise
+      const buffer = ctx.createBuffer(1, bufferSize, ctx.sampleRate);
+      const data = buffer.getChannelData(0);
+      for (let i = 0; i < bufferSize; i++) {
+        data[i] = Math.random() * 2 - 1;
       }
-  }
-
-  // 7. PEP Alert: "Soft Notification"
-  // Gentle, non-intrusive alert (Sine wave bell).
-  playPepAlert() {
-      if (!this.ctx || !this.masterGain) return;
-      const t = this.ctx.currentTime;
-
-      // Single soft sine bell - A5 (880Hz)
-      const osc = this.ctx.createOscillator();
-      osc.type = 'sine'; 
-      osc.frequency.setValueAtTime(880, t); 
-      
-      const gain = this.ctx.createGain();
-      gain.gain.setValueAtTime(0, t);
-      gain.gain.linearRampToValueAtTime(0.08, t + 0.02); // Soft attack
-      gain.gain.exponentialRampToValueAtTime(0.001, t + 0.5); // Smooth tail
-      
-      osc.connect(gain);
-      gain.connect(this.masterGain);
-      
-      osc.start(t);
-      osc.stop(t + 0.5);
-  }
-
-  // 8. Risk High: "Professional Caution"
-  // Deeper, warmer tone (Filtered Triangle), not a buzzer.
-  playRiskAlert() {
-      if (!this.ctx || !this.masterGain) return;
-      const t = this.ctx.currentTime;
-
-      // Warm Triangle/Sine blend - D4 (~300Hz)
-      const osc = this.ctx.createOscillator();
-      osc.type = 'triangle';
-      osc.frequency.setValueAtTime(300, t); 
-      
-      // Heavy Lowpass filter to make it warm/soft and remove buzz
-      const filter = this.ctx.createBiquadFilter();
-      filter.type = 'lowpass';
-      filter.frequency.setValueAtTime(600, t);
-      filter.Q.value = 1;
-
-      const gain = this.ctx.createGain();
-      gain.gain.setValueAtTime(0, t);
-      gain.gain.linearRampToValueAtTime(0.1, t + 0.1); // Slower attack = softer feel
-      gain.gain.exponentialRampToValueAtTime(0.001, t + 0.8); 
-
-      osc.connect(filter);
-      filter.connect(gain);
-      gain.connect(this.masterGain);
-
-      osc.start(t);
-      osc.stop(t + 0.8);
-  }
-
-  // 9. Data Typing Tick
-  playDataTick() {
-    if (!this.ctx) return;
-    const t = this.ctx.currentTime;
-    
-    // Very short high noise tick filtered
-    const osc = this.createOsc('square', 3000, t);
-    if (osc) {
-        osc.gain.gain.setValueAtTime(0.03, t);
-        osc.gain.gain.exponentialRampToValueAtTime(0.001, t + 0.03);
-        osc.osc.start(t);
-        osc.osc.stop(t + 0.03);
+      this.noiseBuffer = buffer;
     }
-  }
-
-  // 10. Countdown Beep: Simple digital blip
-  playCountdownBeep() {
-    if (!this.ctx || !this.masterGain) return;
-    const t = this.ctx.currentTime;
-
-    const osc = this.ctx.createOscillator();
-    osc.type = 'square';
-    osc.frequency.setValueAtTime(800, t);
-
-    // Filter to make it less harsh
-    const filter = this.ctx.createBiquadFilter();
-    filter.type = 'lowpass';
-    filter.frequency.value = 1500;
-
-    const gain = this.ctx.createGain();
-    gain.gain.setValueAtTime(0.05, t);
-    gain.gain.exponentialRampToValueAtTime(0.001, t + 0.1);
-
-    osc.connect(filter);
-    filter.connect(gain);
-    gain.connect(this.masterGain);
-
-    osc.start(t);
-    osc.stop(t + 0.1);
+    return this.noiseBuffer;
   }
 }
 
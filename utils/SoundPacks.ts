@@ -0,0 +1,138 @@
+// Sound packs: which sound plays for each cue of the flow, and how loud.
+// A cue is a synthesized patch (SynthPatches.ts), a sample file, or both, in which case the
+// patch stands in while the sample is missing or cannot be decoded. A cue a pack leaves out is
+// silent. Each event picks its pack in its config and may swap in its own samples and volumes.
+
+import { SynthPatchName, SYNTH_PATCHES } from './SynthPatches';
+
+export type SoundCue =
+  | 'powerUp'
+  | 'lockOn'
+  | 'scanLoop'
+  | 'dataTick'
+  | 'success'
+  | 'tagAppear'
+  | 'dataReveal'
+  | 'pepAlert'
+  | 'riskClear'
+  | 'riskCaution'
+  | 'riskAlert'
+  | 'denied'
+  | 'countdownBeep'
+  | 'livenessPrompt'
+  | 'livenessFail'
+  | 'welcome';
+
+export const SOUND_CUES: SoundCue[] = [
+  'powerUp', 'lockOn', 'scanLoop', 'dataTick', 'success', 'tagAppear', 'dataReveal', 'pepAlert',
+  'riskClear', 'riskCaution', 'riskAlert', 'denied', 'countdownBeep', 'livenessPrompt', 'livenessFail', 'welcome',
+];
+
+// Cues whose sample repeats until the flow stops it
+export const LOOPING_CUES: SoundCue[] = ['scanLoop'];
+
+export interface CueSound {
+  synth?: SynthPatchName;
+  sample?: string;     // URL of an audio file
+  volume?: number;     // Multiplier on the pack's master volume; 1 when omitted
+}
+
+export interface SoundPack {
+  id: SoundPackId;
+  name: string;
+  masterVolume: number;
+  cues: Partial<Record<SoundCue, CueSound>>;
+}
+
+export type SoundPackId = 'sci-fi' | 'corporate' | 'silent';
+
+export const SOUND_PACKS: { [key in SoundPackId]: SoundPack } = {
+  'sci-fi': {
+    id: 'sci-fi',
+    name: 'Sci-fi',
+    masterVolume: 0.4,
+    cues: {
+      powerUp: { synth: 'powerUp' },
+      lockOn: { synth: 'lockOn' },
+      // The samples mix through the master volume like everything else; these bring them to 0.6 and full level
+      scanLoop: { sample: '/sounds/scanning.mp3', synth: 'scanHum', volume: 1.5 },
+      dataTick: { synth: 'dataTick' },
+      success: { synth: 'success' },
+      tagAppear: { synth: 'tagAppear' },
+      dataReveal: { synth: 'dataReveal' },
+      pepAlert: { synth: 'pepAlert' },
+      riskClear: { synth: 'riskClear' },
+      riskCaution: { synth: 'riskCaution' },
+      riskAlert: { synth: 'riskAlert' },
+      denied: { synth: 'denied' },
+      countdownBeep: { synth: 'countdownBeep' },
+      livenessPrompt: { synth: 'livenessPrompt' },
+      livenessFail: { synth: 'livenessFail' },
+      welcome: { sample: '/sounds/welcome.mp3', volume: 2.5 },
+    },
+  },
+  // Quieter, for daytime conferences: no startup whirr or typing ticks, softer chimes
+  corporate: {
+    id: 'corporate',
+    name: 'Corporate',
+    masterVolume: 0.3,
+    cues: {
+      lockOn: { synth: 'lockOn', volume: 0.6 },
+      scanLoop: { synth: 'scanHum', volume: 0.5 },
+      success: { synth: 'success' },
+      tagAppear: { synth: 'tagAppear', volume: 0.7 },
+      pepAlert: { synth: 'pepAlert' },
+      riskClear: { synth: 'riskClear' },
+      riskCaution: { synth: 'riskCaution', volume: 0.8 },
+      riskAlert: { synth: 'riskAlert', volume: 0.8 },
+      denied: { synth: 'denied', volume: 0.8 },
+      countdownBeep: { synth: 'countdownBeep', volume: 0.6 },
+      livenessPrompt: { synth: 'livenessPrompt' },
+      livenessFail: { synth: 'livenessFail', volume: 0.8 },
+      welcome: { sample: '/sounds/welcome.mp3', volume: 2 },
+    },
+  },
+  silent: {
+    id: 'silent',
+    name: 'Silent',
+    masterVolume: 0,
+    cues: {},
+  },
+};
+
+// The `sounds` block of an event config
+export interface SoundConfig {
+  pack: SoundPackId;
+  cues: Partial<Record<SoundCue, CueSound>>;   // Merged over the pack's own cue by cue
+}
+
+export const DEFAULT_SOUND_CONFIG: SoundConfig = { pack: 'sci-fi', cues: {} };
+
+export const isSoundPackId = (value: unknown): value is SoundPackId =>
+  typeof value === 'string' && value in SOUND_PACKS;
+
+export const isSynthPatchName = (value: unknown): value is SynthPatchName =>
+  typeof value === 'string' && value in SYNTH_PATCHES;
+
+// `?sounds=silent` swaps the event's pack, e.g. for a rehearsal in a quiet room
+export const getSoundPackOverride = (search = window.location.search) => {
+  const param = new URLSearchParams(search).get('sounds');
+  if (param === null) return null;
+  if (!isSoundPackId(param)) {
+    console.warn(`Ignoring unknown sound pack '${param}'.`);
+    return null;
+  }
+  return param;
+};
+
+// The pack an event plays. The event's cue overrides only apply to its own pack, so an
+// operator switching to another pack (or to silence) from the URL gets exactly that pack.
+export const resolveSoundPack = (config: SoundConfig, override = getSoundPackOverride()): SoundPack => {
+  const pack = SOUND_PACKS[override ?? config.pack];
+  if (pack.id !== config.pack) return pack;
+  const cues = { ...pack.cues };
+  (Object.keys(config.cues) as SoundCue[]).forEach(cue => {
+    cues[cue] = { ...cues[cue], ...config.cues[cue] };
+  });
+  return { ...pack, cues };
+};
@@ -0,0 +1,236 @@
+// Souvenir card the guest can take home: the captured snapshot with their name, screening
+// badges, risk label and the event branding, rendered to a PNG entirely on a canvas.
+// The card carries a QR code that points at a copy of itself served by the kiosk's own web
+// server on the venue LAN (see `server/souvenirs.ts`); nothing is uploaded to the cloud.
+
+import { AttendeeProfile, ProfileTag } from '../types';
+import { EventConfig } from './EventConfig';
+import { getRiskOutcome } from './ProfileRegistry';
+import { drawQrCode } from './QrCode';
+import { OUTCOME_STYLES } from './RevealTimeline';
+import { MESSAGES, format } from './Messages';
+
+export const SOUVENIRS_URL = '/souvenirs';
+
+const CARD_WIDTH = 1080;
+const CARD_HEIGHT = 1350;
+const MARGIN = 72;
+const PHOTO_SIZE = 640;
+const QR_SIZE = 220;
+const FONT = 'Merriweather, serif';
+
+const BADGES: Record<ProfileTag, { label: string; color: string }> = {
+  'ekyc': { label: 'eKYC', color: '#4ade80' },
+  'world-check': { label: 'World Check', color: '#22d3ee' },
+  'pep': { label: 'PEP-DETECTED', color: '#eab308' },
+};
+
+export interface SouvenirCardInput {
+  snapshot: string;      // Data URL from captureSnapshot
+  profile: AttendeeProfile;
+  event: EventConfig;
+  downloadUrl: string;   // Encoded in the QR code
+}
+
+const loadImage = (src: string, crossOrigin = false) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    // A cross-origin logo must allow CORS, otherwise it would taint the canvas and block export
+    if (crossOrigin) image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Could not load image '${src}'.`));
+    image.src = src;
+  });
+
+// Shrinks the font until `text` fits in `maxWidth`
+const fitFont = (ctx: CanvasRenderingContext2D, text: string, weight: string, size: number, maxWidth: number) => {
+  let fontSize = size;
+  ctx.font = `${weight} ${fontSize}px ${FONT}`;
+  while (fontSize > 16 && ctx.measureText(text).width > maxWidth) {
+    fontSize -= 2;
+    ctx.font = `${weight} ${fontSize}px ${FONT}`;
+  }
+};
+
+const roundedRect = (ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, radius: number) => {
+  ctx.beginPath();
+  ctx.roundRect(x, y, width, height, radius);
+};
+
+// Outlined pill like the reveal tags; returns its width so badges can be laid out in a row
+const drawBadge = (ctx: CanvasRenderingContext2D, label: string, color: string, x: number, y: number) => {
+  ctx.font = `bold 30px ${FONT}`;
+  const width = ctx.measureText(label).width + 48;
+  roundedRect(ctx, x, y, width, 60, 10);
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.fill();
+  ctx.lineWidth = 3;
+  ctx.strokeStyle = color;
+  ctx.stroke();
+  ctx.fillStyle = color;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(label, x + 24, y + 31);
+  return width;
+};
+
+// Renders the finished card as a PNG blob
+export const renderSouvenirCard = async ({ snapshot, profile, event, downloadUrl }: SouvenirCardInput) => {
+  const [photo, logo] = await Promise.all([
+    loadImage(snapshot),
+    // The card is still worth having without the logo
+    loadImage(event.edd.logo.src, true).catch((err) => {
+      console.warn(`Souvenir card drawn without the event logo '${event.edd.logo.src}':`, err);
+      return null;
+    }),
+  ]);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = CARD_WIDTH;
+  canvas.height = CARD_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable.');
+  // Merriweather is loaded by the page; make sure it is ready before any text is measured
+  await document.fonts?.load(`bold 32px ${FONT}`).catch(() => undefined);
+
+  // Background
+  const background = ctx.createLinearGradient(0, 0, 0, CARD_HEIGHT);
+  background.addColorStop(0, '#0f172a');
+  background.addColorStop(1, '#020617');
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, CARD_WIDTH, CARD_HEIGHT);
+  ctx.strokeStyle = event.colors.primary;
+  ctx.globalAlpha = 0.4;
+  ctx.lineWidth = 4;
+  ctx.strokeRect(24, 24, CARD_WIDTH - 48, CARD_HEIGHT - 48);
+  ctx.globalAlpha = 1;
+
+  // Event title
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'alphabetic';
+  ctx.fillStyle = event.colors.primary;
+  fitFont(ctx, event.title.toUpperCase(), 'bold', 44, CARD_WIDTH - MARGIN * 2);
+  ctx.fillText(event.title.toUpperCase(), CARD_WIDTH / 2, 112);
+  ctx.fillStyle = '#0891b2';
+  fitFont(ctx, event.subtitle, 'normal', 26, CARD_WIDTH - MARGIN * 2);
+  ctx.fillText(event.subtitle, CARD_WIDTH / 2, 156);
+
+  // Snapshot, cropped to a square
+  const photoX = (CARD_WIDTH - PHOTO_SIZE) / 2;
+  const photoY = 200;
+  const crop = Math.min(photo.naturalWidth, photo.naturalHeight);
+  ctx.save();
+  roundedRect(ctx, photoX, photoY, PHOTO_SIZE, PHOTO_SIZE, 32);
+  ctx.clip();
+  ctx.drawImage(
+    photo,
+    (photo.naturalWidth - crop) / 2, (photo.naturalHeight - crop) / 2, crop, crop,
+    photoX, photoY, PHOTO_SIZE, PHOTO_SIZE
+  );
+  ctx.restore();
+  roundedRect(ctx, photoX, photoY, PHOTO_SIZE, PHOTO_SIZE, 32);
+  ctx.lineWidth = 8;
+  ctx.strokeStyle = event.colors.primary;
+  ctx.stroke();
+
+  // Risk label over the top edge of the photo
+  // The card stays in English whatever language the kiosk shows
+  const outcome = OUTCOME_STYLES[getRiskOutcome(profile)];
+  const riskLabel = format(MESSAGES.en.reveal.riskScoring, { level: MESSAGES.en.outcomes[getRiskOutcome(profile)].label });
+  ctx.font = `900 34px ${FONT}`;
+  const riskWidth = ctx.measureText(riskLabel).width + 48;
+  roundedRect(ctx, (CARD_WIDTH - riskWidth) / 2, photoY - 28, riskWidth, 56, 10);
+  ctx.fillStyle = '#020617';
+  ctx.fill();
+  ctx.fillStyle = outcome.color;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(riskLabel, CARD_WIDTH / 2, photoY + 1);
+
+  // Screening badges, centred in a row under the photo
+  const badges = profile.tags.map(tag => BADGES[tag]);
+  ctx.font = `bold 30px ${FONT}`;
+  const gap = 20;
+  const rowWidth = badges.reduce((sum, badge) => sum + ctx.measureText(badge.label).width + 48, 0) + gap * Math.max(0, badges.length - 1);
+  let badgeX = (CARD_WIDTH - rowWidth) / 2;
+  badges.forEach(badge => {
+    badgeX += drawBadge(ctx, badge.label, badge.color, badgeX, photoY + PHOTO_SIZE + 32) + gap;
+  });
+
+  // Name and role
+  const nameY = photoY + PHOTO_SIZE + 172;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'alphabetic';
+  ctx.fillStyle = '#ffffff';
+  fitFont(ctx, profile.name.toUpperCase(), 'bold', 60, CARD_WIDTH - MARGIN * 2);
+  ctx.fillText(profile.name.toUpperCase(), CARD_WIDTH / 2, nameY);
+  const role = [profile.title, profile.organisation].filter(Boolean).join(', ');
+  ctx.fillStyle = '#67e8f9';
+  fitFont(ctx, role, 'normal', 30, CARD_WIDTH - MARGIN * 2);
+  ctx.fillText(role, CARD_WIDTH / 2, nameY + 50);
+
+  // Footer: logo and event name on the left, QR code on the right
+  const footerY = CARD_HEIGHT - MARGIN - QR_SIZE;
+  const qrX = CARD_WIDTH - MARGIN - QR_SIZE;
+  drawQrCode(ctx, downloadUrl, qrX, footerY, QR_SIZE);
+  ctx.textAlign = 'center';
+  ctx.fillStyle = '#94a3b8';
+  ctx.font = `normal 20px ${FONT}`;
+  ctx.fillText('Scan to download', qrX + QR_SIZE / 2, footerY - 14);
+
+  let textTop = footerY + 20;
+  if (logo) {
+    const logoHeight = 80;
+    const logoWidth = Math.min(360, (logo.naturalWidth / logo.naturalHeight) * logoHeight);
+    ctx.drawImage(logo, MARGIN, footerY, logoWidth, logoHeight);
+    textTop = footerY + logoHeight + 40;
+  }
+  ctx.textAlign = 'left';
+  ctx.fillStyle = event.colors.highlight;
+  const textWidth = qrX - MARGIN - 32;
+  event.welcome.eventName.forEach((line, i) => {
+    fitFont(ctx, line, 'bold', 28, textWidth);
+    ctx.fillText(line, MARGIN, textTop + i * 38);
+  });
+  ctx.fillStyle = '#475569';
+  fitFont(ctx, event.footer, 'normal', 18, textWidth);
+  ctx.fillText(event.footer, MARGIN, footerY + QR_SIZE);
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the souvenir card.'))), 'image/png');
+  });
+};
+
+// === Kiosk download ===
+
+// Unguessable name for one card; the QR code is the only way to find it
+export const createSouvenirId = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(12));
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// The kiosk server reports the address guests' phones can reach it on (its LAN IP rather than localhost)
+export const getSouvenirBaseUrl = async () => {
+  const response = await fetch(`${SOUVENIRS_URL}/base`);
+  if (!response.ok) throw new Error(`Souvenir server unavailable (HTTP ${response.status}).`);
+  const { baseUrl } = await response.json() as { baseUrl: string };
+  return baseUrl;
+};
+
+export const uploadSouvenir = async (id: string, card: Blob) => {
+  const response = await fetch(`${SOUVENIRS_URL}/${id}.png`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'image/png' },
+    body: card,
+  });
+  if (!response.ok) throw new Error(`Could not store souvenir card (HTTP ${response.status}).`);
+};
+
+// Renders the card for one guest and publishes it on the LAN; resolves to its download URL
+export const publishSouvenirCard = async (snapshot: string, profile: AttendeeProfile, event: EventConfig) => {
+  const id = createSouvenirId();
+  const downloadUrl = `${await getSouvenirBaseUrl()}${SOUVENIRS_URL}/${id}.png`;
+  const card = await renderSouvenirCard({ snapshot, profile, event, downloadUrl });
+  await uploadSouvenir(id, card);
+  return downloadUrl;
+};
@@ -0,0 +1,520 @@
+// Synthesized sound patches for the sound packs (see SoundPacks.ts).
+// Each patch builds its Web Audio graph into `out` starting at time `t` and plays once;
+// a looping patch returns a function that stops it. Patches carry their own internal levels,
+// and the pack's per-cue volume and master volume are applied downstream of `out`.
+
+export interface SynthContext {
+  ctx: AudioContext;
+  out: AudioNode;
+  noise: () => AudioBuffer;   // Two seconds of shared white noise
+}
+
+export type SynthPatch = (synth: SynthContext, t: number) => (() => void) | void;
+
+export type SynthPatchName =
+  | 'powerUp'
+  | 'lockOn'
+  | 'success'
+  | 'tagAppear'
+  | 'dataReveal'
+  | 'pepAlert'
+  | 'riskAlert'
+  | 'dataTick'
+  | 'countdownBeep'
+  | 'livenessPrompt'
+  | 'livenessFail'
+  | 'riskClear'
+  | 'riskCaution'
+  | 'denied'
+  | 'scanHum';
+
+const createOsc = (ctx: AudioContext, out: AudioNode, type: OscillatorType, freq: number, startTime: number) => {
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+
+  osc.type = type;
+  osc.frequency.setValueAtTime(freq, startTime);
+
+  osc.connect(gain);
+  gain.connect(out);
+
+  return { osc, gain };
+};
+
+export const SYNTH_PATCHES: { [key in SynthPatchName]: SynthPatch } = {
+  // Camera Init: Professional Servo + Optical startup
+  powerUp: ({ ctx, out, noise }, t) => {
+    // Layer 1: "Servo" / Iris Opening (Filtered Noise Sweep)
+    // Simulates the mechanical whirr of a lens extending
+    const buffer = noise();
+    if (buffer) {
+        const servo = ctx.createBufferSource();
+        servo.buffer = buffer;
+        
+        // Bandpass filter moving up in frequency = motor spinning up
+        const noiseFilter = ctx.createBiquadFilter();
+        noiseFilter.type = 'bandpass';
+        noiseFilter.Q.value = 4; // Tight resonance for mechanical sound
+        noiseFilter.frequency.setValueAtTime(200, t);
+        noiseFilter.frequency.exponentialRampToValueAtTime(1500, t + 0.5); // Fast sweep
+
+        const noiseGain = ctx.createGain();
+        noiseGain.gain.setValueAtTime(0, t);
+        noiseGain.gain.linearRampToValueAtTime(0.25, t + 0.1);
+        noiseGain.gain.linearRampToValueAtTime(0, t + 0.5);
+
+        servo.connect(noiseFilter);
+        noiseFilter.connect(noiseGain);
+        noiseGain.connect(out);
+        
+        servo.start(t);
+        servo.stop(t + 0.6);
+    }
+
+    // Layer 2: Subtle Electronic Capacitor Charge (Sine Sweep)
+    const osc = ctx.createOscillator();
+    osc.type = 'sine';
+    osc.frequency.setValueAtTime(400, t);
+    osc.frequency.exponentialRampToValueAtTime(1200, t + 0.6); // Pitch up
+    
+    const oscGain = ctx.createGain();
+    oscGain.gain.setValueAtTime(0, t);
+    oscGain.gain.linearRampToValueAtTime(0.05, t + 0.2); // Very quiet
+    oscGain.gain.exponentialRampToValueAtTime(0.001, t + 0.6);
+
+    osc.connect(oscGain);
+    oscGain.connect(out);
+    osc.start(t);
+    osc.stop(t + 0.7);
+
+    // Layer 3: Mechanical "Click" (Lens Lock) at the end
+    // A quick burst of high pitched square wave
+    const click = ctx.createOscillator();
+    click.type = 'square';
+    click.frequency.setValueAtTime(800, t + 0.5);
+    
+    const clickGain = ctx.createGain();
+    clickGain.gain.setValueAtTime(0, t + 0.5);
+    clickGain.gain.setValueAtTime(0.05, t + 0.5);
+    clickGain.gain.exponentialRampToValueAtTime(0.001, t + 0.55); // Short snappy decay
+
+    click.connect(clickGain);
+    clickGain.connect(out);
+    click.start(t + 0.5);
+    click.stop(t + 0.6);
+  },
+
+  // Lock On (Capture): Professional Digital Shutter Snap
+  // Replaces previous sci-fi lock sound with a crisp camera shutter effect
+  lockOn: ({ ctx, out, noise }, t) => {
+    // Layer 1: Mechanical Latch (Sharp Click)
+    // A very short square wave burst for the "click" of the mechanism
+    const latch = ctx.createOscillator();
+    latch.type = 'square';
+    latch.frequency.setValueAtTime(800, t);
+    
+    const latchGain = ctx.createGain();
+    latchGain.gain.setValueAtTime(0.1, t);
+    latchGain.gain.exponentialRampToValueAtTime(0.001, t + 0.03); // Instant decay
+
+    latch.connect(latchGain);
+    latchGain.connect(out);
+    latch.start(t);
+    latch.stop(t + 0.05);
+
+    // Layer 2: Shutter Body (Mirror Slap / Air Movement)
+    // Filtered noise to create the "thwack" sound
+    const buffer = noise();
+    if (buffer) {
+        const shutter = ctx.createBufferSource();
+        shutter.buffer = buffer;
+
+        const filter = ctx.createBiquadFilter();
+        filter.type = 'lowpass';
+        filter.frequency.setValueAtTime(1500, t); // Start mid
+        filter.frequency.exponentialRampToValueAtTime(300, t + 0.1); // Drop fast to mimic damping
+
+        const shutterGain = ctx.createGain();
+        shutterGain.gain.setValueAtTime(0.6, t); // Strong initial impact
+        shutterGain.gain.exponentialRampToValueAtTime(0.001, t + 0.15); // Quick decay
+
+        shutter.connect(filter);
+        filter.connect(shutterGain);
+        shutterGain.connect(out);
+        
+        shutter.start(t);
+        shutter.stop(t + 0.2);
+    }
+  },
+
+  // Scan Pass (Success): Professional "Ascending Chime"
+  // Clean, reassuring, fintech/banking style
+  success: ({ ctx, out }, t) => {
+    // Note 1: E5
+    const osc1 = ctx.createOscillator();
+    osc1.type = 'sine';
+    osc1.frequency.setValueAtTime(659.25, t);
+    
+    const gain1 = ctx.createGain();
+    gain1.gain.setValueAtTime(0, t);
+    gain1.gain.linearRampToValueAtTime(0.1, t + 0.05);
+    gain1.gain.exponentialRampToValueAtTime(0.001, t + 0.8);
+
+    osc1.connect(gain1);
+    gain1.connect(out);
+    osc1.start(t);
+    osc1.stop(t + 0.8);
+
+    // Note 2: B5 (Perfect 5th up)
+    const osc2 = ctx.createOscillator();
+    osc2.type = 'sine';
+    osc2.frequency.setValueAtTime(987.77, t + 0.15);
+    
+    const gain2 = ctx.createGain();
+    gain2.gain.setValueAtTime(0, t + 0.15);
+    gain2.gain.linearRampToValueAtTime(0.1, t + 0.2);
+    gain2.gain.exponentialRampToValueAtTime(0.001, t + 1.2);
+
+    osc2.connect(gain2);
+    gain2.connect(out);
+    osc2.start(t + 0.15);
+    osc2.stop(t + 1.2);
+    
+    // Subtle warmth (Triangle wave layer on root)
+    const warmth = ctx.createOscillator();
+    warmth.type = 'triangle';
+    warmth.frequency.setValueAtTime(329.63, t); // E4
+    const warmthGain = ctx.createGain();
+    warmthGain.gain.setValueAtTime(0.05, t);
+    warmthGain.gain.exponentialRampToValueAtTime(0.001, t + 1.0);
+    
+    warmth.connect(warmthGain);
+    warmthGain.connect(out);
+    warmth.start(t);
+    warmth.stop(t + 1.0);
+  },
+
+  // Tag Appear: Professional "Digital Verification" Chime
+  // Rich, stable pitch (Fundamental + Octave) with a crisp transient. 
+  // Sounds like a premium app checklist confirmation.
+  tagAppear: ({ ctx, out }, t) => {
+      // Layer 1: Fundamental Tone (Clear, mid-high, stable)
+      // C6 approx 1046Hz, adjusted to 1200Hz for brightness
+      const osc1 = ctx.createOscillator();
+      osc1.type = 'sine';
+      osc1.frequency.setValueAtTime(1200, t); 
+      
+      const gain1 = ctx.createGain();
+      gain1.gain.setValueAtTime(0, t);
+      gain1.gain.linearRampToValueAtTime(0.08, t + 0.01);
+      gain1.gain.exponentialRampToValueAtTime(0.001, t + 0.2);
+      
+      osc1.connect(gain1);
+      gain1.connect(out);
+      osc1.start(t);
+      osc1.stop(t + 0.2);
+
+      // Layer 2: Upper Harmonic (Airy/Glassy Texture)
+      const osc2 = ctx.createOscillator();
+      osc2.type = 'triangle'; // Triangle adds a slight richness vs pure sine
+      osc2.frequency.setValueAtTime(2400, t); // Perfect Octave up
+      
+      const gain2 = ctx.createGain();
+      gain2.gain.setValueAtTime(0, t);
+      gain2.gain.linearRampToValueAtTime(0.04, t + 0.01);
+      gain2.gain.exponentialRampToValueAtTime(0.001, t + 0.15); // Shorter decay than fundamental
+
+      osc2.connect(gain2);
+      gain2.connect(out);
+      osc2.start(t);
+      osc2.stop(t + 0.15);
+
+      // Layer 3: Transient "Click" (Simulates digital switch contact)
+      const osc3 = ctx.createOscillator();
+      osc3.type = 'square';
+      osc3.frequency.setValueAtTime(4000, t);
+      
+      const gain3 = ctx.createGain();
+      gain3.gain.setValueAtTime(0.02, t);
+      gain3.gain.exponentialRampToValueAtTime(0.001, t + 0.02); // Very fast click
+
+      osc3.connect(gain3);
+      gain3.connect(out);
+      osc3.start(t);
+      osc3.stop(t + 0.02);
+  },
+
+  // Name Reveal: Fast digital readout
+  dataReveal: ({ ctx, out }, t) => {
+      // Burst of tiny clicks
+      for(let i=0; i<5; i++) {
+          const osc = createOsc(ctx, out, 'square', 2000 + Math.random()*500, t + i*0.04);
+          if (osc) {
+              osc.gain.gain.setValueAtTime(0.05, t + i*0.04);
+              osc.gain.gain.exponentialRampToValueAtTime(0.001, t + i*0.04 + 0.03);
+              osc.osc.start(t + i*0.04);
+              osc.osc.stop(t + i*0.04 + 0.03);
+          }
+      }
+  },
+
+  // PEP Alert: "Soft Notification"
+  // Gentle, non-intrusive alert (Sine wave bell).
+  pepAlert: ({ ctx, out }, t) => {
+      // Single soft sine bell - A5 (880Hz)
+      const osc = ctx.createOscillator();
+      osc.type = 'sine'; 
+      osc.frequency.setValueAtTime(880, t); 
+      
+      const gain = ctx.createGain();
+      gain.gain.setValueAtTime(0, t);
+      gain.gain.linearRampToValueAtTime(0.08, t + 0.02); // Soft attack
+      gain.gain.exponentialRampToValueAtTime(0.001, t + 0.5); // Smooth tail
+      
+      osc.connect(gain);
+      gain.connect(out);
+      
+      osc.start(t);
+      osc.stop(t + 0.5);
+  },
+
+  // Risk High: "Professional Caution"
+  // Deeper, warmer tone (Filtered Triangle), not a buzzer.
+  riskAlert: ({ ctx, out }, t) => {
+      // Warm Triangle/Sine blend - D4 (~300Hz)
+      const osc = ctx.createOscillator();
+      osc.type = 'triangle';
+      osc.frequency.setValueAtTime(300, t); 
+      
+      // Heavy Lowpass filter to make it warm/soft and remove buzz
+      const filter = ctx.createBiquadFilter();
+      filter.type = 'lowpass';
+      filter.frequency.setValueAtTime(600, t);
+      filter.Q.value = 1;
+
+      const gain = ctx.createGain();
+      gain.gain.setValueAtTime(0, t);
+      gain.gain.linearRampToValueAtTime(0.1, t + 0.1); // Slower attack = softer feel
+      gain.gain.exponentialRampToValueAtTime(0.001, t + 0.8); 
+
+      osc.connect(filter);
+      filter.connect(gain);
+      gain.connect(out);
+
+      osc.start(t);
+      osc.stop(t + 0.8);
+  },
+
+  // Data Typing Tick
+  dataTick: ({ ctx, out }, t) => {
+    // Very short high noise tick filtered
+    const osc = createOsc(ctx, out, 'square', 3000, t);
+    if (osc) {
+        osc.gain.gain.setValueAtTime(0.03, t);
+        osc.gain.gain.exponentialRampToValueAtTime(0.001, t + 0.03);
+        osc.osc.start(t);
+        osc.osc.stop(t + 0.03);
+    }
+  },
+
+  // Countdown Beep: Simple digital blip
+  countdownBeep: ({ ctx, out }, t) => {
+    const osc = ctx.createOscillator();
+    osc.type = 'square';
+    osc.frequency.setValueAtTime(800, t);
+
+    // Filter to make it less harsh
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = 1500;
+
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0.05, t);
+    gain.gain.exponentialRampToValueAtTime(0.001, t + 0.1);
+
+    osc.connect(filter);
+    filter.connect(gain);
+    gain.connect(out);
+
+    osc.start(t);
+    osc.stop(t + 0.1);
+  },
+
+  // Liveness Prompt: Two-note rising "your turn" cue
+  livenessPrompt: ({ ctx, out }, t) => {
+    // E5 then A5, soft sine
+    [659, 880].forEach((freq, i) => {
+      const start = t + i * 0.14;
+      const osc = ctx.createOscillator();
+      osc.type = 'sine';
+      osc.frequency.setValueAtTime(freq, start);
+
+      const gain = ctx.createGain();
+      gain.gain.setValueAtTime(0, start);
+      gain.gain.linearRampToValueAtTime(0.08, start + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.3);
+
+      osc.connect(gain);
+      gain.connect(out);
+
+      osc.start(start);
+      osc.stop(start + 0.3);
+    });
+  },
+
+  // Liveness Fail: Two-note falling tone, warm like the risk alert
+  livenessFail: ({ ctx, out }, t) => {
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = 800;
+    filter.connect(out);
+
+    // A4 then E4
+    [440, 330].forEach((freq, i) => {
+      const start = t + i * 0.2;
+      const osc = ctx.createOscillator();
+      osc.type = 'triangle';
+      osc.frequency.setValueAtTime(freq, start);
+
+      const gain = ctx.createGain();
+      gain.gain.setValueAtTime(0, start);
+      gain.gain.linearRampToValueAtTime(0.1, start + 0.05);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.45);
+
+      osc.connect(gain);
+      gain.connect(filter);
+
+      osc.start(start);
+      osc.stop(start + 0.45);
+    });
+  },
+
+  // Risk Low: Bright major third, the reveal's "all clear"
+  riskClear: ({ ctx, out }, t) => {
+    // C6 then E6, soft sine
+    [1046.5, 1318.5].forEach((freq, i) => {
+      const start = t + i * 0.1;
+      const osc = ctx.createOscillator();
+      osc.type = 'sine';
+      osc.frequency.setValueAtTime(freq, start);
+
+      const gain = ctx.createGain();
+      gain.gain.setValueAtTime(0, start);
+      gain.gain.linearRampToValueAtTime(0.07, start + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.6);
+
+      osc.connect(gain);
+      gain.connect(out);
+
+      osc.start(start);
+      osc.stop(start + 0.6);
+    });
+  },
+
+  // Risk Medium: Two level mid tones, attentive but not alarming
+  riskCaution: ({ ctx, out }, t) => {
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = 1200;
+    filter.connect(out);
+
+    // G4 twice
+    [0, 0.22].forEach((offset) => {
+      const start = t + offset;
+      const osc = ctx.createOscillator();
+      osc.type = 'triangle';
+      osc.frequency.setValueAtTime(392, start);
+
+      const gain = ctx.createGain();
+      gain.gain.setValueAtTime(0, start);
+      gain.gain.linearRampToValueAtTime(0.09, start + 0.03);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.3);
+
+      osc.connect(gain);
+      gain.connect(filter);
+
+      osc.start(start);
+      osc.stop(start + 0.3);
+    });
+  },
+
+  // Denied: Low descending minor third with a slow tail, the referral ending
+  denied: ({ ctx, out }, t) => {
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = 500;
+    filter.connect(out);
+
+    // D4 then B3
+    [293.7, 246.9].forEach((freq, i) => {
+      const start = t + i * 0.3;
+      const osc = ctx.createOscillator();
+      osc.type = 'sawtooth';
+      osc.frequency.setValueAtTime(freq, start);
+
+      const gain = ctx.createGain();
+      gain.gain.setValueAtTime(0, start);
+      gain.gain.linearRampToValueAtTime(0.12, start + 0.05);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + (i === 0 ? 0.35 : 1.0));
+
+      osc.connect(gain);
+      gain.connect(filter);
+
+      osc.start(start);
+      osc.stop(start + 1.0);
+    });
+  },
+
+  // Scan loop fallback: a pulsing, filter-swept drone used when the scanning sample is
+  // missing. Runs until the returned function stops it.
+  scanHum: ({ ctx, out }, t) => {
+    const level = ctx.createGain();
+    level.gain.setValueAtTime(0, t);
+    level.gain.linearRampToValueAtTime(0.12, t + 0.4); // Fade in
+    level.connect(out);
+
+    // Pulse at 4 Hz by modulating a second gain stage
+    const pulseGain = ctx.createGain();
+    pulseGain.gain.value = 0.7;
+    pulseGain.connect(level);
+    const pulse = ctx.createOscillator();
+    pulse.frequency.value = 4;
+    const pulseDepth = ctx.createGain();
+    pulseDepth.gain.value = 0.3;
+    pulse.connect(pulseDepth);
+    pulseDepth.connect(pulseGain.gain);
+
+    // Resonant lowpass swept slowly up and down for the "scanning" motion
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = 700;
+    filter.Q.value = 6;
+    filter.connect(pulseGain);
+    const sweep = ctx.createOscillator();
+    sweep.frequency.value = 0.5;
+    const sweepDepth = ctx.createGain();
+    sweepDepth.gain.value = 400;
+    sweep.connect(sweepDepth);
+    sweepDepth.connect(filter.frequency);
+
+    // Two slightly detuned saws beat against each other - A2
+    const drones = [110, 110.8].map(freq => {
+      const osc = ctx.createOscillator();
+      osc.type = 'sawtooth';
+      osc.frequency.value = freq;
+      osc.connect(filter);
+      return osc;
+    });
+
+    const oscillators = [pulse, sweep, ...drones];
+    oscillators.forEach(osc => osc.start(t));
+
+    return () => {
+      const now = ctx.currentTime;
+      level.gain.cancelScheduledValues(now);
+      level.gain.setValueAtTime(level.gain.value, now);
+      level.gain.linearRampToValueAtTime(0, now + 0.15); // Short fade so it doesn't click
+      oscillators.forEach(osc => osc.stop(now + 0.2));
+    };
+  },
+};
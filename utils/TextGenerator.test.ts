@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AttendeeProfile } from '../types';
+import { DEFAULT_GENERATION_TIMEOUT_MS, TextGenerator, createTextGenerator, generateAttendeeCopy } from './TextGenerator';
+
+const PROFILE = {
+  id: 'p1',
+  name: 'Aisha Rahman',
+  title: 'Head of Compliance',
+  organisation: 'Example Bank',
+} as AttendeeProfile;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('generateAttendeeCopy', () => {
+  it('writes the same copy for the same profile with the stub', async () => {
+    const stub = createTextGenerator('?copy=stub');
+    const first = await generateAttendeeCopy(stub, PROFILE, 'en');
+    expect(first).toEqual({
+      greeting: 'Welcome, Aisha! Example Bank is in the room.',
+      bio: 'Aisha Rahman serves as Head of Compliance at Example Bank.',
+    });
+    expect(await generateAttendeeCopy(stub, PROFILE, 'en')).toEqual(first);
+  });
+
+  it('writes the copy in the requested language', async () => {
+    const stub = createTextGenerator('?copy=stub');
+    expect(await generateAttendeeCopy(stub, PROFILE, 'ms')).toEqual({
+      greeting: 'Selamat datang, Aisha! Example Bank bersama kita hari ini.',
+      bio: 'Aisha Rahman berkhidmat sebagai Head of Compliance di Example Bank.',
+    });
+    expect((await generateAttendeeCopy(stub, PROFILE, 'zh'))?.greeting).toBe('欢迎，Aisha！Example Bank已到场。');
+
+    const generate = vi.fn<TextGenerator['generate']>().mockResolvedValue({ greeting: 'Hi', bio: 'Bio' });
+    await generateAttendeeCopy({ generate }, PROFILE, 'zh');
+    expect(generate).toHaveBeenCalledWith(PROFILE, 'zh', expect.any(AbortSignal));
+  });
+
+  it('generates nothing without a provider, so the static copy stays', async () => {
+    expect(await generateAttendeeCopy(null, PROFILE, 'en')).toBeNull();
+  });
+
+  it('gives up on a slow provider after the timeout and aborts it', async () => {
+    let signal: AbortSignal | undefined;
+    const slow: TextGenerator = {
+      generate: (_profile, _locale, abortSignal) => {
+        signal = abortSignal;
+        return new Promise(() => {});
+      },
+    };
+    const copy = generateAttendeeCopy(slow, PROFILE, 'en');
+    await vi.advanceTimersByTimeAsync(DEFAULT_GENERATION_TIMEOUT_MS - 1);
+    expect(signal?.aborted).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(await copy).toBeNull();
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('falls back when the provider fails', async () => {
+    const failing: TextGenerator = { generate: () => Promise.reject(new Error('quota exceeded')) };
+    expect(await generateAttendeeCopy(failing, PROFILE, 'en')).toBeNull();
+  });
+});
@@ -0,0 +1,136 @@
+// Personalised copy for the reveal: a short greeting for the WELCOME screen and a one-line bio
+// for the EDD popup, generated per attendee from their profile in the guest's language.
+// The scanner only talks to the TextGenerator interface. Gemini is used when an API key is
+// configured; `?copy=stub` swaps in a deterministic local stub for rehearsals. Whatever the
+// provider, `generateAttendeeCopy` never waits longer than its timeout and otherwise leaves the
+// static copy in place (the event's EDD text and the greeting from Messages, in the guest's
+// language), so the kiosk cannot hang on a slow or unreachable model.
+
+import { GoogleGenAI, Type } from '@google/genai';
+import { AttendeeProfile, Locale } from '../types';
+import { LOCALES, format } from './Messages';
+
+export interface AttendeeCopy {
+  greeting: string;
+  bio: string;
+}
+
+export interface TextGenerator {
+  generate(profile: AttendeeProfile, locale: Locale, signal: AbortSignal): Promise<AttendeeCopy>;
+}
+
+export const DEFAULT_GENERATION_TIMEOUT_MS = 5000;
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+const MAX_GREETING_LENGTH = 120;
+const MAX_BIO_LENGTH = 220;
+
+const firstName = (profile: AttendeeProfile) => profile.name.split(/\s+/)[0];
+
+const parseCopy = (raw: string | undefined): AttendeeCopy => {
+  const data = JSON.parse(raw ?? '') as Partial<AttendeeCopy>;
+  if (typeof data.greeting !== 'string' || typeof data.bio !== 'string' || !data.greeting.trim() || !data.bio.trim()) {
+    throw new Error('Generated copy is missing the greeting or bio.');
+  }
+  return {
+    greeting: data.greeting.trim().slice(0, MAX_GREETING_LENGTH),
+    bio: data.bio.trim().slice(0, MAX_BIO_LENGTH),
+  };
+};
+
+class GeminiTextGenerator implements TextGenerator {
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async generate(profile: AttendeeProfile, locale: Locale, signal: AbortSignal) {
+    const prompt = [
+      'You write on-screen copy for a compliance conference check-in kiosk.',
+      `Attendee: ${profile.name}, ${profile.title} at ${profile.organisation}.`,
+      `Return a warm greeting of at most ${MAX_GREETING_LENGTH} characters addressed to the attendee,`,
+      `and a factual one-line bio of at most ${MAX_BIO_LENGTH} characters using only the details given.`,
+      `Write both in ${LOCALES[locale].name} (language tag ${LOCALES[locale].lang}); keep names as given.`,
+      'Do not invent facts, titles or achievements.',
+    ].join('\n');
+
+    const response = await this.ai.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: prompt,
+      config: {
+        abortSignal: signal,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            greeting: { type: Type.STRING },
+            bio: { type: Type.STRING },
+          },
+          required: ['greeting', 'bio'],
+        },
+      },
+    });
+    return parseCopy(response.text);
+  }
+}
+
+// {first}, {name}, {title} and {organisation} are filled in from the profile
+const STUB_COPY: { [key in Locale]: AttendeeCopy } = {
+  en: {
+    greeting: 'Welcome, {first}! {organisation} is in the room.',
+    bio: '{name} serves as {title} at {organisation}.',
+  },
+  ms: {
+    greeting: 'Selamat datang, {first}! {organisation} bersama kita hari ini.',
+    bio: '{name} berkhidmat sebagai {title} di {organisation}.',
+  },
+  zh: {
+    greeting: '欢迎，{first}！{organisation}已到场。',
+    bio: '{name}现任{organisation}{title}。',
+  },
+};
+
+// Deterministic copy for rehearsals and offline runs: the same profile always gets the same text
+class StubTextGenerator implements TextGenerator {
+  async generate(profile: AttendeeProfile, locale: Locale) {
+    const values = { first: firstName(profile), name: profile.name, title: profile.title, organisation: profile.organisation };
+    return {
+      greeting: format(STUB_COPY[locale].greeting, values),
+      bio: format(STUB_COPY[locale].bio, values),
+    };
+  }
+}
+
+// `?copy=stub` forces the stub; otherwise Gemini when GEMINI_API_KEY is set, else none (static copy only)
+export const createTextGenerator = (search = window.location.search): TextGenerator | null => {
+  if (new URLSearchParams(search).get('copy') === 'stub') return new StubTextGenerator();
+  const apiKey = process.env.GEMINI_API_KEY;
+  return apiKey ? new GeminiTextGenerator(apiKey) : null;
+};
+
+// Always resolves, within `timeoutMs`, with copy in `locale` or null when nothing was generated.
+export const generateAttendeeCopy = async (
+  generator: TextGenerator | null,
+  profile: AttendeeProfile,
+  locale: Locale,
+  timeoutMs = DEFAULT_GENERATION_TIMEOUT_MS
+): Promise<AttendeeCopy | null> => {
+  if (!generator) return null;
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`Copy generation timed out after ${timeoutMs} ms.`));
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([generator.generate(profile, locale, controller.signal), timeout]);
+  } catch (err) {
+    console.warn(`Using static copy for profile '${profile.id}':`, err);
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+};
@@ -0,0 +1,113 @@
+// Plays a list of timed cues against a single clock.
+// Instead of arming one setTimeout per beat, the scheduler keeps one start timestamp and
+// wakes up for the next due event, so every cue (audio or visual) is measured from the
+// same origin and late wake-ups never accumulate drift. A time scale above 1 runs the whole
+// timeline faster (rehearsal mode) without touching the cue sheet.
+
+export interface TimedCue {
+  at: number;
+  duration?: number;
+}
+
+export interface TimelineHandlers<C extends TimedCue> {
+  onCue?: (cue: C) => void;                 // Fired once when a cue starts
+  onActiveChange?: (active: C[]) => void;   // Cues currently within [at, at + duration)
+  onComplete?: () => void;
+}
+
+export class TimelineScheduler<C extends TimedCue> {
+  private cues: C[];
+  private duration: number;
+  private handlers: TimelineHandlers<C>;
+  private startedAt = 0;
+  private fired = new Set<C>();
+  private active: C[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  private pausedAt: number | null = null;
+  private timeScale: number;
+
+  constructor(cues: C[], duration: number, handlers: TimelineHandlers<C>, timeScale = 1) {
+    this.cues = [...cues].sort((a, b) => a.at - b.at);
+    this.duration = duration;
+    this.handlers = handlers;
+    this.timeScale = timeScale;
+  }
+
+  start() {
+    this.stop();
+    this.fired.clear();
+    this.active = [];
+    this.startedAt = performance.now();
+    this.running = true;
+    this.tick();
+  }
+
+  stop() {
+    this.running = false;
+    this.pausedAt = null;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  // Freezes the clock; nothing fires until resume() and the remaining cues keep their spacing.
+  pause() {
+    if (!this.running || this.pausedAt !== null) return;
+    this.pausedAt = performance.now();
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  resume() {
+    if (!this.running || this.pausedAt === null) return;
+    this.startedAt += performance.now() - this.pausedAt;
+    this.pausedAt = null;
+    this.tick();
+  }
+
+  isPaused() {
+    return this.pausedAt !== null;
+  }
+
+  // Timeline time in ms, i.e. wall-clock time multiplied by the time scale
+  elapsed() {
+    if (!this.running) return 0;
+    return ((this.pausedAt ?? performance.now()) - this.startedAt) * this.timeScale;
+  }
+
+  private isActive(cue: C, elapsed: number) {
+    const end = cue.duration === undefined ? Infinity : cue.at + cue.duration;
+    return cue.at <= elapsed && elapsed < end;
+  }
+
+  private tick = () => {
+    if (!this.running || this.pausedAt !== null) return;
+    const elapsed = this.elapsed();
+
+    this.cues.forEach(cue => {
+      if (cue.at <= elapsed && !this.fired.has(cue)) {
+        this.fired.add(cue);
+        this.handlers.onCue?.(cue);
+      }
+    });
+
+    const active = this.cues.filter(cue => this.isActive(cue, elapsed));
+    if (active.length !== this.active.length || active.some((cue, i) => cue !== this.active[i])) {
+      this.active = active;
+      this.handlers.onActiveChange?.(active);
+    }
+
+    if (elapsed >= this.duration) {
+      this.stop();
+      this.handlers.onComplete?.();
+      return;
+    }
+
+    // Sleep until the next cue starts or ends, or the timeline completes
+    const upcoming = this.cues
+      .flatMap(cue => (cue.duration === undefined ? [cue.at] : [cue.at, cue.at + cue.duration]))
+      .filter(t => t > elapsed);
+    const next = Math.min(this.duration, ...upcoming);
+    this.timer = setTimeout(this.tick, Math.max(0, (next - elapsed) / this.timeScale));
+  };
+}
@@ -0,0 +1,156 @@
+// Resolves the MediaStream that feeds the scanner's <video> element.
+// Normally this is a webcam (the one picked in the operator panel, else the user-facing one),
+// but a recorded clip or still image can be substituted (e.g. `?source=/test-frames/guest.jpg`)
+// to exercise detection without a camera.
+
+import { ScannerFault, classifyCameraError, createFault } from './ScannerError';
+
+// Which camera to open and in what format; chosen in the operator panel and kept in localStorage
+export interface CameraPreferences {
+  deviceId: string | null;   // null opens the user-facing camera
+  width: number | null;      // Preferred resolution and frame rate; null leaves them to the browser
+  height: number | null;
+  frameRate: number | null;
+}
+
+export type VideoSourceConfig =
+  | { kind: 'camera'; preferences?: CameraPreferences }
+  | { kind: 'file'; url: string; fps?: number };
+
+export const DEFAULT_CAMERA_PREFERENCES: CameraPreferences = { deviceId: null, width: null, height: null, frameRate: null };
+
+const CAMERA_PREFERENCES_KEY = 'face-scanner.camera';
+
+const positiveOrNull = (value: unknown) => (typeof value === 'number' && value > 0 ? value : null);
+
+export const loadCameraPreferences = (storage: Storage = window.localStorage): CameraPreferences => {
+  try {
+    const stored = JSON.parse(storage.getItem(CAMERA_PREFERENCES_KEY) ?? 'null');
+    if (typeof stored !== 'object' || stored === null) return DEFAULT_CAMERA_PREFERENCES;
+    return {
+      deviceId: typeof stored.deviceId === 'string' && stored.deviceId ? stored.deviceId : null,
+      width: positiveOrNull(stored.width),
+      height: positiveOrNull(stored.height),
+      frameRate: positiveOrNull(stored.frameRate),
+    };
+  } catch {
+    return DEFAULT_CAMERA_PREFERENCES;
+  }
+};
+
+export const saveCameraPreferences = (preferences: CameraPreferences, storage: Storage = window.localStorage) => {
+  storage.setItem(CAMERA_PREFERENCES_KEY, JSON.stringify(preferences));
+};
+
+// Video inputs for the camera picker. Labels stay empty until camera permission has been granted once.
+export const listCameras = async () => {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'videoinput');
+};
+
+// Typed failure for a source that could not be opened
+export const videoSourceFault = (err: unknown, config: VideoSourceConfig): ScannerFault =>
+  createFault(config.kind === 'camera' ? classifyCameraError(err) : 'video-source-failed', err);
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|webp|gif|bmp)(\?.*)?$/i;
+
+// A still image can stand in for a face, but never blinks or turns
+export const isStillImage = (config: VideoSourceConfig) => config.kind === 'file' && IMAGE_EXTENSIONS.test(config.url);
+
+// Reads `?source=<url>` from the page address; falls back to the live camera with the saved preferences.
+export const getVideoSourceConfig = (search = window.location.search): VideoSourceConfig => {
+  const url = new URLSearchParams(search).get('source');
+  return url ? { kind: 'file', url } : { kind: 'camera', preferences: loadCameraPreferences() };
+};
+
+type CapturableVideo = HTMLVideoElement & {
+  captureStream?: () => MediaStream;
+  mozCaptureStream?: () => MediaStream;
+};
+
+const loadImage = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Could not load test image '${url}'.`));
+    img.src = url;
+  });
+
+// Paints a still image onto a canvas and streams it at a fixed frame rate.
+const openImageStream = async (url: string, fps: number) => {
+  const img = await loadImage(url);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable.');
+
+  // Canvas streams only emit frames when the canvas is repainted
+  const paint = () => ctx.drawImage(img, 0, 0);
+  paint();
+  const interval = setInterval(paint, 1000 / fps);
+
+  const stream = canvas.captureStream(fps);
+  stream.getVideoTracks().forEach(track => track.addEventListener('ended', () => clearInterval(interval)));
+  return stream;
+};
+
+// Plays a recorded clip on a detached, looping <video> and captures its output.
+const openClipStream = async (url: string) => {
+  const clip = document.createElement('video') as CapturableVideo;
+  clip.src = url;
+  clip.loop = true;
+  clip.muted = true;
+  clip.playsInline = true;
+  await clip.play();
+
+  const capture = clip.captureStream ?? clip.mozCaptureStream;
+  if (!capture) throw new Error('This browser cannot capture a stream from a video file.');
+  const stream = capture.call(clip);
+  stream.getVideoTracks().forEach(track => track.addEventListener('ended', () => {
+    clip.pause();
+    clip.removeAttribute('src');
+    clip.load();
+  }));
+  return stream;
+};
+
+// Track.stop() does not fire 'ended' on the track itself, so stopping the returned
+// stream is wrapped to release file-backed resources too.
+const withStopNotification = (stream: MediaStream) => {
+  stream.getVideoTracks().forEach(track => {
+    const stop = track.stop.bind(track);
+    track.stop = () => {
+      stop();
+      track.dispatchEvent(new Event('ended'));
+    };
+  });
+  return stream;
+};
+
+export interface VideoSourceOptions {
+  frameRate?: number;   // Requested frame rate, e.g. a low rate for the kiosk attract watch; overrides the preference
+}
+
+// A chosen camera is required exactly, so a missing one fails instead of silently opening another
+const cameraConstraints = (preferences: CameraPreferences, frameRate?: number): MediaTrackConstraints => {
+  const constraints: MediaTrackConstraints = preferences.deviceId
+    ? { deviceId: { exact: preferences.deviceId } }
+    : { facingMode: 'user' };
+  if (preferences.width) constraints.width = { ideal: preferences.width };
+  if (preferences.height) constraints.height = { ideal: preferences.height };
+  const rate = frameRate ?? preferences.frameRate;
+  if (rate) constraints.frameRate = { ideal: rate };
+  return constraints;
+};
+
+export const openVideoSource = async (config: VideoSourceConfig, options: VideoSourceOptions = {}): Promise<MediaStream> => {
+  if (config.kind === 'camera') {
+    const preferences = config.preferences ?? DEFAULT_CAMERA_PREFERENCES;
+    return navigator.mediaDevices.getUserMedia({ video: cameraConstraints(preferences, options.frameRate) });
+  }
+  const stream = isStillImage(config)
+    ? await openImageStream(config.url, options.frameRate ?? config.fps ?? 10)
+    : await openClipStream(config.url);
+  return withStopNotification(stream);
+};